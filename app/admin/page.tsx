@@ -1,20 +1,24 @@
 /**
- * Admin Page
+ * Admin Page (admin role only)
  *
  * - Manual sync trigger (Server Action)
  * - Rate limit status
  * - Recent sync log
- * - Backfill queue: DS matches missing replay data
+ * - Backfill queue: tracked-team matches missing replay data
+ * - Replay job queue status + dead-lettered jobs
+ * - Sync audit log: who triggered each manual / cron sync
  */
 
 import { createServerClient } from '@/lib/supabase/client'
-import { triggerFullSync, triggerReplaySync } from '@/actions/sync'
+import { triggerFullSync, triggerReplaySync, triggerRequeueReplay } from '@/actions/sync'
 import { getRateLimitStatus } from '@/lib/shockball/client'
+import { BACKGROUND_RESERVE } from '@/lib/shockball/rate-limit'
+import { getTrackedTeams } from '@/lib/teams'
+import { requireRole } from '@/lib/auth'
+import { listSyncAudit, SYNC_THROTTLE, type SyncAction } from '@/lib/supabase/sync-audit'
 
 export const dynamic = 'force-dynamic'
 
-const DS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
-
 function formatDate(dateStr: string) {
   return new Date(dateStr).toLocaleDateString('en-US', {
     month: 'short', day: 'numeric', year: 'numeric',
@@ -32,14 +36,30 @@ function timeAgo(dateStr: string): string {
   return `${Math.floor(hrs / 24)}d ago`
 }
 
-export default async function AdminPage() {
+const ACTION_LABELS: Record<SyncAction, string> = {
+  full_sync:      'Full sync',
+  replay_sync:    'Replay sync',
+  requeue_replay: 'Requeue replay',
+}
+
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ throttled?: string }>
+}) {
+  await requireRole('admin')
+  const { throttled } = await searchParams
+  const throttledAction = throttled && throttled in SYNC_THROTTLE ? throttled as SyncAction : null
+  // Service role: the worker tables have no RLS policies
   const db = createServerClient()
+  const trackedTeams = await getTrackedTeams()
+  const trackedShortName: Record<string, string> = Object.fromEntries(trackedTeams.map(t => [t.id, t.shortName]))
 
-  const [missingReplayResult, syncLogResult, teamNamesResult] = await Promise.all([
+  const [missingReplayResult, syncLogResult, teamNamesResult, jobsResult, deadJobsResult] = await Promise.all([
     db
       .from('matches')
       .select('id, scheduled_time, home_team_id, away_team_id, home_score, away_score')
-      .eq('involves_deadly_sins', true)
+      .eq('involves_tracked_team', true)
       .eq('replay_fetched', false)
       .eq('status', 'COMPLETED')
       .order('scheduled_time', { ascending: false }),
@@ -49,6 +69,12 @@ export default async function AdminPage() {
       .order('fetched_at', { ascending: false })
       .limit(20),
     db.from('teams').select('id, name'),
+    db.from('replay_jobs').select('status').neq('status', 'done'),
+    db
+      .from('matches')
+      .select('id, scheduled_time, home_team_id, away_team_id, replay_jobs!inner(attempts, last_error, updated_at)')
+      .eq('replay_jobs.status', 'dead')
+      .order('scheduled_time', { ascending: false }),
   ])
 
   const missingReplays = missingReplayResult.data ?? []
@@ -57,7 +83,17 @@ export default async function AdminPage() {
     (teamNamesResult.data ?? []).map(t => [t.id, t.name])
   )
 
-  const rateLimit = getRateLimitStatus()
+  const jobCounts = { pending: 0, running: 0, dead: 0 }
+  for (const j of jobsResult.data ?? []) {
+    if (j.status in jobCounts) jobCounts[j.status as keyof typeof jobCounts]++
+  }
+  type DeadJob = { attempts: number; last_error: string | null; updated_at: string }
+  const deadJobs = (deadJobsResult.data ?? []).map(m => ({
+    ...m,
+    job: (Array.isArray(m.replay_jobs) ? m.replay_jobs[0] : m.replay_jobs) as DeadJob,
+  }))
+
+  const [rateLimit, audit] = await Promise.all([getRateLimitStatus(), listSyncAudit(db)])
   const lastSync = syncLogs.find(l => l.http_status === 200)
 
   return (
@@ -67,6 +103,13 @@ export default async function AdminPage() {
         <p className="mt-1 text-sm text-gray-500">Sync controls, status, and backfill queue.</p>
       </div>
 
+      {throttledAction && (
+        <p className="mb-6 rounded border border-yellow-900 bg-yellow-950/40 px-3 py-2 text-sm text-yellow-300">
+          {ACTION_LABELS[throttledAction]} is limited to {SYNC_THROTTLE[throttledAction].limit} runs
+          per {SYNC_THROTTLE[throttledAction].windowMinutes} minutes per user — try again shortly.
+        </p>
+      )}
+
       <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
         <div className="lg:col-span-2 space-y-8">
 
@@ -77,7 +120,7 @@ export default async function AdminPage() {
             </h2>
             {missingReplays.length === 0 ? (
               <div className="rounded-lg border border-gray-800 bg-gray-900 px-6 py-6 text-center">
-                <p className="text-sm text-emerald-400 font-medium">All completed DS matches have replay data ✓</p>
+                <p className="text-sm text-emerald-400 font-medium">All completed tracked-team matches have replay data ✓</p>
               </div>
             ) : (
               <div className="rounded-lg border border-gray-800 overflow-hidden">
@@ -91,17 +134,19 @@ export default async function AdminPage() {
                   </thead>
                   <tbody className="divide-y divide-gray-800">
                     {missingReplays.map(m => {
-                      const isHome = m.home_team_id === DS_TEAM_ID
+                      const isHome = m.home_team_id in trackedShortName
                       const oppId = isHome ? m.away_team_id : m.home_team_id
                       const oppName = teamNames[oppId] ?? 'Unknown'
-                      const dsScore = isHome ? m.home_score : m.away_score
+                      const ourScore = isHome ? m.home_score : m.away_score
                       const oppScore = isHome ? m.away_score : m.home_score
                       return (
                         <tr key={m.id} className="bg-gray-950">
                           <td className="px-4 py-3">
-                            <p className="text-gray-300">DS {isHome ? 'vs' : '@'} {oppName}</p>
-                            {dsScore !== null && oppScore !== null && (
-                              <p className="text-xs text-gray-600">{isHome ? `${dsScore}–${oppScore}` : `${oppScore}–${dsScore}`}</p>
+                            <p className="text-gray-300">
+                              {trackedShortName[isHome ? m.home_team_id : m.away_team_id]} {isHome ? 'vs' : '@'} {oppName}
+                            </p>
+                            {ourScore !== null && oppScore !== null && (
+                              <p className="text-xs text-gray-600">{isHome ? `${ourScore}–${oppScore}` : `${oppScore}–${ourScore}`}</p>
                             )}
                           </td>
                           <td className="px-4 py-3 text-xs text-gray-400">{formatDate(m.scheduled_time)}</td>
@@ -124,6 +169,58 @@ export default async function AdminPage() {
             )}
           </section>
 
+          {/* Dead-lettered replay jobs */}
+          <section>
+            <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+              Failed Replays ({deadJobs.length})
+            </h2>
+            {deadJobs.length === 0 ? (
+              <div className="rounded-lg border border-gray-800 bg-gray-900 px-6 py-6 text-center">
+                <p className="text-sm text-gray-500">No replay jobs have been dead-lettered.</p>
+              </div>
+            ) : (
+              <div className="rounded-lg border border-gray-800 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-800 bg-gray-900">
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Match</th>
+                      <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Attempts</th>
+                      <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800">
+                    {deadJobs.map(m => (
+                      <tr key={m.id} className="bg-gray-950">
+                        <td className="px-4 py-3">
+                          <p className="text-gray-300">
+                            {teamNames[m.home_team_id] ?? 'Unknown'} vs {teamNames[m.away_team_id] ?? 'Unknown'}
+                          </p>
+                          <p className="text-xs text-gray-600">
+                            {formatDate(m.scheduled_time)} · last tried {timeAgo(m.job.updated_at)}
+                          </p>
+                          {m.job.last_error && (
+                            <p className="text-xs text-red-400 mt-0.5 truncate max-w-md">{m.job.last_error}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-center text-xs text-gray-400">{m.job.attempts}</td>
+                        <td className="px-4 py-3 text-center">
+                          <form action={triggerRequeueReplay.bind(null, m.id)}>
+                            <button
+                              type="submit"
+                              className="rounded px-3 py-1 text-xs font-medium bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                            >
+                              Retry
+                            </button>
+                          </form>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
           {/* Sync log */}
           <section>
             <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Recent Sync Log</h2>
@@ -161,6 +258,52 @@ export default async function AdminPage() {
               </table>
             </div>
           </section>
+
+          {/* Sync audit log */}
+          <section>
+            <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Sync Audit Log</h2>
+            {audit.length === 0 ? (
+              <div className="rounded-lg border border-gray-800 bg-gray-900 px-6 py-6 text-center">
+                <p className="text-sm text-gray-500">No manual or cron syncs recorded yet</p>
+              </div>
+            ) : (
+              <div className="rounded-lg border border-gray-800 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-800 bg-gray-900">
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Who</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Action</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Time</th>
+                      <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Outcome</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800">
+                    {audit.map(entry => (
+                      <tr key={entry.id} className="bg-gray-950">
+                        <td className="px-4 py-2.5 text-xs text-gray-400">{entry.actor}</td>
+                        <td className="px-4 py-2.5">
+                          <span className="text-xs text-gray-300">{ACTION_LABELS[entry.action]}</span>
+                          {entry.matchId && <span className="ml-1 font-mono text-xs text-gray-600">{entry.matchId}</span>}
+                          {entry.error && <p className="text-xs text-red-400 mt-0.5 truncate max-w-xs">{entry.error}</p>}
+                        </td>
+                        <td className="px-4 py-2.5 text-xs text-gray-500">{timeAgo(entry.createdAt)}</td>
+                        <td className="px-4 py-2.5 text-center">
+                          <span className={`text-xs font-medium ${
+                            entry.outcome === 'succeeded' ? 'text-emerald-400' :
+                            entry.outcome === 'failed'    ? 'text-red-400' :
+                            entry.outcome === 'throttled' ? 'text-yellow-400' :
+                            'text-gray-500'
+                          }`}>
+                            {entry.outcome}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
         </div>
 
         {/* Sidebar */}
@@ -183,7 +326,30 @@ export default async function AdminPage() {
                 </button>
               </form>
               <p className="text-xs text-gray-600 leading-snug">
-                Fetches upcoming + recent matches, then replays for any new completed DS matches.
+                Fetches upcoming + recent matches, then replays for any new completed tracked-team matches
+                and a budgeted batch of upcoming opponents&apos; other games.
+              </p>
+            </div>
+          </section>
+
+          {/* Replay queue */}
+          <section>
+            <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Replay Queue</h2>
+            <div className="rounded-lg border border-gray-800 bg-gray-900 p-4 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">Pending</span>
+                <span className="font-medium text-gray-300">{jobCounts.pending}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">Running</span>
+                <span className="font-medium text-gray-300">{jobCounts.running}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">Failed</span>
+                <span className={`font-medium ${jobCounts.dead > 0 ? 'text-red-400' : 'text-gray-300'}`}>{jobCounts.dead}</span>
+              </div>
+              <p className="text-xs text-gray-600 leading-snug">
+                Drained in small batches after each sync. Failures retry with backoff, then move to Failed Replays.
               </p>
             </div>
           </section>
@@ -205,7 +371,12 @@ export default async function AdminPage() {
                 />
               </div>
               <p className="text-xs text-gray-600">
-                Resets at {new Date(rateLimit.resetsAt).toLocaleTimeString()}
+                {rateLimit.resetsAt
+                  ? `Resets at ${new Date(rateLimit.resetsAt).toLocaleTimeString()}`
+                  : 'Full budget — no window in progress'}
+              </p>
+              <p className="text-xs text-gray-600 leading-snug">
+                Shared across all sync runs. Background fetches pause below {BACKGROUND_RESERVE}.
               </p>
             </div>
           </section>
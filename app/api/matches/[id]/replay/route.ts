@@ -6,6 +6,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { syncMatchReplay } from '@/workers/sync'
+import { refitModels } from '@/workers/models'
+import { createServerClient } from '@/lib/supabase/client'
+import { withSyncAudit, CRON_ACTOR } from '@/lib/supabase/sync-audit'
+import { isCronRequest } from '@/lib/sync-auth'
 
 export const runtime = 'nodejs'
 export const maxDuration = 30
@@ -14,14 +18,15 @@ export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const authHeader = req.headers.get('authorization')
-  const cronSecret = process.env.CRON_SECRET
-
-  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+  if (!isCronRequest(req)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
   const { id } = await params
-  const result = await syncMatchReplay(id)
+  const result = await withSyncAudit(createServerClient(), CRON_ACTOR, 'replay_sync', id, async () => {
+    const replay = await syncMatchReplay(id)
+    if (replay.success && !replay.notModified) await refitModels()
+    return replay
+  }, replay => !replay.success)
   return NextResponse.json({ ...result, matchId: id })
 }
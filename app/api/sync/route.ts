@@ -4,29 +4,54 @@
  * Triggered by Vercel Cron every 15 minutes.
  * Also callable manually for immediate sync.
  *
- * Protected by CRON_SECRET to prevent public abuse.
+ * Polls match lists, then spends the rest of the time budget draining
+ * the replay job queue, and refits the analytics models if any replays
+ * were stored. Anything left over is picked up next run.
+ *
+ * Protected by CRON_SECRET to prevent public abuse (required — unset means
+ * every sync request is refused). Runs are logged to sync_audit_log as 'cron'.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { syncMatches } from '@/workers/sync'
+import { processReplayQueue } from '@/workers/replay-queue'
+import { refitModels } from '@/workers/models'
 import { getRateLimitStatus } from '@/lib/shockball/client'
+import { createServerClient } from '@/lib/supabase/client'
+import { withSyncAudit, CRON_ACTOR } from '@/lib/supabase/sync-audit'
+import { isCronRequest } from '@/lib/sync-auth'
 
 export const runtime = 'nodejs'
 export const maxDuration = 60  // 60 second timeout for sync jobs
 
+// Leave headroom under maxDuration for the response and stragglers
+const QUEUE_DEADLINE_MS = 50_000
+
+// Held back from the queue for refitting the models afterwards
+const MODEL_REFIT_MS = 10_000
+
+async function runSync() {
+  return withSyncAudit(createServerClient(), CRON_ACTOR, 'full_sync', null, async () => {
+    const startedAt = Date.now()
+    const results = await syncMatches()
+    const queue = await processReplayQueue({
+      timeBudgetMs: QUEUE_DEADLINE_MS - MODEL_REFIT_MS - (Date.now() - startedAt),
+    })
+    const models = queue.succeeded > 0 ? await refitModels() : null
+    return { ...results, queue, models }
+  })
+}
+
 export async function POST(req: NextRequest) {
   // Verify cron secret (set this in Vercel env vars)
-  const authHeader = req.headers.get('authorization')
-  const cronSecret = process.env.CRON_SECRET
-
-  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+  if (!isCronRequest(req)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
   try {
     console.log('[/api/sync] Starting match sync...')
-    const results = await syncMatches()
-    const rateLimit = getRateLimitStatus()
+    const results = await runSync()
+    const rateLimit = await getRateLimitStatus()
 
     console.log('[/api/sync] Sync complete:', results)
 
@@ -48,16 +73,11 @@ export async function POST(req: NextRequest) {
 // GET endpoint — runs sync when called by Vercel cron (authorised),
 // otherwise returns rate-limit status for manual health checks.
 export async function GET(req: NextRequest) {
-  const authHeader = req.headers.get('authorization')
-  const cronSecret = process.env.CRON_SECRET
-
-  const isAuthorised = cronSecret && authHeader === `Bearer ${cronSecret}`
-
-  if (isAuthorised) {
+  if (isCronRequest(req)) {
     try {
       console.log('[/api/sync GET] Starting match sync (cron)...')
-      const results = await syncMatches()
-      const rateLimit = getRateLimitStatus()
+      const results = await runSync()
+      const rateLimit = await getRateLimitStatus()
       console.log('[/api/sync GET] Sync complete:', results)
       return NextResponse.json({
         success: true,
@@ -74,11 +94,11 @@ export async function GET(req: NextRequest) {
     }
   }
 
-  // No / wrong secret — return rate-limit status only
-  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+  // No / wrong secret — return rate-limit status only when no secret is configured
+  if (process.env.CRON_SECRET) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
-  const rateLimit = getRateLimitStatus()
+  const rateLimit = await getRateLimitStatus()
   return NextResponse.json({ rateLimit, timestamp: new Date().toISOString() })
 }
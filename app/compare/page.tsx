@@ -6,7 +6,8 @@
  */
 
 import Link from 'next/link'
-import { createServerClient } from '@/lib/supabase/client'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
 
 export const dynamic = 'force-dynamic'
 
@@ -78,7 +79,7 @@ function fmtStat(val: number, stat: StatKey): string {
 // ============================================================
 
 async function getAllPlayers(): Promise<LeaguePlayer[]> {
-  const db = createServerClient()
+  const db = await createUserClient()
   const { data } = await db
     .from('player_career_stats')
     .select('player_id, player_name, team_id, team_name, matches_played, total_goals, total_shots, total_passes, total_tackles, total_blocks, total_fouls, career_shot_conversion, career_foul_rate, avg_goals_per_match, avg_shots_per_match, avg_passes_per_match, avg_tackles_per_match')
@@ -328,6 +329,7 @@ export default async function ComparePage({
 }: {
   searchParams: Promise<Record<string, string | undefined>>
 }) {
+  await requireRole()
   const params = await searchParams
   const mode    = (params.mode ?? 'leaderboard') as Mode
   const tab     = (params.tab  ?? 'players')     as LeaderTab
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { saveLineup } from '@/actions/lineup'
+
+export interface LineupPlayer {
+  id: string
+  name: string
+  estimatedEnergy: number | null
+  predictedMinEnergy: number | null
+  startRisk: 'low' | 'medium' | 'high' | 'unknown'
+  rankScore: number
+}
+
+type Slot = 'starters' | 'bench'
+
+const RISK_STYLES: Record<LineupPlayer['startRisk'], string> = {
+  low:     'text-emerald-400',
+  medium:  'text-yellow-400',
+  high:    'text-red-400',
+  unknown: 'text-gray-500',
+}
+
+export function LineupBuilder({
+  matchId,
+  teamId,
+  players,
+  initialStarters,
+  initialBench,
+  maxStarters,
+  saved,
+  canEdit,
+}: {
+  matchId: string
+  teamId: string
+  players: LineupPlayer[]
+  initialStarters: string[]
+  initialBench: string[]
+  maxStarters: number
+  saved: boolean   // false = initial lineup is only a suggestion
+  canEdit: boolean
+}) {
+  const [lineup, setLineup] = useState<Record<Slot, string[]>>({ starters: initialStarters, bench: initialBench })
+  const [dirty, setDirty] = useState(!saved)
+  const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState(false)
+  const byId = new Map(players.map(p => [p.id, p]))
+
+  // Move a player to `slot`, before `beforeId` if given, otherwise to the end
+  function move(playerId: string, slot: Slot, beforeId?: string) {
+    if (!canEdit || playerId === beforeId) return
+    if (slot === 'starters' && !lineup.starters.includes(playerId) && lineup.starters.length >= maxStarters) {
+      setError(`Only ${maxStarters} players can start — move someone to the bench first.`)
+      return
+    }
+    const next: Record<Slot, string[]> = {
+      starters: lineup.starters.filter(id => id !== playerId),
+      bench: lineup.bench.filter(id => id !== playerId),
+    }
+    const at = beforeId ? next[slot].indexOf(beforeId) : -1
+    if (at === -1) next[slot].push(playerId)
+    else next[slot].splice(at, 0, playerId)
+    setLineup(next)
+    setDirty(true)
+    setError(null)
+  }
+
+  async function save() {
+    setPending(true)
+    try {
+      await saveLineup(matchId, teamId, lineup.starters, lineup.bench)
+      setDirty(false)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save lineup')
+    } finally {
+      setPending(false)
+    }
+  }
+
+  function renderZone(slot: Slot, title: string) {
+    const ids = lineup[slot]
+    return (
+      <section
+        onDragOver={(e) => { if (canEdit) e.preventDefault() }}
+        onDrop={(e) => { e.preventDefault(); move(e.dataTransfer.getData('text/plain'), slot) }}
+        className="rounded-lg border border-dashed border-gray-700 bg-gray-900/50 p-3 min-h-32"
+      >
+        <h2 className="mb-3 text-sm font-semibold uppercase tracking-widest text-gray-500">
+          {title}{slot === 'starters' && ` (${ids.length}/${maxStarters})`}
+        </h2>
+        {ids.length === 0 && (
+          <p className="py-4 text-center text-xs text-gray-600">{canEdit ? 'Drag players here' : 'Empty'}</p>
+        )}
+        <ul className="space-y-2">
+          {ids.map(id => {
+            const p = byId.get(id)
+            if (!p) return null
+            return (
+              <li
+                key={id}
+                draggable={canEdit}
+                onDragStart={(e) => e.dataTransfer.setData('text/plain', id)}
+                onDrop={(e) => { e.preventDefault(); e.stopPropagation(); move(e.dataTransfer.getData('text/plain'), slot, id) }}
+                className={`flex items-center justify-between rounded border border-gray-800 bg-gray-950 px-3 py-2 ${canEdit ? 'cursor-grab active:cursor-grabbing' : ''}`}
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-200">{p.name}</p>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Start ~{p.estimatedEnergy ?? '?'} · low ~{p.predictedMinEnergy ?? '?'} ·{' '}
+                    <span className={RISK_STYLES[p.startRisk]}>{p.startRisk} risk</span>
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-gray-600">{p.rankScore.toFixed(2)}</span>
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => move(id, slot === 'starters' ? 'bench' : 'starters')}
+                      className="rounded px-2 py-1 text-xs text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                    >
+                      {slot === 'starters' ? 'Bench' : 'Start'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      </section>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {renderZone('starters', 'Starting Lineup')}
+        {renderZone('bench', 'Bench')}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {canEdit && (
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={save}
+            disabled={pending || !dirty}
+            className="rounded-lg bg-emerald-900 hover:bg-emerald-800 text-emerald-300 font-medium px-4 py-2.5 text-sm transition-colors disabled:opacity-50"
+          >
+            {pending ? 'Saving…' : 'Save Lineup'}
+          </button>
+          {!dirty && !pending && <span className="text-xs text-gray-600">All changes saved</span>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+'use client'
+
+/** Opens the browser print dialog — "Save as PDF" there makes the file locally */
+export function PrintButton({ label = 'Print / Save PDF' }: { label?: string }) {
+  return (
+    <button
+      onClick={() => window.print()}
+      className="print:hidden rounded bg-gray-800 px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700 transition-colors"
+    >
+      {label}
+    </button>
+  )
+}
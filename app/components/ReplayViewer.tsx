@@ -0,0 +1,182 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  energyAtTurn,
+  eventsByTurn,
+  lastReplayTurn,
+  scoreAtTurn,
+  type EnergyPoint,
+  type ReplayEvent,
+} from '@/lib/analytics/replay'
+
+export interface ReplayPlayer {
+  id: string
+  name: string
+  isHome: boolean
+}
+
+const SPEEDS = [1, 2, 4] as const
+const TURN_MS = 800
+
+function energyBarColor(energy: number | null): string {
+  if (energy === null) return 'bg-gray-700'
+  if (energy >= 60) return 'bg-emerald-500'
+  if (energy >= 30) return 'bg-yellow-500'
+  if (energy >= 10) return 'bg-orange-500'
+  return 'bg-red-600'
+}
+
+export function ReplayViewer({
+  events,
+  energy,
+  players,
+  homeTeamName,
+  awayTeamName,
+}: {
+  events: ReplayEvent[]
+  energy: Record<string, EnergyPoint[]>
+  players: ReplayPlayer[]
+  homeTeamName: string
+  awayTeamName: string
+}) {
+  const lastTurn = useMemo(() => lastReplayTurn(events, energy), [events, energy])
+  const byTurn = useMemo(() => eventsByTurn(events), [events])
+  const names = useMemo(() => new Map(players.map(p => [p.id, p.name])), [players])
+
+  const [turn, setTurn] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState<(typeof SPEEDS)[number]>(1)
+
+  // Advance one turn per tick; stop at the final whistle
+  useEffect(() => {
+    if (!playing) return
+    if (turn >= lastTurn) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setTurn(t => Math.min(lastTurn, t + 1)), TURN_MS / speed)
+    return () => clearTimeout(timer)
+  }, [playing, turn, speed, lastTurn])
+
+  function togglePlay() {
+    if (!playing && turn >= lastTurn) setTurn(0)
+    setPlaying(p => !p)
+  }
+
+  function step(delta: number) {
+    setPlaying(false)
+    setTurn(t => Math.min(lastTurn, Math.max(0, t + delta)))
+  }
+
+  const score = scoreAtTurn(events, turn)
+  const turnEvents = byTurn.get(turn) ?? []
+
+  const side = (isHome: boolean) =>
+    players
+      .filter(p => p.isHome === isHome)
+      .map(p => ({ ...p, energy: energyAtTurn(energy[p.id] ?? [], turn) }))
+
+  return (
+    <div className="space-y-4">
+      {/* Scoreboard */}
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-400 truncate">{homeTeamName}</p>
+        <div className="text-center shrink-0">
+          <p className="text-2xl font-bold text-white tabular-nums">{score.home} – {score.away}</p>
+          <p className="text-xs text-gray-500">Turn {turn} / {lastTurn}</p>
+        </div>
+        <p className="text-sm text-gray-400 truncate text-right">{awayTeamName}</p>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => step(-1)}
+          disabled={turn === 0}
+          className="rounded px-2 py-1 text-sm text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-40 transition-colors"
+          aria-label="Previous turn"
+        >
+          ◀
+        </button>
+        <button
+          type="button"
+          onClick={togglePlay}
+          className="w-16 rounded bg-gray-800 px-3 py-1 text-sm text-gray-200 hover:bg-gray-700 transition-colors"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <button
+          type="button"
+          onClick={() => step(1)}
+          disabled={turn === lastTurn}
+          className="rounded px-2 py-1 text-sm text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-40 transition-colors"
+          aria-label="Next turn"
+        >
+          ▶
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={lastTurn}
+          value={turn}
+          onChange={e => { setPlaying(false); setTurn(Number(e.target.value)) }}
+          className="flex-1 accent-emerald-500"
+          aria-label="Turn"
+        />
+        <select
+          value={speed}
+          onChange={e => setSpeed(Number(e.target.value) as (typeof SPEEDS)[number])}
+          className="rounded border border-gray-700 bg-gray-900 px-2 py-1 text-xs text-gray-300"
+          aria-label="Playback speed"
+        >
+          {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+
+      {/* This turn's events */}
+      <div className="min-h-[5rem] rounded border border-gray-800 bg-gray-950 px-3 py-2">
+        {turnEvents.length === 0 ? (
+          <p className="text-sm text-gray-600 italic">Nothing recorded this turn.</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {turnEvents.map(e => (
+              <li key={e.seq} className="text-sm">
+                <span className="mr-2 text-xs font-medium text-gray-500">{e.type}</span>
+                <span className="text-gray-200">{e.description ?? '—'}</span>
+                {e.players_involved && e.players_involved.length > 0 && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    {e.players_involved.map(id => names.get(id) ?? id).join(', ')}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Energy at this turn */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {[true, false].map(isHome => (
+          <div key={String(isHome)}>
+            <p className="mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+              {isHome ? homeTeamName : awayTeamName}
+            </p>
+            <ul className="space-y-1.5">
+              {side(isHome).map(p => (
+                <li key={p.id} className="flex items-center gap-2 text-xs">
+                  <span className="w-28 truncate text-gray-300">{p.name}</span>
+                  <div className="h-2 flex-1 rounded bg-gray-800 overflow-hidden">
+                    <div className={`h-full ${energyBarColor(p.energy)}`} style={{ width: `${p.energy ?? 0}%` }} />
+                  </div>
+                  <span className="w-7 text-right text-gray-400 tabular-nums">{p.energy ?? '—'}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
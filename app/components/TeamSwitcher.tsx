@@ -0,0 +1,45 @@
+'use client'
+
+import { useState } from 'react'
+import { setActiveTeam } from '@/actions/team'
+
+interface TeamOption {
+  id: string
+  name: string
+}
+
+export function TeamSwitcher({ teams, activeId }: { teams: TeamOption[]; activeId: string }) {
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (teams.length < 2) return null
+
+  async function switchTeam(id: string) {
+    setPending(true)
+    setError(null)
+    try {
+      await setActiveTeam(id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch team')
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        aria-label="Switch team"
+        value={activeId}
+        disabled={pending}
+        onChange={(e) => switchTeam(e.target.value)}
+        className="rounded border border-gray-700 bg-gray-900 px-2 py-1.5 text-sm text-gray-200 focus:border-gray-500 focus:outline-none transition-colors disabled:opacity-50"
+      >
+        {teams.map((t) => (
+          <option key={t.id} value={t.id}>{t.name}</option>
+        ))}
+      </select>
+      {error && <span role="alert" className="text-xs text-red-400">{error}</span>}
+    </div>
+  )
+}
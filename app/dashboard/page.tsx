@@ -1,17 +1,17 @@
 /**
- * Coaching Dashboard — Deadly Sins
+ * Coaching Dashboard — active tracked team
  *
  * Focuses on performance: goals, shots, shot conversion, tackles, passes, form.
  * Energy is a minor game mechanic and intentionally de-emphasised here.
  */
 
 import Link from 'next/link'
-import { createServerClient } from '@/lib/supabase/client'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
+import { getActiveTeam, type TrackedTeam } from '@/lib/teams'
 
 export const dynamic = 'force-dynamic'
 
-const DS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
-
 // ============================================================
 // Types
 // ============================================================
@@ -37,7 +37,7 @@ interface UpcomingMatch {
   away_team_name: string
   away_team_id: string
   competition_name: string | null
-  deadly_sins_side: 'home' | 'away'
+  tracked_side: 'home' | 'away'
 }
 
 interface RecentMatch {
@@ -55,21 +55,21 @@ type FormResult = 'W' | 'L' | 'D'
 // Data fetching
 // ============================================================
 
-async function getDashboardData() {
-  const db = createServerClient()
+async function getDashboardData(teamId: string) {
+  const db = await createUserClient()
 
   const [playersResult, upcomingResult, recentMatchesResult, lastSyncResult] =
     await Promise.all([
       db
         .from('player_career_stats')
         .select('player_id, player_name, team_id, matches_played, total_goals, total_shots, total_tackles, total_passes, career_shot_conversion, avg_goals_per_match')
-        .eq('team_id', DS_TEAM_ID)
+        .eq('team_id', teamId)
         .order('total_goals', { ascending: false }),
-      db.from('upcoming_deadly_sins_matches').select('*').limit(10),
+      db.from('upcoming_tracked_matches').select('*').eq('tracked_team_id', teamId).limit(10),
       db
         .from('matches')
         .select('id, scheduled_time, home_team_id, away_team_id, home_score, away_score')
-        .eq('involves_deadly_sins', true)
+        .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
         .eq('status', 'COMPLETED')
         .order('scheduled_time', { ascending: false })
         .limit(10),
@@ -102,11 +102,11 @@ async function getDashboardData() {
   let streak = 0
   let streakType: FormResult | null = null
   for (const m of recentMatches) {
-    const isHome = m.home_team_id === DS_TEAM_ID
-    const ds = isHome ? m.home_score : m.away_score
+    const isHome = m.home_team_id === teamId
+    const ours = isHome ? m.home_score : m.away_score
     const opp = isHome ? m.away_score : m.home_score
-    if (ds === null || opp === null) break
-    const result: FormResult = ds > opp ? 'W' : ds < opp ? 'L' : 'D'
+    if (ours === null || opp === null) break
+    const result: FormResult = ours > opp ? 'W' : ours < opp ? 'L' : 'D'
     if (streakType === null) { streakType = result; streak = 1 }
     else if (result === streakType) { streak++ }
     else break
@@ -117,11 +117,11 @@ async function getDashboardData() {
   const last5MatchIds = last5Matches.map(m => m.id)
   const matchResultMap: Record<string, FormResult> = {}
   for (const m of last5Matches) {
-    const isHome = m.home_team_id === DS_TEAM_ID
-    const ds = isHome ? m.home_score : m.away_score
+    const isHome = m.home_team_id === teamId
+    const ours = isHome ? m.home_score : m.away_score
     const opp = isHome ? m.away_score : m.home_score
-    if (ds !== null && opp !== null) {
-      matchResultMap[m.id] = ds > opp ? 'W' : ds < opp ? 'L' : 'D'
+    if (ours !== null && opp !== null) {
+      matchResultMap[m.id] = ours > opp ? 'W' : ours < opp ? 'L' : 'D'
     }
   }
 
@@ -131,7 +131,7 @@ async function getDashboardData() {
       .from('player_match_stats')
       .select('player_id, match_id')
       .in('match_id', last5MatchIds)
-      .eq('team_id', DS_TEAM_ID)
+      .eq('team_id', teamId)
     const statsByMatch: Record<string, string[]> = {}
     for (const s of recentStatsData ?? []) {
       if (!statsByMatch[s.match_id]) statsByMatch[s.match_id] = []
@@ -251,17 +251,17 @@ function PlayerCard({ player, form }: { player: PlayerStat; form: FormResult[] }
   )
 }
 
-function MatchResult({ match, teamNames }: { match: RecentMatch; teamNames: Record<string, string> }) {
-  const isHome = match.home_team_id === DS_TEAM_ID
-  const dsScore = isHome ? match.home_score : match.away_score
+function MatchResult({ match, teamId, teamNames }: { match: RecentMatch; teamId: string; teamNames: Record<string, string> }) {
+  const isHome = match.home_team_id === teamId
+  const ourScore = isHome ? match.home_score : match.away_score
   const oppScore = isHome ? match.away_score : match.home_score
   const oppId = isHome ? match.away_team_id : match.home_team_id
   const oppName = teamNames[oppId] ?? 'Unknown'
 
   let resultColor = 'text-gray-400'; let resultLabel = '—'
-  if (dsScore !== null && oppScore !== null) {
-    if (dsScore > oppScore) { resultColor = 'text-emerald-400'; resultLabel = 'W' }
-    else if (dsScore < oppScore) { resultColor = 'text-red-400'; resultLabel = 'L' }
+  if (ourScore !== null && oppScore !== null) {
+    if (ourScore > oppScore) { resultColor = 'text-emerald-400'; resultLabel = 'W' }
+    else if (ourScore < oppScore) { resultColor = 'text-red-400'; resultLabel = 'L' }
     else { resultColor = 'text-yellow-400'; resultLabel = 'D' }
   }
 
@@ -277,9 +277,9 @@ function MatchResult({ match, teamNames }: { match: RecentMatch; teamNames: Reco
         </Link>
         <Link href={`/matches/${match.id}`} className="text-right">
           <span className={`text-lg font-bold ${resultColor}`}>{resultLabel}</span>
-          {dsScore !== null && oppScore !== null && (
+          {ourScore !== null && oppScore !== null && (
             <p className="text-xs text-gray-400">
-              {isHome ? `${dsScore} – ${oppScore}` : `${oppScore} – ${dsScore}`}
+              {isHome ? `${ourScore} – ${oppScore}` : `${oppScore} – ${ourScore}`}
             </p>
           )}
         </Link>
@@ -293,8 +293,10 @@ function MatchResult({ match, teamNames }: { match: RecentMatch; teamNames: Reco
 // ============================================================
 
 export default async function DashboardPage() {
+  await requireRole()
+  const team: TrackedTeam = await getActiveTeam()
   const { players, upcomingMatches, recentMatches, teamNames, lastSyncAt, streak, streakType, playerForm } =
-    await getDashboardData()
+    await getDashboardData(team.id)
 
   const streakColor = streakType === 'W' ? 'text-emerald-400' : streakType === 'L' ? 'text-red-400' : 'text-yellow-400'
 
@@ -304,7 +306,7 @@ export default async function DashboardPage() {
       <div className="mb-8 flex flex-col gap-1 sm:flex-row sm:items-start sm:justify-between">
         <div>
           <h1 className="text-2xl font-bold tracking-tight text-white">
-            Deadly Sins
+            {team.name}
             <span className="ml-2 text-base font-normal text-gray-500">Dashboard</span>
           </h1>
           <div className="mt-1 flex flex-wrap items-center gap-3 text-sm">
@@ -353,23 +355,37 @@ export default async function DashboardPage() {
                   <div key={m.id} className="rounded-lg border border-gray-800 bg-gray-900 p-4">
                     <div className="flex items-center justify-between mb-1">
                       <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">
-                        {m.deadly_sins_side === 'home' ? 'Home' : 'Away'}
+                        {m.tracked_side === 'home' ? 'Home' : 'Away'}
                       </span>
                       {m.competition_name && <span className="text-xs text-gray-600">{m.competition_name}</span>}
                     </div>
                     <p className="text-sm font-semibold text-white">
-                      {m.deadly_sins_side === 'home'
-                        ? `Deadly Sins vs ${m.away_team_name}`
-                        : `${m.home_team_name} vs Deadly Sins`}
+                      {m.tracked_side === 'home'
+                        ? `${team.name} vs ${m.away_team_name}`
+                        : `${m.home_team_name} vs ${team.name}`}
                     </p>
                     <div className="mt-1 flex items-center justify-between">
                       <p className="text-xs text-gray-400">{formatDate(m.scheduled_time)}</p>
-                      <Link
-                        href={`/scouting/${m.deadly_sins_side === 'home' ? m.away_team_id : m.home_team_id}`}
-                        className="text-xs text-gray-600 hover:text-gray-400 transition-colors"
-                      >
-                        Scout →
-                      </Link>
+                      <div className="flex items-center gap-3">
+                        <Link
+                          href={`/lineup/${m.id}`}
+                          className="text-xs text-gray-600 hover:text-gray-400 transition-colors"
+                        >
+                          Lineup →
+                        </Link>
+                        <Link
+                          href={`/scouting/${m.tracked_side === 'home' ? m.away_team_id : m.home_team_id}`}
+                          className="text-xs text-gray-600 hover:text-gray-400 transition-colors"
+                        >
+                          Scout →
+                        </Link>
+                        <Link
+                          href={`/scouting/${m.tracked_side === 'home' ? m.away_team_id : m.home_team_id}/briefing?match=${m.id}`}
+                          className="text-xs text-gray-600 hover:text-gray-400 transition-colors"
+                        >
+                          Briefing →
+                        </Link>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -384,7 +400,7 @@ export default async function DashboardPage() {
             ) : (
               <div className="space-y-2">
                 {recentMatches.map((m) => (
-                  <MatchResult key={m.id} match={m} teamNames={teamNames} />
+                  <MatchResult key={m.id} match={m} teamId={team.id} teamNames={teamNames} />
                 ))}
               </div>
             )}
@@ -0,0 +1,214 @@
+/**
+ * Injuries — active team's injury register and availability board
+ *
+ * Lists every stored injury (injury_events) with how many matches it
+ * cost, and flags which players are probably unavailable for the next
+ * match in upcoming_tracked_matches. Availability is inferred from
+ * later appearances; see src/lib/analytics/availability.ts.
+ */
+
+import Link from 'next/link'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { getInjuryRegister } from '@/lib/supabase/injuries'
+import { requireRole } from '@/lib/auth'
+import { getActiveTeam } from '@/lib/teams'
+import {
+  squadAvailability,
+  type AvailabilityStatus,
+  type InjuryRecord,
+  type PlayerAvailability,
+} from '@/lib/analytics/availability'
+
+export const dynamic = 'force-dynamic'
+
+async function getData(teamId: string) {
+  const db = await createUserClient()
+
+  const [{ register, expected }, rosterResult, nextMatchResult] = await Promise.all([
+    getInjuryRegister(db, teamId),
+    db
+      .from('player_career_stats')
+      .select('player_id, player_name')
+      .eq('team_id', teamId),
+    db
+      .from('upcoming_tracked_matches')
+      .select('id, scheduled_time, home_team_name, away_team_name, tracked_side')
+      .eq('tracked_team_id', teamId)
+      .order('scheduled_time', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+  ])
+
+  const roster = (rosterResult.data ?? []).map(p => ({ playerId: p.player_id as string, playerName: p.player_name as string }))
+
+  return {
+    register,
+    expected,
+    availability: squadAvailability(roster, register, expected),
+    nextMatch: nextMatchResult.data,
+  }
+}
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+const STATUS_STYLES: Record<AvailabilityStatus, { label: string; className: string }> = {
+  unavailable: { label: 'Unavailable', className: 'text-red-400' },
+  doubtful:    { label: 'Doubtful',    className: 'text-yellow-400' },
+  available:   { label: 'Available',   className: 'text-emerald-400' },
+}
+
+const SEVERITY_STYLES = {
+  MINOR:   'text-yellow-400',
+  SERIOUS: 'text-red-400',
+} as const
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? '' : 'es'}`
+}
+
+function AvailabilityBoard({ players }: { players: PlayerAvailability[] }) {
+  const flagged = players.filter(p => p.status !== 'available')
+
+  if (players.length === 0) {
+    return <p className="text-sm text-gray-600 italic">No player data yet — run a sync with replays first.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {flagged.length === 0 ? (
+        <p className="text-sm text-gray-500">Everyone is available — no open injuries.</p>
+      ) : (
+        <div className="rounded-lg border border-gray-800 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-800 bg-gray-900">
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Player</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Injured</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Missed</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Expected</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {flagged.map(p => (
+                <tr key={p.playerId} className="bg-gray-950">
+                  <td className="px-3 py-2">
+                    <Link href={`/players/${p.playerId}`} className="text-gray-200 hover:text-white transition-colors">
+                      {p.playerName}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-400">
+                    {p.injury && (
+                      <>
+                        <span className={SEVERITY_STYLES[p.injury.severity]}>{p.injury.severity.toLowerCase()}</span>
+                        {' · '}
+                        <Link href={`/matches/${p.injury.matchId}`} className="hover:text-white transition-colors">
+                          {formatDate(p.injury.scheduledTime)}
+                        </Link>
+                      </>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-300">{p.injury?.matchesMissed ?? '—'}</td>
+                  <td className="px-3 py-2 text-right text-gray-400">{p.expectedMatchesMissed ?? '—'}</td>
+                  <td className={`px-3 py-2 text-right text-xs font-medium ${STATUS_STYLES[p.status].className}`}>
+                    {STATUS_STYLES[p.status].label}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-xs text-gray-600">
+        {players.length - flagged.length} of {players.length} players available.
+      </p>
+    </div>
+  )
+}
+
+function InjuryRegisterTable({ register }: { register: InjuryRecord[] }) {
+  if (register.length === 0) {
+    return <p className="text-sm text-gray-600 italic">No injuries recorded.</p>
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-800 overflow-hidden">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-800 bg-gray-900">
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Match</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Player</th>
+            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Turn</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Severity</th>
+            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Outcome</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-800">
+          {register.map(r => (
+            <tr key={`${r.matchId}:${r.playerId}`} className="bg-gray-950">
+              <td className="px-3 py-2">
+                <Link href={`/matches/${r.matchId}`} className="text-gray-400 hover:text-white transition-colors">
+                  {formatDate(r.scheduledTime)}
+                </Link>
+              </td>
+              <td className="px-3 py-2">
+                <Link href={`/players/${r.playerId}`} className="text-gray-200 hover:text-white transition-colors">
+                  {r.playerName}
+                </Link>
+              </td>
+              <td className="px-3 py-2 text-right text-gray-400">{r.turn ?? '—'}</td>
+              <td className={`px-3 py-2 text-xs font-medium ${SEVERITY_STYLES[r.severity]}`}>{r.severity.toLowerCase()}</td>
+              <td className="px-3 py-2 text-xs text-gray-400">
+                {r.returned
+                  ? r.matchesMissed === 0 ? 'Played the next match' : `Back after ${plural(r.matchesMissed, 'match')}`
+                  : `Not back yet · ${plural(r.matchesMissed, 'match')} missed`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default async function InjuriesPage() {
+  await requireRole()
+  const team = await getActiveTeam()
+  const { register, expected, availability, nextMatch } = await getData(team.id)
+
+  const opponent = nextMatch
+    ? nextMatch.tracked_side === 'home' ? nextMatch.away_team_name : nextMatch.home_team_name
+    : null
+
+  return (
+    <div className="mx-auto max-w-5xl px-4 py-8 space-y-10">
+      <div>
+        <h1 className="text-2xl font-bold text-white">Injuries</h1>
+        <p className="mt-1 text-sm text-gray-500">{team.name} · {register.length} injuries recorded</p>
+      </div>
+
+      <section>
+        <h2 className="mb-1 text-sm font-semibold uppercase tracking-widest text-gray-500">Availability</h2>
+        <p className="mb-4 text-xs text-gray-600">
+          {nextMatch
+            ? <>For the next match vs {opponent}, {formatDate(nextMatch.scheduled_time)} ·{' '}
+                <Link href={`/lineup/${nextMatch.id}`} className="text-gray-400 hover:text-white transition-colors">Plan lineup →</Link></>
+            : 'No upcoming match scheduled — showing availability as of the latest replay.'}
+        </p>
+        <AvailabilityBoard players={availability} />
+        <p className="mt-1.5 text-xs text-gray-600 leading-snug">
+          Injuries end when the player next appears in a replay. Expected absence is the median number
+          of matches missed after past injuries of the same severity (minor {expected.MINOR}, serious {expected.SERIOUS}).
+          Unavailable = missed fewer than expected; doubtful = past the expected absence but not seen since.
+        </p>
+      </section>
+
+      <section>
+        <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Injury Register</h2>
+        <InjuryRegisterTable register={register} />
+      </section>
+    </div>
+  )
+}
@@ -1,10 +1,14 @@
 import type { Metadata } from 'next'
 import './globals.css'
 import { Nav } from './components/Nav'
+import { getActiveTeam } from '@/lib/teams'
 
-export const metadata: Metadata = {
-  title: 'Deadly Sins — Coaching Dashboard',
-  description: 'Pre-match energy status and lineup recommendations',
+export async function generateMetadata(): Promise<Metadata> {
+  const team = await getActiveTeam()
+  return {
+    title: `${team.name} — Coaching Dashboard`,
+    description: 'Pre-match energy status and lineup recommendations',
+  }
 }
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
@@ -1,14 +1,14 @@
 /**
- * Leaderboard — DS player rankings across key stats
+ * Leaderboard — active team's player rankings across key stats
  */
 
 import Link from 'next/link'
-import { createServerClient } from '@/lib/supabase/client'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
+import { getActiveTeam } from '@/lib/teams'
 
 export const dynamic = 'force-dynamic'
 
-const DS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
-
 interface CareerRow {
   player_id: string
   player_name: string
@@ -25,13 +25,13 @@ interface CareerRow {
   avg_tackles_per_match: number | null
 }
 
-async function getData() {
-  const db = createServerClient()
+async function getData(teamId: string) {
+  const db = await createUserClient()
 
   const { data } = await db
     .from('player_career_stats')
     .select('player_id, player_name, matches_played, total_goals, total_shots, total_tackles, total_passes, total_blocks, total_fouls, career_shot_conversion, career_foul_rate, avg_goals_per_match, avg_tackles_per_match')
-    .eq('team_id', DS_TEAM_ID)
+    .eq('team_id', teamId)
 
   // Per-player avg final energy across all matches
   const players = data ?? []
@@ -112,7 +112,9 @@ function Table({
 }
 
 export default async function LeaderboardPage() {
-  const { players, avgMinEnergy } = await getData()
+  await requireRole()
+  const team = await getActiveTeam()
+  const { players, avgMinEnergy } = await getData(team.id)
 
   const sorted = {
     goals: [...players].sort((a, b) => (b.total_goals ?? 0) - (a.total_goals ?? 0)).slice(0, 10),
@@ -137,7 +139,7 @@ export default async function LeaderboardPage() {
     <div className="mx-auto max-w-7xl px-4 py-8">
       <div className="mb-8">
         <h1 className="text-2xl font-bold tracking-tight text-white">Leaderboard</h1>
-        <p className="mt-1 text-sm text-gray-500">Career stats across all {players.length} DS players</p>
+        <p className="mt-1 text-sm text-gray-500">Career stats across all {players.length} {team.shortName} players</p>
       </div>
 
       <div className="grid grid-cols-1 gap-8 sm:grid-cols-2 xl:grid-cols-3">
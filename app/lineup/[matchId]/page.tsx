@@ -0,0 +1,236 @@
+/**
+ * Lineup Planner — one upcoming tracked-team match
+ *
+ * Ranks the team's players by per-match output (player_career_stats)
+ * discounted by start risk predicted from recent energy_snapshots and
+ * between-match recovery, and lets coaches drag them into a starting
+ * lineup and bench. See src/lib/analytics/lineup.ts and recovery.ts.
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
+import { getActiveTeam } from '@/lib/teams'
+import {
+  rankLineupCandidates,
+  suggestLineup,
+  STARTING_LINEUP_SIZE,
+  ENERGY_HISTORY_MATCHES,
+  type CareerStatsRow,
+  type PlayerEnergyHistory,
+} from '@/lib/analytics/lineup'
+import { LineupBuilder } from '@app/components/LineupBuilder'
+
+export const dynamic = 'force-dynamic'
+
+// Team matches scanned for energy history — enough that most players
+// have ENERGY_HISTORY_MATCHES of their own even with rotation
+const HISTORY_SCAN_MATCHES = ENERGY_HISTORY_MATCHES * 2
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric',
+    hour: '2-digit', minute: '2-digit', timeZoneName: 'short',
+  })
+}
+
+const RISK_STYLES = {
+  low:     'text-emerald-400',
+  medium:  'text-yellow-400',
+  high:    'text-red-400',
+  unknown: 'text-gray-500',
+} as const
+
+async function getLineupData(matchId: string, activeTeamId: string) {
+  const db = await createUserClient()
+
+  const { data: fixtureRows } = await db
+    .from('upcoming_tracked_matches')
+    .select('id, scheduled_time, home_team_name, away_team_name, home_team_id, away_team_id, competition_name, tracked_team_id, tracked_side')
+    .eq('id', matchId)
+
+  const fixture = (fixtureRows ?? []).find(r => r.tracked_team_id === activeTeamId) ?? fixtureRows?.[0]
+  if (!fixture) return null
+  const teamId = fixture.tracked_team_id as string
+
+  const [rosterResult, recentResult, lineupResult] = await Promise.all([
+    db
+      .from('player_career_stats')
+      .select('player_id, player_name, team_id, matches_played, avg_goals_per_match, avg_tackles_per_match, avg_passes_per_match')
+      .eq('team_id', teamId),
+    db
+      .from('matches')
+      .select('id, scheduled_time')
+      .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+      .eq('status', 'COMPLETED')
+      .eq('replay_fetched', true)
+      .order('scheduled_time', { ascending: false })
+      .limit(HISTORY_SCAN_MATCHES),
+    db
+      .from('lineups')
+      .select('starters, bench, updated_at')
+      .eq('match_id', matchId)
+      .eq('team_id', teamId)
+      .maybeSingle(),
+  ])
+
+  const roster = (rosterResult.data ?? []) as CareerStatsRow[]
+  const recent = recentResult.data ?? []
+  const playerIds = roster.map(p => p.player_id)
+  const recentIds = recent.map(m => m.id)
+
+  const [startsResult, thresholdsResult] = recentIds.length > 0 && playerIds.length > 0
+    ? await Promise.all([
+        db
+          .from('energy_snapshots')
+          .select('match_id, player_id, energy')
+          .eq('turn', 0)
+          .in('match_id', recentIds)
+          .in('player_id', playerIds),
+        db
+          .from('player_energy_thresholds')
+          .select('match_id, player_id, min_energy_reached')
+          .in('match_id', recentIds)
+          .in('player_id', playerIds),
+      ])
+    : [{ data: [] }, { data: [] }]
+
+  const startEnergy = new Map((startsResult.data ?? []).map(s => [`${s.match_id}:${s.player_id}`, s.energy as number]))
+  const minEnergy = new Map((thresholdsResult.data ?? []).map(t => [`${t.match_id}:${t.player_id}`, t.min_energy_reached as number | null]))
+
+  // Newest match first, only matches the player has energy data for
+  const historyByPlayer: Record<string, PlayerEnergyHistory[]> = {}
+  for (const m of recent) {
+    for (const pid of playerIds) {
+      const key = `${m.id}:${pid}`
+      if (!startEnergy.has(key) && !minEnergy.has(key)) continue
+      ;(historyByPlayer[pid] ??= []).push({
+        matchId: m.id,
+        scheduledTime: m.scheduled_time,
+        startEnergy: startEnergy.get(key) ?? null,
+        minEnergy: minEnergy.get(key) ?? null,
+      })
+    }
+  }
+
+  return {
+    fixture,
+    teamId,
+    candidates: rankLineupCandidates(roster, historyByPlayer, fixture.scheduled_time),
+    saved: lineupResult.data as { starters: string[]; bench: string[]; updated_at: string } | null,
+  }
+}
+
+export default async function LineupPage({ params }: { params: Promise<{ matchId: string }> }) {
+  const user = await requireRole()
+  const { matchId } = await params
+  const active = await getActiveTeam()
+
+  const data = await getLineupData(matchId, active.id)
+  if (!data) notFound()
+  const { fixture, teamId, candidates, saved } = data
+
+  const isHome = fixture.tracked_side === 'home'
+  const ourName = isHome ? fixture.home_team_name : fixture.away_team_name
+  const oppName = isHome ? fixture.away_team_name : fixture.home_team_name
+  const oppId = isHome ? fixture.away_team_id : fixture.home_team_id
+
+  // Saved lineup, minus anyone no longer on the roster; new players go to the bench
+  const rosterIds = new Set(candidates.map(c => c.playerId))
+  const suggested = suggestLineup(candidates)
+  const starters = saved ? saved.starters.filter(id => rosterIds.has(id)) : suggested.starters
+  const placed = new Set([...starters, ...(saved?.bench ?? [])])
+  const bench = saved
+    ? [...saved.bench.filter(id => rosterIds.has(id)), ...candidates.map(c => c.playerId).filter(id => !placed.has(id))]
+    : suggested.bench
+
+  const canEdit = user.role === 'admin' || user.role === 'coach'
+
+  return (
+    <div className="mx-auto max-w-5xl px-4 py-8">
+      <div className="mb-8">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+          Lineup · {isHome ? 'Home' : 'Away'}{fixture.competition_name && ` · ${fixture.competition_name}`}
+        </p>
+        <h1 className="mt-1 text-2xl font-bold text-white">{ourName} vs {oppName}</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          {formatDate(fixture.scheduled_time)} ·{' '}
+          <Link href={`/scouting/${oppId}`} className="text-gray-400 hover:text-white transition-colors">Scout {oppName} →</Link>
+        </p>
+        {saved && (
+          <p className="mt-1 text-xs text-gray-600">Last saved {new Date(saved.updated_at).toLocaleString('en-US')}</p>
+        )}
+      </div>
+
+      {candidates.length === 0 ? (
+        <div className="rounded-lg border border-gray-800 bg-gray-900 px-6 py-10 text-center">
+          <p className="text-sm text-gray-500">No player data for {ourName} yet — run a sync with replays first.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
+          <div className="lg:col-span-2">
+            <LineupBuilder
+              key={saved?.updated_at ?? 'suggested'}
+              matchId={matchId}
+              teamId={teamId}
+              players={candidates.map(c => ({
+                id: c.playerId,
+                name: c.playerName,
+                estimatedEnergy: c.estimatedCurrentEnergy,
+                predictedMinEnergy: c.predictedMinEnergy,
+                startRisk: c.startRisk,
+                rankScore: c.rankScore,
+              }))}
+              initialStarters={starters}
+              initialBench={bench}
+              maxStarters={STARTING_LINEUP_SIZE}
+              saved={saved !== null}
+              canEdit={canEdit}
+            />
+            {!canEdit && (
+              <p className="mt-3 text-xs text-gray-600">Only coaches can change the lineup.</p>
+            )}
+          </div>
+
+          {/* Rankings */}
+          <section>
+            <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Rankings</h2>
+            <div className="rounded-lg border border-gray-800 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-800 bg-gray-900">
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Player</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Output</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide" title="Energy recovered per hour between matches">Rec/h</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Risk</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {candidates.map(c => (
+                    <tr key={c.playerId} className="bg-gray-950">
+                      <td className="px-3 py-2">
+                        <Link href={`/players/${c.playerId}`} className="text-gray-200 hover:text-white transition-colors">
+                          {c.playerName}
+                        </Link>
+                        <p className="text-xs text-gray-600">{c.matchesPlayed} matches</p>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-300">{c.outputScore.toFixed(2)}</td>
+                      <td className="px-3 py-2 text-right text-xs text-gray-400">{c.recoveryPerHour?.toFixed(1) ?? '—'}</td>
+                      <td className={`px-3 py-2 text-right text-xs font-medium ${RISK_STYLES[c.startRisk]}`}>{c.startRisk}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-1.5 text-xs text-gray-600 leading-snug">
+              Output = 3×goals + tackles + ¼×passes per match. Start energy is projected from each
+              player&apos;s last low point and recovery rate to kick-off. Risk is where predicted energy
+              bottoms out: high below 10 (severe penalty), medium below 20 (auto-sub).
+            </p>
+          </section>
+        </div>
+      )}
+    </div>
+  )
+}
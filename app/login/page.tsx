@@ -0,0 +1,85 @@
+/**
+ * Login — Supabase Auth email + password
+ *
+ * Accounts are created in the Supabase dashboard and given a role in
+ * user_roles; there is no self sign-up. Signed-in users without a role
+ * (or without the role a page needs) land here with error=forbidden.
+ */
+
+import { redirect } from 'next/navigation'
+import { signIn, signOut } from '@/actions/auth'
+import { getCurrentUser } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+const ERRORS: Record<string, string> = {
+  missing:   'Enter your email and password.',
+  invalid:   'Email or password is incorrect.',
+  forbidden: 'Your account doesn’t have access to that page. Ask an admin to grant you a role.',
+}
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string }>
+}) {
+  const { error } = await searchParams
+  const user = await getCurrentUser()
+
+  // Already signed in with a role and nothing to explain — nothing to do here
+  if (user?.role && !error) redirect('/dashboard')
+
+  const message = error ? ERRORS[error] : user && !user.role ? ERRORS.forbidden : undefined
+
+  return (
+    <div className="mx-auto max-w-sm px-4 py-16">
+      <h1 className="text-2xl font-bold text-white mb-6">Sign in</h1>
+
+      {message && (
+        <p className="mb-4 rounded border border-red-900 bg-red-950/40 px-3 py-2 text-sm text-red-300">
+          {message}
+        </p>
+      )}
+
+      {user ? (
+        <form action={signOut} className="space-y-4">
+          <p className="text-sm text-gray-400">
+            Signed in as <span className="text-gray-200">{user.email}</span>
+            {user.role && <span className="text-gray-500"> ({user.role})</span>}
+          </p>
+          <button
+            type="submit"
+            className="w-full rounded bg-gray-800 px-4 py-2 text-sm font-medium text-gray-200 hover:bg-gray-700 transition-colors"
+          >
+            Sign out
+          </button>
+        </form>
+      ) : (
+        <form action={signIn} className="space-y-4">
+          <input
+            name="email"
+            type="email"
+            autoComplete="email"
+            required
+            placeholder="Email"
+            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-4 py-3 text-gray-200 placeholder-gray-600 focus:border-gray-500 focus:outline-none text-sm"
+          />
+          <input
+            name="password"
+            type="password"
+            autoComplete="current-password"
+            required
+            placeholder="Password"
+            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-4 py-3 text-gray-200 placeholder-gray-600 focus:border-gray-500 focus:outline-none text-sm"
+          />
+          <button
+            type="submit"
+            className="w-full rounded bg-gray-100 px-4 py-2 text-sm font-medium text-gray-900 hover:bg-white transition-colors"
+          >
+            Sign in
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
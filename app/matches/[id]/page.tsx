@@ -1,18 +1,55 @@
 /**
  * Match Review Page
  *
- * Match result, goal timeline, key events feed, DS energy progression
- * chart, energy summary table, and full player stats for both teams.
+ * Match result, goal timeline, key events feed, turn-by-turn replay
+ * viewer, win probability with swing events, our energy progression
+ * chart, energy summary table,
+ * substitution timing review, shots with expected goals, our passing
+ * network, full player stats for both teams, and a filterable event log
+ * whose filters live in the URL.
  */
 
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
-import { createServerClient } from '@/lib/supabase/client'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
+import { getActiveTeam, getTrackedSideOf } from '@/lib/teams'
+import {
+  drainPerTurn,
+  planSubstitution,
+  reviewSubstitution,
+  substitutionsByPlayer,
+  DRAIN_HISTORY_MATCHES,
+  SUB_LEAD_TURNS,
+  type SubstitutionReview,
+  type SubstitutionVerdict,
+} from '@/lib/analytics/substitution'
+import { shotXg } from '@/lib/analytics/xg'
+import { loadXgModel, listMatchShots } from '@/lib/supabase/xg'
+import { buildPassingNetwork, type PassingNetwork } from '@/lib/analytics/passing'
+import { listMatchPasses } from '@/lib/supabase/passes'
+import { listReplayEvents, listReplayEnergy } from '@/lib/supabase/match-replay'
+import { ReplayViewer } from '@app/components/ReplayViewer'
+import {
+  swingEvents,
+  winProbabilityCurve,
+  type SwingEvent,
+  type SwingKind,
+  type WinProbabilityPoint,
+} from '@/lib/analytics/win-probability'
+import { loadWinProbabilityModel, listMatchTurnStates } from '@/lib/supabase/win-probability'
+import {
+  eventDetails,
+  filterEventLog,
+  parseEventLogFilters,
+  EVENT_LOG_LIMIT,
+  EVENT_LOG_TYPES,
+  type EventLogEntry,
+  type EventLogFilters,
+} from '@/lib/analytics/event-log'
 
 export const dynamic = 'force-dynamic'
 
-const DS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
-
 // ============================================================
 // Types
 // ============================================================
@@ -61,6 +98,17 @@ interface PlayerEnergySummary {
   turns: EnergyPoint[]
 }
 
+interface MatchShot {
+  seq: number
+  turn: number
+  shooter_id: string | null
+  distance_to_goal: number | null
+  pressure: number | null
+  outcome: string | null
+  is_goal: boolean
+  xg: number
+}
+
 interface MatchEvent {
   id: string
   turn: number
@@ -77,7 +125,7 @@ interface MatchEvent {
 // ============================================================
 
 async function getMatchData(matchId: string) {
-  const db = createServerClient()
+  const db = await createUserClient()
 
   const { data: matchData } = await db
     .from('matches')
@@ -87,6 +135,9 @@ async function getMatchData(matchId: string) {
 
   if (!matchData) return null
 
+  // Whose side to show: the active team if it played, else the tracked team that did
+  const us = (await getTrackedSideOf(matchData)) ?? (await getActiveTeam())
+
   // Team names + competition in parallel
   const [teamsResult, compResult] = await Promise.all([
     db.from('teams').select('id, name').in('id', [matchData.home_team_id, matchData.away_team_id]),
@@ -114,11 +165,12 @@ async function getMatchData(matchId: string) {
   }
 
   if (!matchData.replay_fetched) {
-    return { match, allPlayerStats: [], dsStats: [], energySummaries: [], hasReplay: false, events: [] }
+    return { match, us, allPlayerStats: [], ourStats: [], energySummaries: [], subReviews: [], shots: [], passingNetwork: null, hasReplay: false, events: [], replayEvents: [], replayEnergy: {}, winProbability: null }
   }
 
-  // Parallel fetch: player stats + events
-  const [allStatsResult, eventsResult] = await Promise.all([
+  // Parallel fetch: player stats + events + shots and the xG model + the full replay
+  // + turn states and the win-probability model
+  const [allStatsResult, eventsResult, shotRows, xgModel, passRows, replayEvents, replayEnergy, turnStates, winModel] = await Promise.all([
     db
       .from('player_match_stats')
       .select('player_id, player_name, team_id, is_home_team, goals, shots, tackles, passes, blocks, fouls, was_injured')
@@ -127,36 +179,68 @@ async function getMatchData(matchId: string) {
       .from('match_events')
       .select('id, turn, type, description, players_involved, home_score, away_score, context')
       .eq('match_id', matchId)
-      .in('type', ['GOAL', 'INJURY', 'MATCH_END'])
-      .order('turn', { ascending: true }),
+      .in('type', ['GOAL', 'INJURY', 'FOUL', 'SUBSTITUTION', 'MATCH_END'])
+      .order('seq', { ascending: true }),
+    listMatchShots(db, matchId),
+    loadXgModel(db),
+    listMatchPasses(db, matchId),
+    listReplayEvents(db, matchId),
+    listReplayEnergy(db, matchId),
+    listMatchTurnStates(db, matchId),
+    loadWinProbabilityModel(db),
   ])
 
   const allPlayerStats: PlayerMatchStat[] = allStatsResult.data ?? []
-  const dsStats = allPlayerStats.filter((s) => s.team_id === DS_TEAM_ID)
+  const ourStats = allPlayerStats.filter((s) => s.team_id === us.id)
   const events: MatchEvent[] = eventsResult.data ?? []
-
-  // Energy data for DS players
-  const dsPlayerIds = dsStats.map((s) => s.player_id)
-
-  const [snapshotsResult, thresholdsResult] = await Promise.all([
-    dsPlayerIds.length > 0
-      ? db
-          .from('energy_snapshots')
-          .select('player_id, turn, energy')
-          .eq('match_id', matchId)
-          .in('player_id', dsPlayerIds)
-          .order('player_id')
-          .order('turn', { ascending: true })
-      : Promise.resolve({ data: [] }),
-    dsPlayerIds.length > 0
+  const shots: MatchShot[] = shotRows.map((shot) => ({
+    seq: shot.seq,
+    turn: shot.turn,
+    shooter_id: shot.shooter_id,
+    distance_to_goal: shot.distance_to_goal,
+    pressure: shot.pressure,
+    outcome: shot.outcome,
+    is_goal: shot.is_goal,
+    xg: shotXg(xgModel, shot),
+  }))
+
+  // Energy data for our players
+  const ourPlayerIds = ourStats.map((s) => s.player_id)
+  const passingNetwork: PassingNetwork = buildPassingNetwork(passRows, new Set(ourPlayerIds))
+
+  const [thresholdsResult, priorResult] = await Promise.all([
+    ourPlayerIds.length > 0
       ? db
           .from('player_energy_thresholds')
           .select('player_id, min_energy_reached, first_turn_below_30, first_turn_below_20, first_turn_below_10')
           .eq('match_id', matchId)
-          .in('player_id', dsPlayerIds)
+          .in('player_id', ourPlayerIds)
       : Promise.resolve({ data: [] }),
+    // Our replayed matches before this one, for each player's drain rate
+    db
+      .from('matches')
+      .select('id')
+      .or(`home_team_id.eq.${us.id},away_team_id.eq.${us.id}`)
+      .eq('status', 'COMPLETED')
+      .eq('replay_fetched', true)
+      .lt('scheduled_time', match.scheduled_time)
+      .order('scheduled_time', { ascending: false })
+      .limit(DRAIN_HISTORY_MATCHES),
   ])
 
+  // One query per prior match keeps each under the API row limit
+  const priorIds = (priorResult.data ?? []).map((m) => m.id as string)
+  const priorSnapshots = ourPlayerIds.length > 0
+    ? await Promise.all(priorIds.map((priorId) =>
+        db
+          .from('energy_snapshots')
+          .select('player_id, turn, energy')
+          .eq('match_id', priorId)
+          .in('player_id', ourPlayerIds)
+          .order('turn', { ascending: true })
+      ))
+    : []
+
   type ThresholdRow = {
     player_id: string
     min_energy_reached: number | null
@@ -168,13 +252,12 @@ async function getMatchData(matchId: string) {
     (thresholdsResult.data ?? []).map((t) => [t.player_id, t])
   )
 
-  const snapsByPlayer: Record<string, EnergyPoint[]> = {}
-  for (const snap of snapshotsResult.data ?? []) {
-    if (!snapsByPlayer[snap.player_id]) snapsByPlayer[snap.player_id] = []
-    snapsByPlayer[snap.player_id].push({ turn: snap.turn, energy: snap.energy })
-  }
+  // Our players' curves, out of the replay's energy for everyone
+  const snapsByPlayer: Record<string, EnergyPoint[]> = Object.fromEntries(
+    ourPlayerIds.filter((pid) => replayEnergy[pid]).map((pid) => [pid, replayEnergy[pid]])
+  )
 
-  const energySummaries: PlayerEnergySummary[] = dsStats.map((s) => {
+  const energySummaries: PlayerEnergySummary[] = ourStats.map((s) => {
     const turns = snapsByPlayer[s.player_id] ?? []
     const finalEntry = turns.length > 0 ? turns[turns.length - 1] : null
     const thresh = thresholdMap[s.player_id]
@@ -195,7 +278,35 @@ async function getMatchData(matchId: string) {
     return b.final_energy - a.final_energy
   })
 
-  return { match, allPlayerStats, dsStats, energySummaries, hasReplay: true, events }
+  // Substitution timing: plan from this match's start energy and the
+  // player's prior drain rate, then compare with the actual SUBSTITUTION events
+  const curvesByPlayer: Record<string, EnergyPoint[][]> = {}
+  for (const result of priorSnapshots) {
+    const byPlayer: Record<string, EnergyPoint[]> = {}
+    for (const snap of result.data ?? []) {
+      ;(byPlayer[snap.player_id] ??= []).push({ turn: snap.turn, energy: snap.energy })
+    }
+    for (const [pid, curve] of Object.entries(byPlayer)) (curvesByPlayer[pid] ??= []).push(curve)
+  }
+
+  const matchEnd = events.find((e) => e.type === 'MATCH_END')
+  const matchTurns = matchEnd?.turn ?? Math.max(0, ...Object.values(snapsByPlayer).flat().map((p) => p.turn))
+  const actualSubs = substitutionsByPlayer(events)
+
+  const subReviews: Array<SubstitutionReview & { player_name: string }> = energySummaries
+    .filter((s) => s.turns.length > 0)
+    .map((s) => {
+      const start = s.turns.find((t) => t.turn === 0)?.energy ?? null
+      const plan = planSubstitution(s.player_id, start, drainPerTurn(curvesByPlayer[s.player_id] ?? []), matchTurns)
+      return { ...reviewSubstitution(plan, s.turns, actualSubs[s.player_id] ?? null), player_name: s.player_name }
+    })
+
+  const winCurve = winProbabilityCurve(winModel, turnStates)
+  const winProbability = winCurve.length > 0
+    ? { curve: winCurve, swings: swingEvents(winCurve, events), fitted: winModel.logistic !== null }
+    : null
+
+  return { match, us, allPlayerStats, ourStats, energySummaries, subReviews, shots, passingNetwork, hasReplay: true, events, replayEvents, replayEnergy, winProbability }
 }
 
 // ============================================================
@@ -218,6 +329,17 @@ function getEnergyTextColor(energy: number | null): string {
   return 'text-red-400'
 }
 
+const VERDICT_STYLES: Record<SubstitutionVerdict, { label: string; className: string }> = {
+  on_plan:    { label: 'On plan',     className: 'text-emerald-400' },
+  not_needed: { label: 'Not needed',  className: 'text-gray-500' },
+  early:      { label: 'Early',       className: 'text-yellow-400' },
+  late:       { label: 'Late',        className: 'text-orange-400' },
+  unplanned:  { label: 'Unplanned',   className: 'text-yellow-400' },
+  auto_sub:   { label: 'Auto-sub',    className: 'text-orange-400' },
+  missed:     { label: 'Played on',   className: 'text-red-400' },
+  injury:     { label: 'Injury',      className: 'text-gray-400' },
+}
+
 function formatDate(dateStr: string): string {
   return new Date(dateStr).toLocaleDateString('en-US', {
     month: 'short', day: 'numeric', year: 'numeric',
@@ -286,6 +408,124 @@ function EnergyLineChart({ summaries }: { summaries: PlayerEnergySummary[] }) {
   )
 }
 
+// ============================================================
+// Win Probability Chart
+// ============================================================
+
+const SWING_STYLES: Record<SwingKind, { label: string; symbol: string; color: string }> = {
+  goal:           { label: 'Goal',           symbol: '●', color: '#34d399' },
+  serious_injury: { label: 'Serious injury', symbol: '✚', color: '#f87171' },
+  heavy_foul:     { label: 'Heavy foul',     symbol: '▲', color: '#fbbf24' },
+}
+
+function WinProbabilityChart({
+  curve,
+  swings,
+  fitted,
+  allPlayerStats,
+  homeTeamId,
+  homeTeamName,
+  awayTeamName,
+}: {
+  curve: WinProbabilityPoint[]
+  swings: SwingEvent[]
+  fitted: boolean
+  allPlayerStats: PlayerMatchStat[]
+  homeTeamId: string
+  homeTeamName: string
+  awayTeamName: string
+}) {
+  const maxTurn = Math.max(1, ...curve.map((p) => p.turn))
+  const W = 600
+  const H = 180
+  const PAD = { top: 16, right: 8, bottom: 20, left: 32 }
+  const chartW = W - PAD.left - PAD.right
+  const chartH = H - PAD.top - PAD.bottom
+
+  const x = (turn: number) => PAD.left + (turn / maxTurn) * chartW
+  const y = (p: number) => PAD.top + (1 - p) * chartH
+
+  const players = new Map(allPlayerStats.map((s) => [s.player_id, s]))
+  const who = (playerId: string | null) => {
+    const player = playerId ? players.get(playerId) : undefined
+    if (!player) return null
+    return `${player.player_name} (${player.team_id === homeTeamId ? homeTeamName : awayTeamName})`
+  }
+  const pct = (p: number) => `${Math.round(p * 100)}%`
+  const signedPct = (d: number) => `${d >= 0 ? '+' : '−'}${Math.abs(Math.round(d * 100))}%`
+
+  const points = curve.map((p) => `${x(p.turn).toFixed(1)},${y(p.homeWin).toFixed(1)}`).join(' ')
+  const biggest = swings
+    .filter((s) => s.delta !== null)
+    .sort((a, b) => Math.abs(b.delta!) - Math.abs(a.delta!))
+    .slice(0, 5)
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <svg viewBox={`0 0 ${W} ${H}`} className="w-full" style={{ minWidth: 320, maxWidth: 700 }}>
+          {[0, 0.5, 1].map((val) => (
+            <g key={val}>
+              <text x={PAD.left - 4} y={y(val) + 4} textAnchor="end" fontSize={9} fill="#6b7280">{pct(val)}</text>
+              <line x1={PAD.left} y1={y(val)} x2={W - PAD.right} y2={y(val)} stroke="#1f2937" strokeWidth={0.5}
+                strokeDasharray={val === 0.5 ? '4 2' : undefined} />
+            </g>
+          ))}
+          {swings.map((s, i) => {
+            const style = SWING_STYLES[s.kind]
+            return (
+              <g key={i}>
+                <line x1={x(s.turn)} y1={PAD.top} x2={x(s.turn)} y2={H - PAD.bottom} stroke={style.color} strokeWidth={0.75} opacity={0.35} />
+                <text x={x(s.turn)} y={PAD.top - 4} textAnchor="middle" fontSize={9} fill={style.color}>
+                  {style.symbol}
+                  <title>
+                    {`Turn ${s.turn} · ${style.label}${who(s.playerId) ? ` · ${who(s.playerId)}` : ''}` +
+                      (s.delta !== null ? ` · ${signedPct(s.delta)} home win` : '')}
+                  </title>
+                </text>
+              </g>
+            )
+          })}
+          <polyline points={points} fill="none" stroke="#60a5fa" strokeWidth={1.75} strokeLinejoin="round" strokeLinecap="round" />
+          <text x={PAD.left + chartW / 2} y={H - 2} textAnchor="middle" fontSize={9} fill="#6b7280">Turn</text>
+        </svg>
+      </div>
+      <div className="mt-3 flex flex-wrap gap-3 text-xs text-gray-500">
+        <span>Line = {homeTeamName} win probability</span>
+        {Object.values(SWING_STYLES).map((style) => (
+          <span key={style.label} className="flex items-center gap-1">
+            <span style={{ color: style.color }}>{style.symbol}</span>{style.label}
+          </span>
+        ))}
+      </div>
+
+      {biggest.length > 0 && (
+        <div className="mt-4">
+          <p className="mb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">Biggest swings</p>
+          <ul className="space-y-1">
+            {biggest.map((s, i) => (
+              <li key={i} className="flex items-center gap-3 text-sm">
+                <span className="w-14 text-xs text-gray-500">Turn {s.turn}</span>
+                <span className="w-28 text-xs" style={{ color: SWING_STYLES[s.kind].color }}>{SWING_STYLES[s.kind].label}</span>
+                <span className="flex-1 truncate text-gray-300">{who(s.playerId) ?? s.description ?? '—'}</span>
+                <span className={`text-xs font-medium tabular-nums ${s.delta! >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {signedPct(s.delta!)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-gray-600 leading-snug">
+        {fitted
+          ? 'Estimated after every turn from the score gap, turns remaining and the gap in average energy, fitted on recent completed matches. Swings are the change in home win probability over that turn.'
+          : 'Not enough completed matches to fit the model yet — showing the overall home win rate.'}
+      </p>
+    </div>
+  )
+}
+
 // ============================================================
 // Goal Timeline
 // ============================================================
@@ -297,6 +537,7 @@ function GoalTimeline({
   homeTeamName,
   awayTeamName,
   allPlayerStats,
+  ourTeamId,
 }: {
   events: MatchEvent[]
   homeTeamId: string
@@ -304,6 +545,7 @@ function GoalTimeline({
   homeTeamName: string
   awayTeamName: string
   allPlayerStats: PlayerMatchStat[]
+  ourTeamId: string
 }) {
   const goals = events.filter((e) => e.type === 'GOAL')
   if (goals.length === 0) return (
@@ -331,7 +573,7 @@ function GoalTimeline({
 
         // Determine if DS scored
         const scoringTeamId = scorer?.team_id
-        const isDS = scoringTeamId === DS_TEAM_ID
+        const isUs = scoringTeamId === ourTeamId
         const scoringTeamName = scoringTeamId === homeTeamId ? homeTeamName
           : scoringTeamId === awayTeamId ? awayTeamName : null
 
@@ -345,12 +587,12 @@ function GoalTimeline({
             <span className="text-xs font-mono text-gray-600 w-12 shrink-0">Turn {goal.turn}</span>
 
             {/* Ball icon */}
-            <span className={`text-base ${isDS ? 'text-emerald-400' : 'text-gray-500'}`}>⚽</span>
+            <span className={`text-base ${isUs ? 'text-emerald-400' : 'text-gray-500'}`}>⚽</span>
 
             {/* Scorer info */}
             <div className="flex-1 min-w-0">
               {scorer ? (
-                <span className={`text-sm font-medium ${isDS ? 'text-emerald-300' : 'text-gray-300'}`}>
+                <span className={`text-sm font-medium ${isUs ? 'text-emerald-300' : 'text-gray-300'}`}>
                   {scorer.name}
                 </span>
               ) : goal.description ? (
@@ -381,9 +623,13 @@ function GoalTimeline({
 function KeyEventsFeed({
   events,
   allPlayerStats,
+  ourTeamId,
+  ourShortName,
 }: {
   events: MatchEvent[]
   allPlayerStats: PlayerMatchStat[]
+  ourTeamId: string
+  ourShortName: string
 }) {
   const keyEvents = events.filter((e) => e.type === 'INJURY')
   if (keyEvents.length === 0) return (
@@ -400,7 +646,7 @@ function KeyEventsFeed({
       {keyEvents.map((evt) => {
         const playerId = evt.players_involved?.[0]
         const player = playerId ? playerMap[playerId] : null
-        const isDS = player?.team_id === DS_TEAM_ID
+        const isUs = player?.team_id === ourTeamId
 
         return (
           <div key={evt.id} className="flex items-start gap-3 py-2 px-3 rounded border border-gray-800 bg-gray-950">
@@ -408,9 +654,9 @@ function KeyEventsFeed({
             <span className="text-base text-red-400 shrink-0">🚑</span>
             <div className="flex-1 min-w-0">
               {player ? (
-                <span className={`text-sm font-medium ${isDS ? 'text-red-300' : 'text-gray-400'}`}>
+                <span className={`text-sm font-medium ${isUs ? 'text-red-300' : 'text-gray-400'}`}>
                   {player.name}
-                  {isDS && <span className="ml-1 text-xs text-red-600">(DS)</span>}
+                  {isUs && <span className="ml-1 text-xs text-red-600">({ourShortName})</span>}
                 </span>
               ) : (
                 <span className="text-sm text-gray-500">Player injured</span>
@@ -426,29 +672,361 @@ function KeyEventsFeed({
   )
 }
 
+// ============================================================
+// Shots + xG
+// ============================================================
+
+const OUTCOME_LABELS: Record<string, string> = {
+  goal: 'Goal',
+  save_caught: 'Saved',
+  save_rebound: 'Saved (rebound)',
+  miss: 'Missed',
+}
+
+function ShotsTable({
+  shots,
+  allPlayerStats,
+  homeTeamId,
+  homeTeamName,
+  awayTeamName,
+  ourTeamId,
+}: {
+  shots: MatchShot[]
+  allPlayerStats: PlayerMatchStat[]
+  homeTeamId: string
+  homeTeamName: string
+  awayTeamName: string
+  ourTeamId: string
+}) {
+  const playerMap: Record<string, { name: string; team_id: string }> = {}
+  for (const s of allPlayerStats) {
+    playerMap[s.player_id] = { name: s.player_name, team_id: s.team_id }
+  }
+
+  const sideOf = (shot: MatchShot) => {
+    const teamId = shot.shooter_id ? playerMap[shot.shooter_id]?.team_id : undefined
+    return teamId === undefined ? null : teamId === homeTeamId ? 'home' : 'away'
+  }
+  const shotsBy = (side: 'home' | 'away') => shots.filter((s) => sideOf(s) === side)
+  const xgOf = (list: MatchShot[]) => list.reduce((sum, s) => sum + s.xg, 0)
+  const goalsOf = (list: MatchShot[]) => list.filter((s) => s.is_goal).length
+
+  return (
+    <>
+      <div className="mb-3 grid grid-cols-2 gap-3">
+        {([['home', homeTeamName], ['away', awayTeamName]] as const).map(([side, name]) => {
+          const list = shotsBy(side)
+          return (
+            <div key={side} className="rounded-lg border border-gray-800 bg-gray-900 px-4 py-3">
+              <p className="text-xs text-gray-500">{name}</p>
+              <p className="text-lg font-bold text-white">
+                {xgOf(list).toFixed(2)} <span className="text-sm font-medium text-gray-400">xG</span>
+                <span className="ml-2 text-sm font-medium text-gray-500">{goalsOf(list)} goals · {list.length} shots</span>
+              </p>
+            </div>
+          )
+        })}
+      </div>
+      <div className="rounded-lg border border-gray-800 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-800 bg-gray-900">
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Turn</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Shooter</th>
+              <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Dist.</th>
+              <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Pressure</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Outcome</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">xG</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {shots.map((shot) => {
+              const shooter = shot.shooter_id ? playerMap[shot.shooter_id] : null
+              const isUs = shooter?.team_id === ourTeamId
+              return (
+                <tr key={shot.seq} className="bg-gray-950">
+                  <td className="px-4 py-2 font-mono text-xs text-gray-600">{shot.turn}</td>
+                  <td className="px-4 py-2">
+                    <span className={isUs ? 'text-gray-200' : 'text-gray-400'}>{shooter?.name ?? 'Unknown'}</span>
+                  </td>
+                  <td className="px-4 py-2 text-center text-gray-400">{shot.distance_to_goal ?? '—'}</td>
+                  <td className="px-4 py-2 text-center text-gray-400">{shot.pressure ?? '—'}</td>
+                  <td className={`px-4 py-2 text-xs ${shot.is_goal ? 'font-medium text-emerald-400' : 'text-gray-500'}`}>
+                    {OUTCOME_LABELS[shot.outcome ?? ''] ?? (shot.is_goal ? 'Goal' : shot.outcome ?? '—')}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono text-gray-300">{shot.xg.toFixed(2)}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-600">
+        xG = chance a shot like this is scored, from a model fitted on every stored shot
+        (distance, pressure, shooter accuracy, guard blocking).
+      </p>
+    </>
+  )
+}
+
+// ============================================================
+// Passing Network
+// ============================================================
+
+function PassingNetworkChart({ network, allPlayerStats }: { network: PassingNetwork; allPlayerStats: PlayerMatchStat[] }) {
+  const names: Record<string, string> = Object.fromEntries(allPlayerStats.map((s) => [s.player_id, s.player_name]))
+
+  // Both directions of a pair share one line
+  const pairs = new Map<string, { a: string; b: string; completed: number }>()
+  for (const e of network.edges) {
+    const [a, b] = [e.from, e.to].sort()
+    const pair = pairs.get(`${a}|${b}`) ?? { a, b, completed: 0 }
+    pair.completed += e.completed
+    pairs.set(`${a}|${b}`, pair)
+  }
+
+  const interceptors = [...new Set(network.interceptions.map((i) => i.by))]
+
+  const W = 700
+  const H = 320
+  const R = 120
+  const CX = 290
+  const maxCompleted = Math.max(1, ...[...pairs.values()].map((p) => p.completed))
+  const maxIntercepted = Math.max(1, ...network.interceptions.map((i) => i.count))
+  const maxAttempts = Math.max(1, ...network.nodes.map((n) => n.attempts))
+
+  const position: Record<string, { x: number; y: number }> = {}
+  network.nodes.forEach((n, i) => {
+    const angle = (i / network.nodes.length) * 2 * Math.PI - Math.PI / 2
+    position[n.playerId] = { x: CX + R * 1.6 * Math.cos(angle), y: H / 2 + R * Math.sin(angle) }
+  })
+  // Opponents who intercepted us sit in a column on the right
+  interceptors.forEach((id, i) => {
+    position[id] = { x: W - 50, y: ((i + 1) * H) / (interceptors.length + 1) }
+  })
+
+  return (
+    <div className="overflow-x-auto">
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full" style={{ minWidth: 320, maxWidth: 800 }}>
+        {[...pairs.values()].map((p) => {
+          const from = position[p.a]
+          const to = position[p.b]
+          return (
+            <line key={`${p.a}|${p.b}`} x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+              stroke="#34d399" strokeWidth={1 + (p.completed / maxCompleted) * 7}
+              strokeLinecap="round" opacity={0.55}>
+              <title>{`${names[p.a] ?? p.a} ↔ ${names[p.b] ?? p.b}: ${p.completed} completed`}</title>
+            </line>
+          )
+        })}
+        {network.interceptions.map((i) => {
+          const from = position[i.from]
+          const to = position[i.by]
+          return (
+            <line key={`${i.from}>${i.by}`} x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+              stroke="#f87171" strokeWidth={1 + (i.count / maxIntercepted) * 3} strokeDasharray="4 4"
+              strokeLinecap="round" opacity={0.6}>
+              <title>{`${names[i.from] ?? i.from} → ${names[i.by] ?? i.by}: ${i.count} intercepted`}</title>
+            </line>
+          )
+        })}
+        {network.nodes.map((n) => {
+          const { x, y } = position[n.playerId]
+          return (
+            <g key={n.playerId}>
+              <circle cx={x} cy={y} r={8 + (n.attempts / maxAttempts) * 10} fill="#111827" stroke="#9ca3af" strokeWidth={1.5}>
+                <title>{`${names[n.playerId] ?? n.playerId}: ${n.completed}/${n.attempts} completed, ${n.intercepted} intercepted`}</title>
+              </circle>
+              <text x={x} y={y + 30} textAnchor="middle" fontSize={10} fill="#d1d5db">{names[n.playerId] ?? n.playerId}</text>
+            </g>
+          )
+        })}
+        {interceptors.map((id) => {
+          const { x, y } = position[id]
+          return (
+            <g key={id}>
+              <circle cx={x} cy={y} r={6} fill="#111827" stroke="#f87171" strokeWidth={1.5} />
+              <text x={x} y={y + 18} textAnchor="middle" fontSize={10} fill="#fca5a5">{names[id] ?? id}</text>
+            </g>
+          )
+        })}
+      </svg>
+      <p className="mt-2 text-xs text-gray-600">
+        Green line width = completed passes between the pair (both directions). Red dashed lines run to the
+        opponents (right) who intercepted a player&apos;s passes. Circle size = passes attempted. Hover for counts.
+      </p>
+    </div>
+  )
+}
+
+// ============================================================
+// Event Log
+// ============================================================
+
+function EventLog({
+  matchId,
+  events,
+  filters,
+  allPlayerStats,
+  homeTeamName,
+  awayTeamName,
+}: {
+  matchId: string
+  events: EventLogEntry[]
+  filters: EventLogFilters
+  allPlayerStats: PlayerMatchStat[]
+  homeTeamName: string
+  awayTeamName: string
+}) {
+  const players = new Map(allPlayerStats.map((s) => [s.player_id, s]))
+  const sideOf = (playerId: string) => {
+    const player = players.get(playerId)
+    return player ? (player.is_home_team ? 'home' as const : 'away' as const) : undefined
+  }
+
+  const matching = filterEventLog(events, filters, sideOf)
+  const shown = matching.slice(0, EVENT_LOG_LIMIT)
+  const filtered = filters.types.length > 0 || filters.team || filters.player || filters.fromTurn !== null || filters.toTurn !== null
+  const inputClass = 'rounded border border-gray-700 bg-gray-900 px-2 py-1 text-xs text-gray-200 focus:border-gray-500 focus:outline-none'
+
+  return (
+    <div className="space-y-4">
+      {/* Keyed on the filters so the defaults reset when Clear navigates client-side */}
+      <form key={JSON.stringify(filters)} method="get" action={`/matches/${matchId}#events`} className="rounded-lg border border-gray-800 bg-gray-900 p-4 space-y-3">
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {EVENT_LOG_TYPES.map((type) => (
+            <label key={type} className="flex items-center gap-1.5 text-xs text-gray-400">
+              <input type="checkbox" name="type" value={type} defaultChecked={filters.types.includes(type)} className="accent-emerald-500" />
+              {type.toLowerCase()}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs text-gray-500">
+            Team
+            <select name="team" defaultValue={filters.team ?? ''} className={inputClass}>
+              <option value="">Both</option>
+              <option value="home">{homeTeamName}</option>
+              <option value="away">{awayTeamName}</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-500">
+            Player
+            <select name="player" defaultValue={filters.player ?? ''} className={inputClass}>
+              <option value="">Anyone</option>
+              {[true, false].map((isHome) => (
+                <optgroup key={String(isHome)} label={isHome ? homeTeamName : awayTeamName}>
+                  {allPlayerStats
+                    .filter((s) => s.is_home_team === isHome)
+                    .map((s) => <option key={s.player_id} value={s.player_id}>{s.player_name}</option>)}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-500">
+            From turn
+            <input type="number" name="from" min={0} defaultValue={filters.fromTurn ?? ''} className={`${inputClass} w-20`} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-500">
+            To turn
+            <input type="number" name="to" min={0} defaultValue={filters.toTurn ?? ''} className={`${inputClass} w-20`} />
+          </label>
+          <button type="submit" className="rounded bg-gray-800 px-3 py-1.5 text-xs text-gray-200 hover:bg-gray-700 transition-colors">
+            Apply
+          </button>
+          {filtered && (
+            <Link href={`/matches/${matchId}#events`} className="px-1 py-1.5 text-xs text-gray-500 hover:text-gray-300 transition-colors">
+              Clear
+            </Link>
+          )}
+        </div>
+      </form>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-600 italic">No events match these filters.</p>
+      ) : (
+        <div className="rounded-lg border border-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-800 bg-gray-900">
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Turn</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Type</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Event</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Players</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Details</th>
+                  <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Score</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {shown.map((e) => (
+                  <tr key={e.seq} className="bg-gray-950 hover:bg-gray-900 transition-colors align-top">
+                    <td className="px-3 py-2 text-right text-gray-500 tabular-nums">{e.turn}</td>
+                    <td className="px-3 py-2 text-xs font-medium text-gray-400">{e.type.toLowerCase()}</td>
+                    <td className="px-3 py-2 text-gray-300">{e.description ?? '—'}</td>
+                    <td className="px-3 py-2 text-xs text-gray-400">
+                      {(e.players_involved ?? []).map((id) => players.get(id)?.player_name ?? id).join(' → ') || '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {eventDetails(e.context).map((d) => (
+                          <span key={d.label} className="rounded bg-gray-800 px-1.5 py-0.5 text-xs text-gray-400">
+                            {d.label} <span className="text-gray-200">{d.value}</span>
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-center text-xs text-gray-500 tabular-nums">
+                      {e.home_score !== null && e.away_score !== null ? `${e.home_score}–${e.away_score}` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-gray-600">
+        {matching.length > shown.length
+          ? `Showing the first ${shown.length} of ${matching.length} events — narrow the filters to see the rest.`
+          : `${matching.length} events.`}
+        {' '}Team = the side of the first player involved. The filtered view&apos;s URL can be shared.
+      </p>
+    </div>
+  )
+}
+
 // ============================================================
 // Page
 // ============================================================
 
-export default async function MatchPage({ params }: { params: Promise<{ id: string }> }) {
+export default async function MatchPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  await requireRole()
   const { id } = await params
+  const filters = parseEventLogFilters(await searchParams)
   const data = await getMatchData(id)
 
   if (!data) notFound()
 
-  const { match, allPlayerStats, dsStats, energySummaries, hasReplay, events } = data
+  const { match, us, allPlayerStats, ourStats, energySummaries, subReviews, shots, passingNetwork, hasReplay, events, replayEvents, replayEnergy, winProbability } = data
 
-  const isHome = match.home_team_id === DS_TEAM_ID
-  const dsScore = isHome ? match.home_score : match.away_score
+  const isHome = match.home_team_id === us.id
+  const ourScore = isHome ? match.home_score : match.away_score
   const oppScore = isHome ? match.away_score : match.home_score
   const oppName = isHome ? match.away_team_name : match.home_team_name
   const oppId = isHome ? match.away_team_id : match.home_team_id
 
   let resultLabel = '—'
   let resultColor = 'text-gray-400'
-  if (dsScore !== null && oppScore !== null) {
-    if (dsScore > oppScore) { resultLabel = 'W'; resultColor = 'text-emerald-400' }
-    else if (dsScore < oppScore) { resultLabel = 'L'; resultColor = 'text-red-400' }
+  if (ourScore !== null && oppScore !== null) {
+    if (ourScore > oppScore) { resultLabel = 'W'; resultColor = 'text-emerald-400' }
+    else if (ourScore < oppScore) { resultLabel = 'L'; resultColor = 'text-red-400' }
     else { resultLabel = 'D'; resultColor = 'text-yellow-400' }
   }
 
@@ -466,7 +1044,7 @@ export default async function MatchPage({ params }: { params: Promise<{ id: stri
         <div className="flex items-start justify-between gap-4">
           <div>
             <h1 className="text-2xl font-bold tracking-tight text-white">
-              Deadly Sins {isHome ? 'vs' : '@'} {oppName}
+              {us.name} {isHome ? 'vs' : '@'} {oppName}
             </h1>
             <p className="mt-1 text-sm text-gray-500">{formatDate(match.scheduled_time)}</p>
             {match.competition_name && (
@@ -480,9 +1058,9 @@ export default async function MatchPage({ params }: { params: Promise<{ id: stri
           </div>
           <div className="text-right shrink-0">
             <span className={`text-4xl font-bold ${resultColor}`}>{resultLabel}</span>
-            {dsScore !== null && oppScore !== null && (
+            {ourScore !== null && oppScore !== null && (
               <p className="text-lg text-gray-400 mt-1">
-                {isHome ? `${dsScore} – ${oppScore}` : `${oppScore} – ${dsScore}`}
+                {isHome ? `${ourScore} – ${oppScore}` : `${oppScore} – ${ourScore}`}
               </p>
             )}
           </div>
@@ -511,6 +1089,7 @@ export default async function MatchPage({ params }: { params: Promise<{ id: stri
                     homeTeamName={match.home_team_name}
                     awayTeamName={match.away_team_name}
                     allPlayerStats={allPlayerStats}
+                    ourTeamId={us.id}
                   />
                 </section>
               )}
@@ -520,17 +1099,97 @@ export default async function MatchPage({ params }: { params: Promise<{ id: stri
                   <h2 className="mb-3 text-sm font-semibold uppercase tracking-widest text-gray-500">
                     Injuries ({injuryEvents.length})
                   </h2>
-                  <KeyEventsFeed events={injuryEvents} allPlayerStats={allPlayerStats} />
+                  <KeyEventsFeed
+                    events={injuryEvents}
+                    allPlayerStats={allPlayerStats}
+                    ourTeamId={us.id}
+                    ourShortName={us.shortName}
+                  />
                 </section>
               )}
             </div>
           )}
 
+          {/* Turn-by-turn replay */}
+          {replayEvents.length > 0 && (
+            <section className="mb-8">
+              <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+                Replay
+              </h2>
+              <div className="rounded-lg border border-gray-800 bg-gray-900 p-5">
+                <ReplayViewer
+                  events={replayEvents.map((e) => ({
+                    seq: e.seq,
+                    turn: e.turn,
+                    type: e.type,
+                    description: e.description,
+                    players_involved: e.players_involved,
+                    home_score: e.home_score,
+                    away_score: e.away_score,
+                  }))}
+                  energy={replayEnergy}
+                  players={allPlayerStats.map((s) => ({ id: s.player_id, name: s.player_name, isHome: s.is_home_team }))}
+                  homeTeamName={match.home_team_name}
+                  awayTeamName={match.away_team_name}
+                />
+              </div>
+            </section>
+          )}
+
+          {/* Win probability + swing events */}
+          {winProbability && (
+            <section className="mb-8">
+              <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+                Win Probability
+              </h2>
+              <div className="rounded-lg border border-gray-800 bg-gray-900 p-5">
+                <WinProbabilityChart
+                  curve={winProbability.curve}
+                  swings={winProbability.swings}
+                  fitted={winProbability.fitted}
+                  allPlayerStats={allPlayerStats}
+                  homeTeamId={match.home_team_id}
+                  homeTeamName={match.home_team_name}
+                  awayTeamName={match.away_team_name}
+                />
+              </div>
+            </section>
+          )}
+
+          {/* Shots + expected goals */}
+          {shots.length > 0 && (
+            <section className="mb-8">
+              <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+                Shots & xG ({shots.length})
+              </h2>
+              <ShotsTable
+                shots={shots}
+                allPlayerStats={allPlayerStats}
+                homeTeamId={match.home_team_id}
+                homeTeamName={match.home_team_name}
+                awayTeamName={match.away_team_name}
+                ourTeamId={us.id}
+              />
+            </section>
+          )}
+
+          {/* Passing network */}
+          {passingNetwork && passingNetwork.edges.length > 0 && (
+            <section className="mb-8">
+              <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+                Passing Network ({us.shortName})
+              </h2>
+              <div className="rounded-lg border border-gray-800 bg-gray-900 p-5">
+                <PassingNetworkChart network={passingNetwork} allPlayerStats={allPlayerStats} />
+              </div>
+            </section>
+          )}
+
           {/* Energy chart */}
           {energySummaries.some((s) => s.turns.length > 0) && (
             <section className="mb-8">
               <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
-                Energy Progression (DS Players)
+                Energy Progression ({us.shortName} Players)
               </h2>
               <div className="rounded-lg border border-gray-800 bg-gray-900 p-5">
                 <EnergyLineChart summaries={energySummaries} />
@@ -582,6 +1241,64 @@ export default async function MatchPage({ params }: { params: Promise<{ id: stri
             </section>
           )}
 
+          {/* Substitution timing — recommended vs actual */}
+          {subReviews.length > 0 && (
+            <section className="mb-8">
+              <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+                Substitution Timing
+              </h2>
+              <div className="rounded-lg border border-gray-800 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-800 bg-gray-900">
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Player</th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Drain/Turn</th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Pred. ↓20</th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Sub By</th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Actual</th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Verdict</th>
+                      <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Penalty After Plan</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800">
+                    {subReviews.map((r) => {
+                      const verdict = VERDICT_STYLES[r.verdict]
+                      return (
+                        <tr key={r.plan.playerId} className="bg-gray-950 hover:bg-gray-900 transition-colors">
+                          <td className="px-4 py-3">
+                            <Link href={`/players/${r.plan.playerId}`} className="text-gray-200 hover:text-white transition-colors">
+                              {r.player_name}
+                            </Link>
+                          </td>
+                          <td className="px-4 py-3 text-center text-gray-400">{r.plan.drainPerTurn?.toFixed(2) ?? '—'}</td>
+                          <td className="px-4 py-3 text-center text-gray-400">{r.plan.predictedAutoSubTurn ?? '—'}</td>
+                          <td className="px-4 py-3 text-center text-gray-300">{r.plan.recommendedTurn ?? '—'}</td>
+                          <td className="px-4 py-3 text-center text-gray-400">
+                            {r.actual ? `Turn ${r.actual.turn}` : '—'}
+                            {r.turnsFromPlan !== null && r.turnsFromPlan !== 0 && (
+                              <span className="ml-1 text-xs text-gray-600">({r.turnsFromPlan > 0 ? '+' : ''}{r.turnsFromPlan})</span>
+                            )}
+                          </td>
+                          <td className={`px-4 py-3 text-center text-xs font-medium ${verdict.className}`}>{verdict.label}</td>
+                          <td className="px-4 py-3 text-center">
+                            <span className={r.penaltyAfterPlan > 0 ? 'text-orange-400' : 'text-gray-600'}>
+                              {r.penaltyAfterPlan > 0 ? r.penaltyAfterPlan.toFixed(1) : '—'}
+                            </span>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-2 text-xs text-gray-600">
+                Drain is each player&apos;s energy lost per turn over our previous {DRAIN_HISTORY_MATCHES} matches.
+                Sub By = {SUB_LEAD_TURNS} turns before energy is predicted to drop below 20 (auto-sub).
+                Penalty After Plan = total penalty carried between that turn and coming off.
+              </p>
+            </section>
+          )}
+
           {/* Player stats — both teams */}
           {allPlayerStats.length > 0 && (
             <section>
@@ -594,12 +1311,12 @@ export default async function MatchPage({ params }: { params: Promise<{ id: stri
                   const teamStats = allPlayerStats
                     .filter((s) => s.team_id === teamId)
                     .sort((a, b) => b.goals - a.goals || b.shots - a.shots)
-                  const isDS = teamId === DS_TEAM_ID
+                  const isUs = teamId === us.id
                   return (
                     <div key={teamId}>
                       <h3 className="mb-2 text-sm font-medium text-gray-400">
                         {teamIsHome ? '🏠 ' : '✈️ '}{teamName}
-                        {isDS && <span className="ml-2 text-xs text-emerald-600">(us)</span>}
+                        {isUs && <span className="ml-2 text-xs text-emerald-600">(us)</span>}
                       </h3>
                       <div className="rounded-lg border border-gray-800 overflow-hidden">
                         <div className="overflow-x-auto">
@@ -625,7 +1342,7 @@ export default async function MatchPage({ params }: { params: Promise<{ id: stri
                                 teamStats.map((s) => (
                                   <tr key={s.player_id} className="bg-gray-950 hover:bg-gray-900 transition-colors">
                                     <td className="px-3 py-2">
-                                      {isDS ? (
+                                      {isUs ? (
                                         <Link href={`/players/${s.player_id}`} className="text-gray-200 hover:text-white transition-colors">
                                           {s.player_name}
                                         </Link>
@@ -662,6 +1379,21 @@ export default async function MatchPage({ params }: { params: Promise<{ id: stri
               </p>
             </section>
           )}
+
+          {/* Full event log — filters live in the URL */}
+          {replayEvents.length > 0 && (
+            <section id="events" className="mt-8 scroll-mt-20">
+              <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Event Log</h2>
+              <EventLog
+                matchId={match.id}
+                events={replayEvents}
+                filters={filters}
+                allPlayerStats={allPlayerStats}
+                homeTeamName={match.home_team_name}
+                awayTeamName={match.away_team_name}
+              />
+            </section>
+          )}
         </>
       )}
     </div>
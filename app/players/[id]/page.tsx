@@ -2,16 +2,26 @@
  * Player Detail Page
  *
  * Career stats, energy consistency, form indicator, best/worst match
- * highlights, fatigue trend, and sortable/paginated match history.
+ * highlights, fatigue trend, between-match recovery, expected goals,
+ * pass completion by lane pressure and distance, tackle discipline, and
+ * sortable/paginated match history.
  */
 
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
-import { createServerClient } from '@/lib/supabase/client'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
+import { getTrackedTeams, getActiveTeam } from '@/lib/teams'
+import { estimateRecovery, predictStartEnergy, type PlayerEnergyHistory } from '@/lib/analytics/recovery'
+import { summariseXg } from '@/lib/analytics/xg'
+import { loadXgModel, listPlayerShots } from '@/lib/supabase/xg'
+import { completionByDistance, completionByLanePressure, type PassBucket } from '@/lib/analytics/passing'
+import { listPlayerPasses } from '@/lib/supabase/passes'
+import { summariseDiscipline, FOUL_SEVERITIES } from '@/lib/analytics/discipline'
+import { loadDisciplineModel, listTacklesByPlayer } from '@/lib/supabase/discipline'
 
 export const dynamic = 'force-dynamic'
 
-const DS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
 const PAGE_SIZE = 20
 
 // ============================================================
@@ -40,13 +50,14 @@ interface MatchEntry {
   opponent_name: string
   opponent_id: string
   is_home: boolean
-  ds_score: number | null
+  our_score: number | null
   opp_score: number | null
   goals: number
   shots: number
   tackles: number
   passes: number
   fouls: number
+  start_energy: number | null
   final_energy: number | null
   min_energy: number | null
   first_below_30: number | null
@@ -58,17 +69,22 @@ interface MatchEntry {
 // ============================================================
 
 async function getPlayerData(playerId: string) {
-  const db = createServerClient()
+  const db = await createUserClient()
+  const [trackedTeams, activeTeam] = await Promise.all([getTrackedTeams(), getActiveTeam()])
 
-  const { data: careerData } = await db
+  // Career rows for each tracked team the player appeared for — prefer the active team
+  const { data: careerRows } = await db
     .from('player_career_stats')
     .select('*')
     .eq('player_id', playerId)
-    .eq('team_id', DS_TEAM_ID)
-    .maybeSingle()
+    .in('team_id', trackedTeams.map(t => t.id))
 
+  const careerData = careerRows?.find(r => r.team_id === activeTeam.id) ?? careerRows?.[0]
   if (!careerData) return null
 
+  const teamId: string = careerData.team_id
+  const team = trackedTeams.find(t => t.id === teamId)!
+
   const { data: matchStatsData } = await db
     .from('player_match_stats')
     .select('match_id, goals, shots, tackles, passes, blocks, fouls')
@@ -76,16 +92,25 @@ async function getPlayerData(playerId: string) {
 
   const matchIds = (matchStatsData ?? []).map((s) => s.match_id)
 
+  // Next fixture, for the predicted start energy
+  const { data: nextMatch } = await db
+    .from('upcoming_tracked_matches')
+    .select('id, scheduled_time')
+    .eq('tracked_team_id', teamId)
+    .order('scheduled_time', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
   if (matchIds.length === 0) {
-    return { career: careerData as CareerStats, matches: [] }
+    return { career: careerData as CareerStats, team, matches: [], nextMatch, xg: null, passing: null, discipline: null }
   }
 
-  const [matchesResult, teamsResult, thresholdsResult, finalEnergyResults] = await Promise.all([
+  const [matchesResult, teamsResult, thresholdsResult, finalEnergyResults, startEnergyResults, xgModel, shots] = await Promise.all([
     db
       .from('matches')
       .select('id, scheduled_time, home_team_id, away_team_id, home_score, away_score')
       .in('id', matchIds)
-      .eq('involves_deadly_sins', true)
+      .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
       .order('scheduled_time', { ascending: false }),
     db.from('teams').select('id, name'),
     db
@@ -100,6 +125,15 @@ async function getPlayerData(playerId: string) {
       .eq('player_id', playerId)
       .in('match_id', matchIds)
       .order('turn', { ascending: false }),
+    // Start energy: the turn-0 snapshots on their own, so the row limit on the query above can't drop them
+    db
+      .from('energy_snapshots')
+      .select('match_id, energy')
+      .eq('player_id', playerId)
+      .eq('turn', 0)
+      .in('match_id', matchIds),
+    loadXgModel(db),
+    listPlayerShots(db, playerId),
   ])
 
   const teamNames: Record<string, string> = Object.fromEntries(
@@ -122,22 +156,26 @@ async function getPlayerData(playerId: string) {
     }
   }
 
+  const startEnergyByMatch: Record<string, number> = Object.fromEntries(
+    (startEnergyResults.data ?? []).map((s) => [s.match_id, s.energy])
+  )
+
   type MatchStatRow = { match_id: string; goals: number; shots: number; tackles: number; passes: number; blocks: number; fouls: number }
   const statsByMatch: Record<string, MatchStatRow> = Object.fromEntries(
     (matchStatsData ?? []).map((s) => [s.match_id, s])
   )
 
   const matches: MatchEntry[] = (matchesResult.data ?? []).map((m) => {
-    const isHome = m.home_team_id === DS_TEAM_ID
-    const dsScore = isHome ? m.home_score : m.away_score
+    const isHome = m.home_team_id === teamId
+    const ourScore = isHome ? m.home_score : m.away_score
     const oppScore = isHome ? m.away_score : m.home_score
     const oppTeamId = isHome ? m.away_team_id : m.home_team_id
     const stats = statsByMatch[m.id]
     const thresh = thresholdByMatch[m.id]
 
     let result: MatchEntry['result'] = null
-    if (dsScore !== null && oppScore !== null) {
-      result = dsScore > oppScore ? 'W' : dsScore < oppScore ? 'L' : 'D'
+    if (ourScore !== null && oppScore !== null) {
+      result = ourScore > oppScore ? 'W' : ourScore < oppScore ? 'L' : 'D'
     }
 
     return {
@@ -146,13 +184,14 @@ async function getPlayerData(playerId: string) {
       opponent_name: teamNames[oppTeamId] ?? 'Unknown',
       opponent_id: oppTeamId,
       is_home: isHome,
-      ds_score: dsScore,
+      our_score: ourScore,
       opp_score: oppScore,
       goals: stats?.goals ?? 0,
       shots: stats?.shots ?? 0,
       tackles: stats?.tackles ?? 0,
       passes: stats?.passes ?? 0,
       fouls: stats?.fouls ?? 0,
+      start_energy: startEnergyByMatch[m.id] ?? null,
       final_energy: finalEnergyByMatch[m.id] ?? null,
       min_energy: thresh?.min_energy ?? null,
       first_below_30: thresh?.first_below_30 ?? null,
@@ -160,7 +199,25 @@ async function getPlayerData(playerId: string) {
     }
   })
 
-  return { career: careerData as CareerStats, matches }
+  // xG over the same matches as the career stats
+  const teamMatchIds = new Set(matches.map((m) => m.match_id))
+  const xg = summariseXg(xgModel, shots.filter((s) => teamMatchIds.has(s.match_id)))
+
+  const [passes, disciplineModel, tackles] = await Promise.all([
+    listPlayerPasses(db, playerId, [...teamMatchIds]),
+    loadDisciplineModel(db),
+    listTacklesByPlayer(db, [playerId], [...teamMatchIds]),
+  ])
+  const passing = passes.length > 0
+    ? { attempts: passes.length, byLane: completionByLanePressure(passes), byDistance: completionByDistance(passes) }
+    : null
+
+  const playerTackles = tackles[playerId] ?? []
+  const discipline = playerTackles.length > 0
+    ? summariseDiscipline(disciplineModel, playerTackles, matches.length)
+    : null
+
+  return { career: careerData as CareerStats, team, matches, nextMatch, xg, passing, discipline }
 }
 
 // ============================================================
@@ -320,6 +377,41 @@ function EnergyHistoryChart({ matches }: { matches: MatchEntry[] }) {
   )
 }
 
+function PassBreakdownTable({ title, buckets }: { title: string; buckets: PassBucket[] }) {
+  return (
+    <div className="rounded-lg border border-gray-800 overflow-hidden">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-800 bg-gray-900">
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">{title}</th>
+            <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Att</th>
+            <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Int</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wide">Comp %</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-800">
+          {buckets.map((b) => (
+            <tr key={b.label} className="bg-gray-950">
+              <td className="px-4 py-2 text-gray-300">{b.label}</td>
+              <td className="px-4 py-2 text-center text-gray-400">{b.attempts}</td>
+              <td className="px-4 py-2 text-center text-gray-400">{b.intercepted}</td>
+              <td className="px-4 py-2 text-right">
+                <span className={
+                  b.completionRate === null ? 'text-gray-600' :
+                  b.completionRate >= 0.8 ? 'text-emerald-400' :
+                  b.completionRate >= 0.6 ? 'text-yellow-400' : 'text-red-400'
+                }>
+                  {b.completionRate === null ? '—' : `${(b.completionRate * 100).toFixed(0)}%`}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 function SortHeader({
   label, sortKey, currentSort, currentDir, playerId,
 }: {
@@ -350,6 +442,7 @@ export default async function PlayerPage({
   params: Promise<{ id: string }>
   searchParams: Promise<{ page?: string; sort?: string; dir?: string }>
 }) {
+  await requireRole()
   const [{ id }, sp] = await Promise.all([params, searchParams])
 
   const page = Math.max(1, parseInt(sp.page ?? '1', 10) || 1)
@@ -362,12 +455,21 @@ export default async function PlayerPage({
   const data = await getPlayerData(id)
   if (!data) notFound()
 
-  const { career, matches } = data
+  const { career, team, matches, nextMatch, xg, passing, discipline } = data
 
   // ---- Analytics ----
   const consistency = computeConsistency(matches.map((m) => m.final_energy))
   const fatigueTrend = computeFatigueTrend(matches)
 
+  // matches is newest first, as the recovery model expects
+  const energyHistory: PlayerEnergyHistory[] = matches
+    .filter((m) => m.start_energy !== null || m.min_energy !== null)
+    .map((m) => ({ matchId: m.match_id, scheduledTime: m.scheduled_time, startEnergy: m.start_energy, minEnergy: m.min_energy }))
+  const recovery = estimateRecovery(energyHistory)
+  const predictedStart = nextMatch
+    ? predictStartEnergy(energyHistory, recovery.ratePerHour, nextMatch.scheduled_time)
+    : null
+
   // Best match: most goals, tie-break by tackles
   const bestMatch = matches.length > 0
     ? [...matches].sort((a, b) => b.goals - a.goals || b.tackles - a.tackles)[0]
@@ -399,7 +501,7 @@ export default async function PlayerPage({
       <div className="mt-4 mb-6 flex items-start justify-between gap-4 flex-wrap">
         <div>
           <h1 className="text-2xl font-bold tracking-tight text-white">{career.player_name}</h1>
-          <p className="mt-1 text-sm text-gray-500">{career.matches_played} matches · Deadly Sins</p>
+          <p className="mt-1 text-sm text-gray-500">{career.matches_played} matches · {team.name}</p>
           <div className="mt-2">
             <FormDots matches={matches} />
           </div>
@@ -434,6 +536,91 @@ export default async function PlayerPage({
         </div>
       </section>
 
+      {/* Expected goals — finishing vs shot volume */}
+      {xg && xg.shots > 0 && (
+        <section className="mb-8">
+          <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Expected Goals</h2>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'xG', value: xg.xg.toFixed(2), className: 'text-white' },
+              { label: 'Goals', value: xg.goals, className: 'text-white' },
+              {
+                label: 'Goals − xG',
+                value: `${xg.goalsMinusXg > 0 ? '+' : ''}${xg.goalsMinusXg.toFixed(2)}`,
+                className: xg.goalsMinusXg > 0 ? 'text-emerald-400' : xg.goalsMinusXg < 0 ? 'text-red-400' : 'text-white',
+              },
+              { label: 'xG/Shot', value: xg.xgPerShot?.toFixed(2) ?? '—', className: 'text-white' },
+            ].map(({ label, value, className }) => (
+              <div key={label} className="rounded-lg border border-gray-800 bg-gray-900 p-4 text-center">
+                <p className="text-xs text-gray-500 mb-1">{label}</p>
+                <p className={`text-xl font-bold ${className}`}>{value}</p>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-600">
+            From {xg.shots} shots with stored context. Goals − xG above zero = finishing better than the
+            chances suggest; xG/shot = average chance quality.
+          </p>
+        </section>
+      )}
+
+      {/* Pass completion under pressure and over distance */}
+      {passing && (
+        <section className="mb-8">
+          <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+            Passing ({passing.attempts} attempts)
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <PassBreakdownTable title="Lane Pressure" buckets={passing.byLane} />
+            <PassBreakdownTable title="Distance" buckets={passing.byDistance} />
+          </div>
+          <p className="mt-2 text-xs text-gray-600">
+            Passes without lane or distance data are left out of that table. Int = intercepted.
+          </p>
+        </section>
+      )}
+
+      {/* Tackle discipline — foul chances and penalty time */}
+      {discipline && (
+        <section className="mb-8">
+          <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+            Discipline ({discipline.tackles} tackles)
+          </h2>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="rounded-lg border border-gray-800 bg-gray-900 p-4 text-center">
+              <p className="text-xs text-gray-500 mb-1">Avg Aggression</p>
+              <p className="text-xl font-bold text-white">{discipline.avgAggression ?? '—'}</p>
+            </div>
+            <div className="rounded-lg border border-gray-800 bg-gray-900 p-4 text-center">
+              <p className="text-xs text-gray-500 mb-1">Foul Chance / Tackle</p>
+              <p className="text-sm font-medium text-gray-200">
+                {FOUL_SEVERITIES.map((s) => `${(discipline.chances[s] * 100).toFixed(0)}%`).join(' · ')}
+              </p>
+              <p className="text-xs text-gray-600">light · normal · heavy</p>
+            </div>
+            <div className="rounded-lg border border-gray-800 bg-gray-900 p-4 text-center">
+              <p className="text-xs text-gray-500 mb-1">Expected Penalty / Match</p>
+              <p className={`text-xl font-bold ${(discipline.expectedPenaltyPerMatch ?? 0) >= 1 ? 'text-red-400' : 'text-white'}`}>
+                {discipline.expectedPenaltyPerMatch?.toFixed(2) ?? '—'} <span className="text-sm font-medium text-gray-400">turns</span>
+              </p>
+            </div>
+            <div className="rounded-lg border border-gray-800 bg-gray-900 p-4 text-center">
+              <p className="text-xs text-gray-500 mb-1">Penalty Served</p>
+              <p className="text-xl font-bold text-white">
+                {discipline.penaltyTurns} <span className="text-sm font-medium text-gray-400">turns</span>
+              </p>
+              <p className="text-xs text-gray-600">
+                {FOUL_SEVERITIES.map((s) => discipline.fouls[s]).join(' · ')} fouls
+              </p>
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-gray-600">
+            Foul chances are modelled from every stored tackle at this player&apos;s average aggression and
+            strength; expected penalty = chance × typical penalty length × tackles per match.
+          </p>
+        </section>
+      )}
+
       {/* Highlights + Consistency row */}
       <section className="mb-8">
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -490,6 +677,28 @@ export default async function PlayerPage({
               )}
             </div>
           )}
+
+          {/* Between-match recovery */}
+          {recovery.observations > 0 && (
+            <div className="rounded-lg border border-gray-800 bg-gray-900 p-4">
+              <p className="text-xs font-medium text-gray-500 mb-1">Recovery</p>
+              {recovery.ratePerHour !== null ? (
+                <p className="text-xl font-bold text-white">
+                  {recovery.ratePerHour.toFixed(1)} <span className="text-sm font-medium text-gray-400">energy/hour</span>
+                </p>
+              ) : (
+                <p className="text-sm font-medium text-emerald-400">Always starts at full energy</p>
+              )}
+              <p className="text-xs text-gray-600">
+                from {recovery.usable} of {recovery.observations} match gap{recovery.observations !== 1 ? 's' : ''}
+              </p>
+              {nextMatch && predictedStart !== null && (
+                <Link href={`/lineup/${nextMatch.id}`} className="block text-xs mt-1.5 text-gray-400 hover:text-gray-200 transition-colors">
+                  Predicted start next match: <span className={getEnergyTextColor(predictedStart)}>{predictedStart}</span> →
+                </Link>
+              )}
+            </div>
+          )}
         </div>
       </section>
 
@@ -552,9 +761,9 @@ export default async function PlayerPage({
                       </td>
                       <td className="px-4 py-3 text-center">
                         <span className={`font-bold ${resultColor}`}>{m.result ?? '—'}</span>
-                        {m.ds_score !== null && m.opp_score !== null && (
+                        {m.our_score !== null && m.opp_score !== null && (
                           <span className="ml-1 text-xs text-gray-500">
-                            {m.is_home ? `${m.ds_score}–${m.opp_score}` : `${m.opp_score}–${m.ds_score}`}
+                            {m.is_home ? `${m.our_score}–${m.opp_score}` : `${m.opp_score}–${m.our_score}`}
                           </span>
                         )}
                       </td>
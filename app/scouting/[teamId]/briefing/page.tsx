@@ -0,0 +1,171 @@
+/**
+ * Pre-Match Briefing — one printable page per opponent
+ *
+ * Head-to-head record, top threats, foul-prone tacklers and energy fade
+ * tendency, laid out for A4. Printing (or "Save as PDF") happens in the
+ * browser, so nothing leaves the machine. `?match=<id>` adds the fixture;
+ * if that match isn't against this opponent (a stale or edited link), our
+ * next upcoming fixture against them is shown instead.
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
+import { getActiveTeam } from '@/lib/teams'
+import { getBriefingFixture, getHeadToHead, getScoutingReport, listTopScorers } from '@/lib/supabase/scouting-report'
+import { FADE_PATTERN_LABELS, FOUL_RISK_RATE } from '@/lib/analytics/scouting'
+import { PrintButton } from '@app/components/PrintButton'
+
+export const dynamic = 'force-dynamic'
+
+// Past meetings listed under the head-to-head record
+const RECENT_MEETINGS = 5
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric', year: 'numeric',
+    hour: '2-digit', minute: '2-digit', timeZoneName: 'short',
+  })
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="break-inside-avoid">
+      <h2 className="mb-2 text-xs font-semibold uppercase tracking-widest text-gray-500 print:text-gray-700">{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+export default async function BriefingPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ teamId: string }>
+  searchParams: Promise<{ match?: string }>
+}) {
+  await requireRole()
+  const { teamId } = await params
+  const { match: matchId } = await searchParams
+  const db = await createUserClient()
+  const us = await getActiveTeam()
+
+  const [report, h2h, topScorers, fixture] = await Promise.all([
+    getScoutingReport(db, teamId),
+    getHeadToHead(db, teamId, us.id),
+    listTopScorers(db, teamId, 3),
+    matchId ? getBriefingFixture(db, matchId, teamId, us.id) : Promise.resolve(null),
+  ])
+  if (!report) notFound()
+
+  const fade = FADE_PATTERN_LABELS[report.energyFadePattern]
+  const recent = h2h.matches.filter(m => m.home_score !== null && m.away_score !== null).slice(0, RECENT_MEETINGS)
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 print:max-w-none print:p-0 print:text-black">
+      <div className="mb-6 flex items-center justify-between print:hidden">
+        <Link href={`/scouting/${teamId}`} className="text-sm text-gray-500 hover:text-gray-300 transition-colors">
+          ← Scouting report
+        </Link>
+        <PrintButton />
+      </div>
+
+      {/* Header */}
+      <div className="mb-6 border-b border-gray-800 pb-4 print:border-gray-300">
+        <p className="text-xs font-medium uppercase tracking-wide text-gray-500 print:text-gray-600">Pre-Match Briefing</p>
+        <h1 className="mt-1 text-2xl font-bold text-white print:text-black">
+          {fixture
+            ? (fixture.home_team_id === us.id ? `${us.name} vs ${report.opponentTeamName}` : `${report.opponentTeamName} vs ${us.name}`)
+            : `${us.name} vs ${report.opponentTeamName}`}
+        </h1>
+        {fixture && <p className="mt-1 text-sm text-gray-400 print:text-gray-700">{formatDate(fixture.scheduled_time)}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 print:gap-4">
+        {/* Head to head */}
+        <Section title="Head to Head">
+          {h2h.matches.length === 0 ? (
+            <p className="text-sm italic text-gray-500">First meeting.</p>
+          ) : (
+            <>
+              <p className="text-lg font-semibold text-gray-200 print:text-black">
+                {h2h.wins}W · {h2h.draws}D · {h2h.losses}L
+              </p>
+              <ul className="mt-1 space-y-0.5 text-sm text-gray-400 print:text-gray-800">
+                {recent.map(m => {
+                  const isHome = m.home_team_id === us.id
+                  const ours = isHome ? m.home_score! : m.away_score!
+                  const theirs = isHome ? m.away_score! : m.home_score!
+                  const result = ours > theirs ? 'W' : ours < theirs ? 'L' : 'D'
+                  return (
+                    <li key={m.id}>
+                      <span className="inline-block w-5 font-semibold">{result}</span>
+                      {ours}–{theirs} {isHome ? 'home' : 'away'} · {new Date(m.scheduled_time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </li>
+                  )
+                })}
+              </ul>
+            </>
+          )}
+        </Section>
+
+        {/* Form across all matches */}
+        <Section title={`Their Form (${report.matchesAnalysed} matches)`}>
+          <p className="text-sm text-gray-300 print:text-black">
+            Scores {report.avgGoalsScored.toFixed(2)} · concedes {report.avgGoalsConceded.toFixed(2)} per match
+          </p>
+          <p className="mt-2 text-sm font-semibold text-gray-200 print:text-black">{fade.label}</p>
+          <p className="text-xs text-gray-500 print:text-gray-700">{fade.detail}</p>
+        </Section>
+
+        {/* Top threats */}
+        <Section title="Top Threats">
+          {topScorers.length === 0 && !report.topTackler ? (
+            <p className="text-sm italic text-gray-500">No player data yet.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {topScorers.map(p => (
+                <li key={p.player_id} className="text-gray-300 print:text-black">
+                  <span className="font-medium">{p.player_name}</span>
+                  <span className="ml-2 text-xs text-gray-500 print:text-gray-700">
+                    {Number(p.avg_goals_per_match).toFixed(2)} goals/match
+                    {p.career_shot_conversion !== null && ` · ${(Number(p.career_shot_conversion) * 100).toFixed(0)}% conversion`}
+                  </span>
+                </li>
+              ))}
+              {report.topTackler && (
+                <li className="text-gray-300 print:text-black">
+                  <span className="font-medium">{report.topTackler.playerName}</span>
+                  <span className="ml-2 text-xs text-gray-500 print:text-gray-700">
+                    top tackler · {report.topTackler.avgTackles.toFixed(2)}/match
+                  </span>
+                </li>
+              )}
+            </ul>
+          )}
+        </Section>
+
+        {/* Foul-prone tacklers */}
+        <Section title="Foul-Prone Tacklers">
+          {report.highFoulRiskPlayers.length === 0 ? (
+            <p className="text-sm italic text-gray-500">Nobody above {(FOUL_RISK_RATE * 100).toFixed(0)}% fouls per tackle.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {report.highFoulRiskPlayers.map(p => (
+                <li key={p.playerId} className="text-gray-300 print:text-black">
+                  <span className="font-medium">{p.playerName}</span>
+                  <span className="ml-2 text-xs text-gray-500 print:text-gray-700">{(p.foulRate * 100).toFixed(0)}% fouls per tackle</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      </div>
+
+      <p className="mt-8 text-xs text-gray-600 print:text-gray-500">
+        Generated {new Date().toLocaleString('en-US')} from all stored {report.opponentTeamName} matches.
+      </p>
+    </div>
+  )
+}
@@ -1,56 +1,63 @@
 /**
  * Opponent Scouting Page
  *
- * Shows opponent performance in all matches they've played against DS.
- * Includes H2H record, top performers, and match history.
+ * Scouting report built from every stored match the opponent has played
+ * (src/lib/analytics/scouting.ts) and each player's tackle discipline
+ * (src/lib/analytics/discipline.ts), then their performance in matches
+ * against the active tracked team: H2H record, top performers, and
+ * match history.
  */
 
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
-import { createServerClient } from '@/lib/supabase/client'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
+import { getActiveTeam } from '@/lib/teams'
+import { getHeadToHead, getScoutingReport } from '@/lib/supabase/scouting-report'
+import { FADE_PATTERN_LABELS, FOUL_RISK_RATE } from '@/lib/analytics/scouting'
+import { FOUL_SEVERITIES } from '@/lib/analytics/discipline'
+import { getTeamDiscipline, loadDisciplineModel } from '@/lib/supabase/discipline'
+import type { MatchScoutingReport } from '@/types'
 
 export const dynamic = 'force-dynamic'
 
-const DS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
-
 function formatDate(dateStr: string) {
   return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
 }
 
+const FADE_STYLES: Record<MatchScoutingReport['energyFadePattern'], string> = {
+  early:      'text-emerald-400',
+  mid:        'text-yellow-400',
+  late:       'text-orange-400',
+  consistent: 'text-red-400',
+  unknown:    'text-gray-500',
+}
+
+function ReportCard({ label, value, detail }: { label: string; value: React.ReactNode; detail?: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border border-gray-800 bg-gray-900 px-4 py-3">
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">{label}</p>
+      <div className="mt-1 text-sm font-semibold text-gray-200">{value}</div>
+      {detail && <p className="mt-0.5 text-xs text-gray-600">{detail}</p>}
+    </div>
+  )
+}
+
 export default async function ScoutingPage({ params }: { params: Promise<{ teamId: string }> }) {
+  await requireRole()
   const { teamId } = await params
-  const db = createServerClient()
-
-  // Team info
-  const { data: team } = await db.from('teams').select('id, name').eq('id', teamId).maybeSingle()
-  if (!team) notFound()
-
-  // All DS matches against this team
-  const { data: matchesRaw } = await db
-    .from('matches')
-    .select('id, scheduled_time, home_team_id, away_team_id, home_score, away_score, replay_fetched, status')
-    .eq('involves_deadly_sins', true)
-    .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
-    .order('scheduled_time', { ascending: false })
-
-  const matches = (matchesRaw ?? []).filter(
-    m => m.home_team_id === DS_TEAM_ID || m.away_team_id === DS_TEAM_ID
-  ).filter(
-    m => m.home_team_id === teamId || m.away_team_id === teamId
-  )
+  const db = await createUserClient()
+  const us = await getActiveTeam()
 
-  // H2H record
-  let wins = 0, losses = 0, draws = 0
-  for (const m of matches) {
-    const isHome = m.home_team_id === DS_TEAM_ID
-    const dsScore = isHome ? m.home_score : m.away_score
-    const oppScore = isHome ? m.away_score : m.home_score
-    if (dsScore !== null && oppScore !== null) {
-      if (dsScore > oppScore) wins++
-      else if (dsScore < oppScore) losses++
-      else draws++
-    }
-  }
+  // Full report across all their matches; null when the team isn't stored
+  const [report, disciplineModel] = await Promise.all([getScoutingReport(db, teamId), loadDisciplineModel(db)])
+  if (!report) notFound()
+  const discipline = await getTeamDiscipline(db, teamId, disciplineModel)
+  const team = { id: report.opponentTeamId, name: report.opponentTeamName }
+  const fade = FADE_PATTERN_LABELS[report.energyFadePattern]
+
+  // All of our matches against this team
+  const { matches, wins, draws, losses } = await getHeadToHead(db, teamId, us.id)
 
   // Opponent player stats across those matches (replayed matches only)
   const replayedIds = matches.filter(m => m.replay_fetched).map(m => m.id)
@@ -105,7 +112,10 @@ export default async function ScoutingPage({ params }: { params: Promise<{ teamI
       <div className="mt-4 mb-8 flex items-start justify-between gap-4">
         <div>
           <h1 className="text-2xl font-bold text-white">{team.name}</h1>
-          <p className="mt-1 text-sm text-gray-500">Scouting report — {matches.length} match{matches.length !== 1 ? 'es' : ''} vs Deadly Sins</p>
+          <p className="mt-1 text-sm text-gray-500">Scouting report — {matches.length} match{matches.length !== 1 ? 'es' : ''} vs {us.name}</p>
+          <Link href={`/scouting/${teamId}/briefing`} className="mt-1 inline-block text-xs text-gray-600 hover:text-gray-400 transition-colors">
+            Print briefing →
+          </Link>
         </div>
         {matches.length > 0 && (
           <div className="flex gap-3 text-sm shrink-0">
@@ -116,9 +126,93 @@ export default async function ScoutingPage({ params }: { params: Promise<{ teamI
         )}
       </div>
 
+      {/* Full report — every stored match they've played */}
+      <section className="mb-8">
+        <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">
+          Across All Matches ({report.matchesAnalysed})
+        </h2>
+        <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+          <ReportCard
+            label="Goals / Match"
+            value={<>{report.avgGoalsScored.toFixed(2)} <span className="text-gray-500 font-normal">for</span> · {report.avgGoalsConceded.toFixed(2)} <span className="text-gray-500 font-normal">against</span></>}
+          />
+          <ReportCard
+            label="Top Scorer"
+            value={report.topScorer?.playerName ?? '—'}
+            detail={report.topScorer && `${report.topScorer.avgGoals.toFixed(2)} goals / match`}
+          />
+          <ReportCard
+            label="Top Tackler"
+            value={report.topTackler?.playerName ?? '—'}
+            detail={report.topTackler && `${report.topTackler.avgTackles.toFixed(2)} tackles / match`}
+          />
+          <ReportCard
+            label="Energy Fade"
+            value={<span className={FADE_STYLES[report.energyFadePattern]}>{fade.label}</span>}
+            detail={fade.detail}
+          />
+        </div>
+        {report.highFoulRiskPlayers.length > 0 && (
+          <div className="mt-3 rounded-lg border border-gray-800 bg-gray-900 px-4 py-3">
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">High Foul Risk</p>
+            <div className="mt-1.5 flex flex-wrap gap-2">
+              {report.highFoulRiskPlayers.map(p => (
+                <span key={p.playerId} className="rounded-full bg-red-950 px-2.5 py-0.5 text-xs text-red-300">
+                  {p.playerName} · {(p.foulRate * 100).toFixed(0)}%
+                </span>
+              ))}
+            </div>
+            <p className="mt-1.5 text-xs text-gray-600">Career fouls ÷ tackles above {(FOUL_RISK_RATE * 100).toFixed(0)}%.</p>
+          </div>
+        )}
+      </section>
+
+      {/* Discipline — who to send after their risky tacklers */}
+      {discipline.length > 0 && (
+        <section className="mb-8">
+          <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Tackle Discipline</h2>
+          <div className="rounded-lg border border-gray-800 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-800 bg-gray-900">
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wide">Player</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Tackles</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Aggr.</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Light · Normal · Heavy</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Penalty / Match</th>
+                  <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wide">Served</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {discipline.map(({ playerId, playerName, discipline: d }) => (
+                  <tr key={playerId} className="bg-gray-950">
+                    <td className="px-4 py-2.5 text-gray-300">{playerName}</td>
+                    <td className="px-4 py-2.5 text-center text-gray-400">{d.tackles}</td>
+                    <td className="px-4 py-2.5 text-center text-gray-400">{d.avgAggression ?? '—'}</td>
+                    <td className="px-4 py-2.5 text-center text-gray-400">
+                      {FOUL_SEVERITIES.map(s => `${(d.chances[s] * 100).toFixed(0)}%`).join(' · ')}
+                    </td>
+                    <td className="px-4 py-2.5 text-center">
+                      <span className={(d.expectedPenaltyPerMatch ?? 0) >= 1 ? 'text-red-400 font-medium' : 'text-gray-300'}>
+                        {d.expectedPenaltyPerMatch?.toFixed(2) ?? '—'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2.5 text-center text-gray-400">{d.penaltyTurns}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-1.5 text-xs text-gray-600">
+            Chance of each foul per tackle at the player&apos;s average aggression; penalty / match = expected turns
+            spent serving penalties. Players near the top are the ones to run at. Served = penalty turns actually served.
+          </p>
+        </section>
+      )}
+
       {matches.length === 0 ? (
         <div className="rounded-lg border border-gray-800 bg-gray-900 px-6 py-10 text-center">
-          <p className="text-gray-500 text-sm">No DS matches found against {team.name}.</p>
+          <p className="text-gray-500 text-sm">No {us.shortName} matches found against {team.name}.</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 gap-8 lg:grid-cols-3">
@@ -127,7 +221,7 @@ export default async function ScoutingPage({ params }: { params: Promise<{ teamI
             {opponentStats.length > 0 ? (
               <>
                 <section>
-                  <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Top Scorers vs DS</h2>
+                  <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Top Scorers vs {us.shortName}</h2>
                   <div className="rounded-lg border border-gray-800 overflow-hidden">
                     <table className="w-full text-sm">
                       <thead>
@@ -197,13 +291,13 @@ export default async function ScoutingPage({ params }: { params: Promise<{ teamI
             <h2 className="mb-4 text-sm font-semibold uppercase tracking-widest text-gray-500">Match History</h2>
             <div className="space-y-2">
               {matches.map(m => {
-                const isHome = m.home_team_id === DS_TEAM_ID
-                const dsScore = isHome ? m.home_score : m.away_score
+                const isHome = m.home_team_id === us.id
+                const ourScore = isHome ? m.home_score : m.away_score
                 const oppScore = isHome ? m.away_score : m.home_score
                 let label = '—'; let color = 'text-gray-400'
-                if (dsScore !== null && oppScore !== null) {
-                  if (dsScore > oppScore) { label = 'W'; color = 'text-emerald-400' }
-                  else if (dsScore < oppScore) { label = 'L'; color = 'text-red-400' }
+                if (ourScore !== null && oppScore !== null) {
+                  if (ourScore > oppScore) { label = 'W'; color = 'text-emerald-400' }
+                  else if (ourScore < oppScore) { label = 'L'; color = 'text-red-400' }
                   else { label = 'D'; color = 'text-yellow-400' }
                 }
                 return (
@@ -215,8 +309,8 @@ export default async function ScoutingPage({ params }: { params: Promise<{ teamI
                     </div>
                     <div className="text-right">
                       <span className={`font-bold ${color}`}>{label}</span>
-                      {dsScore !== null && oppScore !== null && (
-                        <p className="text-xs text-gray-500">{isHome ? `${dsScore}–${oppScore}` : `${oppScore}–${dsScore}`}</p>
+                      {ourScore !== null && oppScore !== null && (
+                        <p className="text-xs text-gray-500">{isHome ? `${ourScore}–${oppScore}` : `${oppScore}–${ourScore}`}</p>
                       )}
                     </div>
                   </Link>
@@ -3,12 +3,12 @@
  */
 
 import Link from 'next/link'
-import { createServerClient } from '@/lib/supabase/client'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { requireRole } from '@/lib/auth'
+import { getActiveTeam } from '@/lib/teams'
 
 export const dynamic = 'force-dynamic'
 
-const DS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
-
 function formatDate(dateStr: string) {
   return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
 }
@@ -18,6 +18,7 @@ export default async function SearchPage({
 }: {
   searchParams: Promise<{ q?: string }>
 }) {
+  await requireRole()
   const { q } = await searchParams
   const query = (q ?? '').trim()
 
@@ -38,13 +39,15 @@ export default async function SearchPage({
     )
   }
 
-  const db = createServerClient()
+  const db = await createUserClient()
+  const us = await getActiveTeam()
+  const ourMatches = `home_team_id.eq.${us.id},away_team_id.eq.${us.id}`
 
   const [playersResult, teamsResult] = await Promise.all([
     db
       .from('player_career_stats')
       .select('player_id, player_name, matches_played, total_goals, team_id')
-      .eq('team_id', DS_TEAM_ID)
+      .eq('team_id', us.id)
       .ilike('player_name', `%${query}%`)
       .limit(10),
     db
@@ -67,14 +70,14 @@ export default async function SearchPage({
       .from('matches')
       .select('id, scheduled_time, home_team_id, away_team_id, home_score, away_score')
       .in('home_team_id', matchTeamIds)
-      .eq('involves_deadly_sins', true)
+      .or(ourMatches)
       .order('scheduled_time', { ascending: false })
       .limit(10)
     const { data: awayMatches } = await db
       .from('matches')
       .select('id, scheduled_time, home_team_id, away_team_id, home_score, away_score')
       .in('away_team_id', matchTeamIds)
-      .eq('involves_deadly_sins', true)
+      .or(ourMatches)
       .order('scheduled_time', { ascending: false })
       .limit(10)
 
@@ -87,7 +90,6 @@ export default async function SearchPage({
   }
 
   const totalResults = players.length + matches.length
-  const dsTeamName = 'Deadly Sins'
 
   return (
     <div className="mx-auto max-w-3xl px-4 py-8">
@@ -122,7 +124,7 @@ export default async function SearchPage({
               >
                 <div>
                   <p className="text-sm font-medium text-gray-200">{p.player_name}</p>
-                  <p className="text-xs text-gray-500 mt-0.5">Deadly Sins · {p.matches_played} matches</p>
+                  <p className="text-xs text-gray-500 mt-0.5">{us.name} · {p.matches_played} matches</p>
                 </div>
                 <span className="text-xs text-gray-600">{p.total_goals ?? 0} goals →</span>
               </Link>
@@ -137,17 +139,17 @@ export default async function SearchPage({
           <h2 className="mb-3 text-sm font-semibold uppercase tracking-widest text-gray-500">Matches</h2>
           <div className="rounded-lg border border-gray-800 overflow-hidden">
             {matches.map((m) => {
-              const isHome = m.home_team_id === DS_TEAM_ID
+              const isHome = m.home_team_id === us.id
               const oppId = isHome ? m.away_team_id : m.home_team_id
               const oppName = teamNames[oppId] ?? 'Unknown'
-              const dsScore = isHome ? m.home_score : m.away_score
+              const ourScore = isHome ? m.home_score : m.away_score
               const oppScore = isHome ? m.away_score : m.home_score
 
               let resultColor = 'text-gray-400'
               let resultLabel = '—'
-              if (dsScore !== null && oppScore !== null) {
-                if (dsScore > oppScore) { resultColor = 'text-emerald-400'; resultLabel = 'W' }
-                else if (dsScore < oppScore) { resultColor = 'text-red-400'; resultLabel = 'L' }
+              if (ourScore !== null && oppScore !== null) {
+                if (ourScore > oppScore) { resultColor = 'text-emerald-400'; resultLabel = 'W' }
+                else if (ourScore < oppScore) { resultColor = 'text-red-400'; resultLabel = 'L' }
                 else { resultColor = 'text-yellow-400'; resultLabel = 'D' }
               }
 
@@ -159,15 +161,15 @@ export default async function SearchPage({
                 >
                   <div>
                     <p className="text-sm font-medium text-gray-200">
-                      {dsTeamName} {isHome ? 'vs' : '@'} {oppName}
+                      {us.name} {isHome ? 'vs' : '@'} {oppName}
                     </p>
                     <p className="text-xs text-gray-500 mt-0.5">{formatDate(m.scheduled_time)}</p>
                   </div>
                   <div className="text-right">
                     <span className={`font-bold text-sm ${resultColor}`}>{resultLabel}</span>
-                    {dsScore !== null && oppScore !== null && (
+                    {ourScore !== null && oppScore !== null && (
                       <span className="ml-1 text-xs text-gray-500">
-                        {isHome ? `${dsScore}–${oppScore}` : `${oppScore}–${dsScore}`}
+                        {isHome ? `${ourScore}–${oppScore}` : `${oppScore}–${ourScore}`}
                       </span>
                     )}
                   </div>
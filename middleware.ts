@@ -0,0 +1,46 @@
+/**
+ * Session middleware
+ *
+ * Refreshes the Supabase Auth session cookie on every page request
+ * (server components can't write cookies) and sends signed-out
+ * visitors to /login. /api routes authenticate with CRON_SECRET
+ * instead and are left alone.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { createServerClient as createSsrClient } from '@supabase/ssr'
+
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request })
+
+  const db = createSsrClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: (toSet) => {
+          for (const { name, value } of toSet) request.cookies.set(name, value)
+          response = NextResponse.next({ request })
+          for (const { name, value, options } of toSet) response.cookies.set(name, value, options)
+        },
+      },
+    }
+  )
+
+  // Must run before anything else reads the session — this is what refreshes it
+  const { data: { user } } = await db.auth.getUser()
+
+  if (!user && request.nextUrl.pathname !== '/login') {
+    const loginUrl = request.nextUrl.clone()
+    loginUrl.pathname = '/login'
+    loginUrl.search = ''
+    return NextResponse.redirect(loginUrl)
+  }
+
+  return response
+}
+
+export const config = {
+  matcher: ['/((?!api/|_next/static|_next/image|favicon.ico).*)'],
+}
@@ -4,12 +4,29 @@
  * Usage:
  *   npm run sync:manual                    # Full sync
  *   npm run sync:manual -- --match=MATCH_ID  # Single match replay
+ *   npm run sync:manual -- --backfill [--from=YYYY-MM-DD] [--to=YYYY-MM-DD] [--competition=ID]
+ *                                          # Store every completed match in range, then fetch their replays
+ *   npm run sync:manual -- --reingest-events # Re-fetch matches stored before event seq numbers
+ *   npm run sync:manual -- --rederive        # Rebuild derived tables from archived replays (no API)
+ *   npm run sync:manual -- --rederive=MATCH_ID
+ *   npm run sync:manual -- --refit-models    # Refit the analytics models on stored replays (no API)
  *
  * Example:
  *   npm run sync:manual -- --match=match-abc123
+ *   npm run sync:manual -- --backfill --from=2025-01-01 --to=2025-03-31
+ *
+ * Backfill is resumable — matches are re-listed on every run and progress is
+ * kept in the replay_jobs queue, so re-running with the same filters
+ * continues where it stopped.
+ *
+ * Every mode that stores replays refits the analytics models afterwards.
  */
 
 import { syncMatches, syncMatchReplay } from '../src/workers/sync'
+import { processReplayQueue } from '../src/workers/replay-queue'
+import { runBackfill, runEventReingest, type BackfillProgress } from '../src/workers/backfill'
+import { rederiveMatches } from '../src/workers/rederive'
+import { refitModels } from '../src/workers/models'
 import { getRateLimitStatus } from '../src/lib/shockball/client'
 
 // Load .env.local
@@ -18,25 +35,103 @@ config({ path: '.env.local', override: true })
 
 const args = process.argv.slice(2)
 const matchArg = args.find(a => a.startsWith('--match='))
+const getArg = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1]
+
+function printProgress(p: BackfillProgress) {
+  const pctDone = p.total > 0 ? Math.round((p.done / p.total) * 100) : 100
+  console.log(
+    `  [${p.done}/${p.total}] ${pctDone}% · ${p.pending} remaining · ${p.dead} failed · ` +
+    `${p.rateLimitRemaining} API requests left`
+  )
+}
+
+async function refit() {
+  console.log('\n🏐 Refitting analytics models...\n')
+  const { refitted, errors } = await refitModels()
+  console.log(`  Refitted: ${refitted.join(', ') || 'none'}`)
+  if (errors > 0) console.log(`  Failed:   ${errors} (see log above)`)
+}
 
 async function main() {
-  if (matchArg) {
+  if (args.includes('--refit-models')) {
+    await refit()
+    return
+  } else if (args.includes('--backfill')) {
+    const options = {
+      from: getArg('from'),
+      to: getArg('to'),
+      competitionId: getArg('competition'),
+    }
+    if (!options.from && !options.to && !options.competitionId) {
+      throw new Error('--backfill needs at least one of --from, --to or --competition')
+    }
+
+    console.log('\n🏐 Backfilling replays:', options, '\n')
+    const progress = await runBackfill(options, printProgress)
+
+    console.log('\nBackfill complete:')
+    console.log(`  Matches in range:  ${progress.total}`)
+    console.log(`  With replay data:  ${progress.done}`)
+    console.log(`  Failed (see admin): ${progress.dead}`)
+    console.log(`  Still missing:     ${progress.pending}`)
+    await refit()
+  } else if (args.some(a => a === '--rederive' || a.startsWith('--rederive='))) {
+    const matchId = getArg('rederive')
+    console.log(`\n🏐 Re-deriving ${matchId ? `match ${matchId}` : 'all archived matches'} from the replay archive...\n`)
+    const progress = await rederiveMatches(matchId ? [matchId] : undefined, (p, id) => {
+      const handled = p.rebuilt + p.missing + p.failed
+      if (handled % 25 === 0 || handled === p.total) {
+        console.log(`  [${handled}/${p.total}] last: ${id}`)
+      }
+    })
+
+    console.log('\nRe-derive complete:')
+    console.log(`  Rebuilt:          ${progress.rebuilt}`)
+    console.log(`  Not in archive:   ${progress.missing}`)
+    console.log(`  Failed:           ${progress.failed}`)
+    if (progress.rebuilt > 0) await refit()
+    // No API calls were made, so skip the rate-limit report
+    return
+  } else if (args.includes('--reingest-events')) {
+    console.log('\n🏐 Re-ingesting matches stored before per-event sequence numbers...\n')
+    const progress = await runEventReingest(printProgress)
+
+    console.log('\nRe-ingest complete:')
+    console.log(`  Matches flagged:    ${progress.total}`)
+    console.log(`  Re-ingested:        ${progress.done}`)
+    console.log(`  Failed (see admin): ${progress.dead}`)
+    console.log(`  Still flagged:      ${progress.pending}`)
+    await refit()
+  } else if (matchArg) {
     const matchId = matchArg.split('=')[1]
     console.log(`\n🏐 Fetching replay for match: ${matchId}\n`)
     const result = await syncMatchReplay(matchId)
     console.log('Result:', result)
+    if (result.success && !result.notModified) await refit()
   } else {
     console.log('\n🏐 Running full match sync...\n')
     const results = await syncMatches()
     console.log('\nSync complete:')
     console.log(`  Upcoming matches synced: ${results.upcoming}`)
     console.log(`  Recent matches synced:   ${results.recent}`)
-    console.log(`  Replays fetched:         ${results.replaysQueued}`)
+    console.log(`  Replays queued:          ${results.replaysQueued}`)
+    console.log(`  Scouting replays queued: ${results.scoutingQueued}`)
+    console.log(`  Quarantined (invalid):   ${results.quarantined}`)
     console.log(`  Errors:                  ${results.errors}`)
+
+    // No serverless timeout here, so give the queue a generous budget
+    console.log('\n🏐 Processing replay queue...\n')
+    const queue = await processReplayQueue({ timeBudgetMs: 10 * 60_000 })
+    console.log('Replay queue:')
+    console.log(`  Fetched:        ${queue.succeeded}`)
+    console.log(`  Retrying later: ${queue.retrying}`)
+    console.log(`  Dead-lettered:  ${queue.deadLettered}`)
+    if (queue.deferred > 0) console.log('  Paused — rate-limit budget reached')
+    if (queue.succeeded > 0) await refit()
   }
 
-  const rl = getRateLimitStatus()
-  console.log(`\n📊 Rate limit: ${rl.remaining}/100 remaining (resets ${rl.resetsAt})`)
+  const rl = await getRateLimitStatus()
+  console.log(`\n📊 Rate limit: ${rl.remaining}/100 remaining (resets ${rl.resetsAt ?? 'unknown'})`)
 
   if (rl.isLow) {
     console.warn('⚠️  Rate limit is low — consider waiting before running again')
@@ -0,0 +1,49 @@
+/**
+ * Run the offline Shockball API stub (see scripts/stub-api/server.ts)
+ *
+ * Usage:
+ *   npm run stub:api
+ *   npm run stub:api -- --port=4010 --page-size=5
+ *   npm run stub:api -- --malformed-match=stub-match-03 --malformed-replay=stub-match-12
+ *   npm run stub:api -- --rate-limit-next=2 --invalid-json=recent
+ *
+ * Then point the app or scripts at it, e.g. in .env.local:
+ *   SHOCKBALL_API_BASE_URL=http://127.0.0.1:4010/api/v1/data
+ *   SHOCKBALL_API_KEY=stub     # any value — the stub only checks it is sent
+ */
+
+import { startStubApi, type StubEndpoint } from './stub-api/server'
+
+const args = process.argv.slice(2)
+const getArg = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1]
+const getList = (name: string) => getArg(name)?.split(',').filter(Boolean) ?? []
+
+async function main() {
+  const stub = await startStubApi({
+    port: parseInt(getArg('port') ?? '4010', 10),
+    scenario: {
+      ...(getArg('page-size') ? { pageSize: parseInt(getArg('page-size')!, 10) } : {}),
+      rateLimitNext: parseInt(getArg('rate-limit-next') ?? '0', 10),
+      malformedMatchIds: getList('malformed-match'),
+      malformedReplayIds: getList('malformed-replay'),
+      invalidJson: getList('invalid-json') as StubEndpoint[],
+    },
+  })
+
+  const completed = Object.keys(stub.fixtures.replays)
+  console.log(`\n🏐 Shockball API stub listening on ${stub.url}`)
+  console.log(`   SHOCKBALL_API_BASE_URL=${stub.baseUrl}`)
+  console.log(`   ${stub.fixtures.upcoming.length} upcoming, ${stub.fixtures.recent.length} recent matches`)
+  console.log(`   Replays: ${completed[0]} … ${completed[completed.length - 1]}\n`)
+
+  const shutdown = () => {
+    stub.close().finally(() => process.exit(0))
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch(err => {
+  console.error('Stub API failed to start:', err)
+  process.exit(1)
+})
@@ -0,0 +1,205 @@
+/**
+ * Stub API fixtures
+ *
+ * Deterministic fixture data for the offline Shockball API stub: a small
+ * league of six teams including Deadly Sins, completed matches with full
+ * replays, and upcoming fixtures. Generated from a seeded PRNG so every
+ * run (and every test) sees the same matches, scores and events.
+ *
+ * Times are relative to `anchor` (rounded to the hour) so upcoming
+ * fixtures are always in the future and recent ones in the past.
+ */
+
+import type {
+  ApiMatch,
+  ApiTeam,
+  ApiReplayData,
+  ApiGameEvent,
+  ApiPlayerStats,
+  ApiCompetition,
+} from '../../src/types'
+
+export const DS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
+
+const PLAYERS_PER_SIDE = 5
+const TURNS = 40
+
+export interface StubFixtures {
+  teams: ApiTeam[]
+  upcoming: ApiMatch[]
+  recent: ApiMatch[]
+  replays: Record<string, ApiReplayData>
+}
+
+// mulberry32 — small, fast and good enough for fixture data
+function seededRandom(seed: number) {
+  let a = seed
+  return () => {
+    a |= 0
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const TEAMS: ApiTeam[] = [
+  { id: DS_TEAM_ID, name: 'Deadly Sins', venue: 'The Pit' },
+  { id: 'stub-team-vipers', name: 'Vipers', venue: 'Viper Dome' },
+  { id: 'stub-team-comets', name: 'Comets', venue: 'Comet Field' },
+  { id: 'stub-team-wardens', name: 'Wardens', venue: 'The Keep' },
+  { id: 'stub-team-rangers', name: 'Rangers' },
+  { id: 'stub-team-titans', name: 'Titans' },
+]
+
+const COMPETITION: ApiCompetition = {
+  id: 'stub-competition-league',
+  name: 'Stub League',
+  type: 'LEAGUE',
+  status: 'ACTIVE',
+  season: 1,
+}
+
+// [home, away, hours from anchor] — negative = already played
+const SCHEDULE: Array<[number, number, number]> = [
+  [0, 1, -24 * 14], [2, 0, -24 * 12], [3, 4, -24 * 11], [0, 3, -24 * 10],
+  [1, 2, -24 * 9], [4, 0, -24 * 7], [5, 1, -24 * 6], [0, 5, -24 * 5],
+  [2, 3, -24 * 4], [1, 4, -24 * 3], [3, 5, -24 * 2], [0, 2, -24],
+  // upcoming
+  [1, 0, 24], [0, 4, 24 * 3], [3, 0, 24 * 5], [2, 5, 24 * 2],
+]
+
+function playerIds(team: ApiTeam) {
+  return Array.from({ length: PLAYERS_PER_SIDE }, (_, i) => ({
+    playerId: `${team.id}-p${i + 1}`,
+    playerName: `${team.name} Player ${i + 1}`,
+  }))
+}
+
+function buildReplay(match: ApiMatch, rand: () => number): ApiReplayData {
+  const sides = [
+    { team: match.homeTeam, players: playerIds(match.homeTeam) },
+    { team: match.awayTeam, players: playerIds(match.awayTeam) },
+  ]
+  const stats = new Map<string, ApiPlayerStats>()
+  for (const side of sides) {
+    for (const p of side.players) {
+      stats.set(p.playerId, {
+        ...p, shots: 0, goals: 0, passes: 0, tackles: 0, blocks: 0, fouls: 0, wasInjured: false,
+      })
+    }
+  }
+
+  const energy: Record<string, number> = {}
+  for (const id of stats.keys()) energy[id] = 90 + Math.floor(rand() * 11)
+
+  const score = [0, 0]
+  const events: ApiGameEvent[] = []
+  const push = (turn: number, type: string, description: string, players: string[], context?: ApiGameEvent['context']) =>
+    events.push({ turn, type, description, playersInvolved: players, homeScore: score[0], awayScore: score[1], context })
+
+  push(0, 'MATCH_START', `${match.homeTeam.name} vs ${match.awayTeam.name}`, [], { initialEnergy: { ...energy } })
+
+  for (let turn = 1; turn <= TURNS; turn++) {
+    const attacking = rand() < 0.5 ? 0 : 1
+    const attackers = sides[attacking].players
+    const defenders = sides[1 - attacking].players
+    const passer = attackers[Math.floor(rand() * attackers.length)].playerId
+    const shooter = attackers[Math.floor(rand() * attackers.length)].playerId
+    const defender = defenders[Math.floor(rand() * defenders.length)].playerId
+
+    // Several events of the same type in one turn — exercises match_events.seq
+    const passes = 1 + Math.floor(rand() * 2)
+    for (let i = 0; i < passes; i++) {
+      stats.get(passer)!.passes++
+      push(turn, 'PASS', 'Pass completed', [passer, shooter], { pass: { outcome: 'completed', distance: Math.round(rand() * 20) } })
+    }
+
+    const roll = rand()
+    if (roll < 0.25) {
+      stats.get(shooter)!.shots++
+      const scored = rand() < 0.4
+      if (scored) {
+        score[attacking]++
+        stats.get(shooter)!.goals++
+        push(turn, 'GOAL', 'Goal!', [shooter], { shot: { outcome: 'goal', distanceToGoal: Math.round(rand() * 15) } })
+      } else {
+        stats.get(defender)!.blocks++
+        push(turn, 'SHOT', 'Shot saved', [shooter, defender], { shot: { outcome: 'save_caught' } })
+      }
+    } else if (roll < 0.45) {
+      stats.get(defender)!.tackles++
+      push(turn, 'TACKLE', 'Tackle', [defender, shooter], { tackle: { tacklerAggression: Math.round(rand() * 100) } })
+      if (rand() < 0.3) {
+        stats.get(defender)!.fouls++
+        push(turn, 'FOUL', 'Foul', [defender], { foul: { severity: rand() < 0.2 ? 'heavy' : 'normal', penaltyDuration: 2 } })
+      }
+    } else if (roll < 0.47 && !stats.get(defender)!.wasInjured) {
+      stats.get(defender)!.wasInjured = true
+      push(turn, 'INJURY', 'Player injured', [defender], { injury: { severity: rand() < 0.3 ? 'SERIOUS' : 'MINOR' } })
+    }
+
+    for (const id of Object.keys(energy)) {
+      energy[id] = Math.max(0, energy[id] - Math.floor(rand() * 5))
+    }
+    push(turn, 'TURN_UPDATE', `Turn ${turn}`, [], { turnEnergy: { ...energy } })
+  }
+
+  push(TURNS, 'MATCH_END', 'Full time', [])
+
+  const [home, away] = sides.map(s => s.players.map(p => stats.get(p.playerId)!))
+  return {
+    success: true,
+    data: {
+      match: {
+        id: match.id,
+        homeTeam: match.homeTeam,
+        awayTeam: match.awayTeam,
+        homeScore: score[0],
+        awayScore: score[1],
+        scheduledTime: match.scheduledTime,
+        simVersion: 'stub-1',
+      },
+      playerStats: { home, away },
+      events,
+    },
+    timestamp: match.scheduledTime,
+  }
+}
+
+export function buildFixtures(anchor = new Date(), seed = 7): StubFixtures {
+  const rand = seededRandom(seed)
+  const hour = 3_600_000
+  const base = Math.floor(anchor.getTime() / hour) * hour
+
+  const upcoming: ApiMatch[] = []
+  const recent: ApiMatch[] = []
+  const replays: Record<string, ApiReplayData> = {}
+
+  SCHEDULE.forEach(([h, a, offsetHours], i) => {
+    const match: ApiMatch = {
+      id: `stub-match-${String(i + 1).padStart(2, '0')}`,
+      scheduledTime: new Date(base + offsetHours * hour).toISOString(),
+      status: offsetHours < 0 ? 'COMPLETED' : 'SCHEDULED',
+      homeTeam: TEAMS[h],
+      awayTeam: TEAMS[a],
+      competition: COMPETITION,
+    }
+
+    if (offsetHours < 0) {
+      const replay = buildReplay(match, rand)
+      match.homeScore = replay.data.match.homeScore
+      match.awayScore = replay.data.match.awayScore
+      replays[match.id] = replay
+      recent.push(match)
+    } else {
+      upcoming.push(match)
+    }
+  })
+
+  // The API lists recent matches newest first, upcoming soonest first
+  recent.reverse()
+  upcoming.sort((x, y) => x.scheduledTime.localeCompare(y.scheduledTime))
+
+  return { teams: TEAMS, upcoming, recent, replays }
+}
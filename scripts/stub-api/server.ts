@@ -0,0 +1,291 @@
+/**
+ * Offline Shockball API stub
+ *
+ * Serves the fixtures from fixtures.ts on the same paths as the real API
+ * (`/api/v1/data/matches/upcoming`, `/matches/recent`,
+ * `/matches/{id}/replay-data`) so the sync worker runs without an API key:
+ *   SHOCKBALL_API_BASE_URL=http://localhost:4010/api/v1/data
+ *
+ * Simulates:
+ * - Last-Modified / If-Modified-Since → 304 (free, like the real API)
+ * - X-RateLimit-Remaining / X-RateLimit-Reset headers and 429 + Retry-After
+ * - Pagination via limit/offset/hasMore (pageSize caps the page length)
+ * - Malformed matches, malformed replays and non-JSON bodies
+ *
+ * The scenario can be changed while running, in-process via the returned
+ * handle or over HTTP:
+ *   GET  /__stub/requests   request log
+ *   POST /__stub/scenario   merge a JSON StubScenario
+ *   POST /__stub/touch      bump the list Last-Modified (next poll is a 200)
+ *   POST /__stub/reset      default scenario, full budget, empty log
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { ApiMatch } from '../../src/types'
+import { buildFixtures, type StubFixtures } from './fixtures'
+
+const API_PREFIX = '/api/v1/data'
+const HOURLY_LIMIT = 100
+
+export type StubEndpoint = 'upcoming' | 'recent' | 'replay'
+
+export interface StubScenario {
+  pageSize: number                 // max matches per page, whatever ?limit says
+  rateLimitNext: number            // answer the next N data requests with 429
+  retryAfterSeconds: number
+  malformedMatchIds: string[]      // served with broken fields in list pages
+  malformedReplayIds: string[]     // replay has out-of-range energy values
+  invalidJson: StubEndpoint[]      // endpoints answering with a truncated body
+}
+
+export interface StubRequestLogEntry {
+  method: string
+  path: string
+  status: number
+  ifModifiedSince: string | null
+}
+
+export interface StubApi {
+  url: string              // http://host:port
+  baseUrl: string          // url + /api/v1/data — use as SHOCKBALL_API_BASE_URL
+  fixtures: StubFixtures
+  requests: StubRequestLogEntry[]
+  setScenario(changes: Partial<StubScenario>): StubScenario
+  touch(): void
+  reset(): void
+  close(): Promise<void>
+}
+
+const DEFAULT_SCENARIO: StubScenario = {
+  pageSize: 100,
+  rateLimitNext: 0,
+  retryAfterSeconds: 1,
+  malformedMatchIds: [],
+  malformedReplayIds: [],
+  invalidJson: [],
+}
+
+// ============================================================
+// Response helpers
+// ============================================================
+
+function httpDate(ms: number) {
+  return new Date(Math.floor(ms / 1000) * 1000).toUTCString()
+}
+
+function send(res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) {
+  const payload = body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body)
+  res.writeHead(status, {
+    ...(payload ? { 'Content-Type': 'application/json' } : {}),
+    ...headers,
+  })
+  res.end(payload)
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  const text = Buffer.concat(chunks).toString('utf8')
+  return text ? JSON.parse(text) : {}
+}
+
+function breakMatch(match: ApiMatch): unknown {
+  return { ...match, status: 'POSTPONED', homeTeam: { id: match.homeTeam.id } }
+}
+
+// ============================================================
+// Server
+// ============================================================
+
+export async function startStubApi(
+  options: { port?: number; anchor?: Date; scenario?: Partial<StubScenario> } = {}
+): Promise<StubApi> {
+  const fixtures = buildFixtures(options.anchor)
+  const startedAt = Date.now()
+
+  let scenario: StubScenario = { ...DEFAULT_SCENARIO, ...options.scenario }
+  let listModifiedAt = startedAt
+  let remaining = HOURLY_LIMIT
+  let windowResetsAt = startedAt + 3_600_000
+  const requests: StubRequestLogEntry[] = []
+
+  function rateLimitHeaders(): Record<string, string> {
+    if (Date.now() >= windowResetsAt) {
+      remaining = HOURLY_LIMIT
+      windowResetsAt = Date.now() + 3_600_000
+    }
+    return {
+      'X-RateLimit-Limit': String(HOURLY_LIMIT),
+      'X-RateLimit-Remaining': String(remaining),
+      'X-RateLimit-Reset': String(Math.floor(windowResetsAt / 1000)),
+    }
+  }
+
+  /**
+   * Shared handling for every data endpoint: auth, 429s, conditional
+   * requests and malformed bodies. `build` is only called for a 200.
+   */
+  function serve(
+    req: IncomingMessage,
+    res: ServerResponse,
+    endpoint: StubEndpoint,
+    modifiedAt: number,
+    build: () => unknown
+  ): number {
+    if (!req.headers['x-api-key']) {
+      send(res, 401, { success: false, error: 'Missing x-api-key header' })
+      return 401
+    }
+
+    const lastModified = httpDate(modifiedAt)
+    const since = req.headers['if-modified-since']
+    if (since && Date.parse(since) >= Date.parse(lastModified)) {
+      // 304s are free on the real API — no budget change
+      send(res, 304, undefined, { ...rateLimitHeaders(), 'Last-Modified': lastModified })
+      return 304
+    }
+
+    if (scenario.rateLimitNext > 0 || remaining <= 0) {
+      if (scenario.rateLimitNext > 0) scenario.rateLimitNext--
+      send(res, 429, { success: false, error: 'Rate limit exceeded' }, {
+        ...rateLimitHeaders(),
+        'Retry-After': String(scenario.retryAfterSeconds),
+      })
+      return 429
+    }
+
+    remaining--
+    const headers = { ...rateLimitHeaders(), 'Last-Modified': lastModified }
+    if (scenario.invalidJson.includes(endpoint)) {
+      send(res, 200, JSON.stringify(build()).slice(0, 40), headers)
+    } else {
+      send(res, 200, build(), headers)
+    }
+    return 200
+  }
+
+  function listPage(url: URL, matches: ApiMatch[]) {
+    const requested = parseInt(url.searchParams.get('limit') ?? '100', 10)
+    const limit = Math.max(1, Math.min(requested, scenario.pageSize))
+    const offset = Math.max(0, parseInt(url.searchParams.get('offset') ?? '0', 10))
+    const type = url.searchParams.get('competitionType')
+
+    const filtered = type ? matches.filter(m => m.competition?.type === type) : matches
+    const page = filtered.slice(offset, offset + limit)
+    return {
+      matches: page.map(m => scenario.malformedMatchIds.includes(m.id) ? breakMatch(m) : m),
+      meta: { total: filtered.length, limit, offset, hasMore: offset + page.length < filtered.length },
+    }
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<number> {
+    const url = new URL(req.url ?? '/', 'http://stub')
+    const path = url.pathname
+
+    // ---- Control endpoints ----
+    if (path === '/__stub/requests') {
+      send(res, 200, requests)
+      return 200
+    }
+    if (path === '/__stub/scenario' && req.method === 'POST') {
+      send(res, 200, api.setScenario((await readJson(req)) as Partial<StubScenario>))
+      return 200
+    }
+    if (path === '/__stub/touch' && req.method === 'POST') {
+      api.touch()
+      send(res, 200, { lastModified: httpDate(listModifiedAt) })
+      return 200
+    }
+    if (path === '/__stub/reset' && req.method === 'POST') {
+      api.reset()
+      send(res, 200, scenario)
+      return 200
+    }
+
+    // ---- Data endpoints ----
+    if (!path.startsWith(API_PREFIX) || req.method !== 'GET') {
+      send(res, 404, { success: false, error: `No stub route for ${req.method} ${path}` })
+      return 404
+    }
+
+    const route = path.slice(API_PREFIX.length)
+    if (route === '/matches/upcoming') {
+      return serve(req, res, 'upcoming', listModifiedAt, () => listPage(url, fixtures.upcoming))
+    }
+    if (route === '/matches/recent') {
+      return serve(req, res, 'recent', listModifiedAt, () => listPage(url, fixtures.recent))
+    }
+
+    const replayMatch = route.match(/^\/matches\/([^/]+)\/replay-data$/)
+    if (replayMatch) {
+      const matchId = decodeURIComponent(replayMatch[1])
+      const replay = fixtures.replays[matchId]
+      if (!replay) {
+        send(res, 404, { success: false, error: `No replay for match ${matchId}` })
+        return 404
+      }
+
+      // Completed matches are immutable: modified once, shortly after kick-off
+      const modifiedAt = Date.parse(replay.data.match.scheduledTime) + 3_600_000
+      return serve(req, res, 'replay', modifiedAt, () => {
+        if (!scenario.malformedReplayIds.includes(matchId)) return replay
+        const broken = structuredClone(replay)
+        const update = broken.data.events.find(e => e.context?.turnEnergy)
+        const firstPlayer = Object.keys(update?.context?.turnEnergy ?? {})[0]
+        if (update?.context?.turnEnergy && firstPlayer) update.context.turnEnergy[firstPlayer] = 140
+        return broken
+      })
+    }
+
+    send(res, 404, { success: false, error: `No stub route for ${route}` })
+    return 404
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res)
+      .then(status => {
+        if (!req.url?.startsWith('/__stub')) {
+          requests.push({
+            method: req.method ?? 'GET',
+            path: req.url ?? '/',
+            status,
+            ifModifiedSince: (req.headers['if-modified-since'] as string | undefined) ?? null,
+          })
+        }
+      })
+      .catch(err => {
+        console.error('[stub-api] Handler error:', err)
+        if (!res.headersSent) send(res, 500, { success: false, error: String(err) })
+      })
+  })
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  const url = `http://127.0.0.1:${port}`
+
+  const api: StubApi = {
+    url,
+    baseUrl: `${url}${API_PREFIX}`,
+    fixtures,
+    requests,
+    setScenario(changes) {
+      scenario = { ...scenario, ...changes }
+      return scenario
+    },
+    touch() {
+      // Last-Modified has one-second resolution
+      listModifiedAt = Math.max(Date.now(), listModifiedAt + 1000)
+    },
+    reset() {
+      scenario = { ...DEFAULT_SCENARIO, ...options.scenario }
+      listModifiedAt = startedAt
+      remaining = HOURLY_LIMIT
+      windowResetsAt = Date.now() + 3_600_000
+      requests.length = 0
+    },
+    close: () => new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  }
+
+  return api
+}
@@ -0,0 +1,25 @@
+'use server'
+
+import { redirect } from 'next/navigation'
+import { revalidatePath } from 'next/cache'
+import { createUserClient } from '@/lib/supabase/user-client'
+
+export async function signIn(formData: FormData): Promise<void> {
+  const email = String(formData.get('email') ?? '').trim()
+  const password = String(formData.get('password') ?? '')
+  if (!email || !password) redirect('/login?error=missing')
+
+  const db = await createUserClient()
+  const { error } = await db.auth.signInWithPassword({ email, password })
+  if (error) redirect('/login?error=invalid')
+
+  revalidatePath('/', 'layout')
+  redirect('/dashboard')
+}
+
+export async function signOut(): Promise<void> {
+  const db = await createUserClient()
+  await db.auth.signOut()
+  revalidatePath('/', 'layout')
+  redirect('/login')
+}
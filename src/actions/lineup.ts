@@ -0,0 +1,59 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { requireRole } from '@/lib/auth'
+import { createUserClient } from '@/lib/supabase/user-client'
+import { getTrackedTeams } from '@/lib/teams'
+import { STARTING_LINEUP_SIZE } from '@/lib/analytics/lineup'
+
+export async function saveLineup(
+  matchId: string,
+  teamId: string,
+  starters: string[],
+  bench: string[]
+): Promise<void> {
+  const user = await requireRole('admin', 'coach')
+
+  const teams = await getTrackedTeams()
+  if (!teams.some(t => t.id === teamId)) throw new Error(`Team ${teamId} is not tracked`)
+  if (starters.length > STARTING_LINEUP_SIZE) {
+    throw new Error(`A lineup has at most ${STARTING_LINEUP_SIZE} starters`)
+  }
+  if (new Set([...starters, ...bench]).size !== starters.length + bench.length) {
+    throw new Error('Each player can appear in the lineup only once')
+  }
+
+  const db = await createUserClient()
+
+  // Only players who have played for the team, and only for its upcoming fixtures
+  const [{ data: match }, { data: roster, error: rosterError }] = await Promise.all([
+    db
+      .from('upcoming_tracked_matches')
+      .select('id')
+      .eq('id', matchId)
+      .eq('tracked_team_id', teamId)
+      .maybeSingle(),
+    db.from('player_career_stats').select('player_id').eq('team_id', teamId),
+  ])
+  if (!match) throw new Error(`Match ${matchId} is not an upcoming match for team ${teamId}`)
+  if (rosterError) throw new Error(`Failed to load roster: ${rosterError.message}`)
+
+  const rosterIds = new Set((roster ?? []).map(r => r.player_id as string))
+  const unknown = [...starters, ...bench].filter(id => !rosterIds.has(id))
+  if (unknown.length > 0) throw new Error(`Not on the ${teamId} roster: ${unknown.join(', ')}`)
+
+  const { error } = await db.from('lineups').upsert(
+    {
+      match_id: matchId,
+      team_id: teamId,
+      starters,
+      bench,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'match_id,team_id' }
+  )
+  if (error) throw new Error(`Failed to save lineup for ${matchId}: ${error.message}`)
+
+  revalidatePath(`/lineup/${matchId}`)
+}
@@ -1,16 +1,51 @@
 'use server'
 
 import { syncMatches, syncMatchReplay } from '@/workers/sync'
+import { processReplayQueue, requeueReplayJob } from '@/workers/replay-queue'
+import { refitModels } from '@/workers/models'
 import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { createServerClient } from '@/lib/supabase/client'
+import { withSyncAudit, SyncThrottledError, type SyncAction } from '@/lib/supabase/sync-audit'
+import { authorizeSyncAction } from '@/lib/sync-auth'
+
+// Admin + same-origin check, per-user throttle and audit entry around every action
+async function runSyncAction<T>(
+  action: SyncAction,
+  matchId: string | null,
+  fn: () => Promise<T>,
+  isFailure?: (result: T) => boolean
+) {
+  const actor = await authorizeSyncAction()
+  try {
+    await withSyncAudit(createServerClient(), actor, action, matchId, fn, isFailure)
+  } catch (err) {
+    if (err instanceof SyncThrottledError) redirect(`/admin?throttled=${action}`)
+    throw err
+  }
+}
 
 export async function triggerFullSync(): Promise<void> {
-  await syncMatches()
+  await runSyncAction('full_sync', null, async () => {
+    await syncMatches()
+    const queue = await processReplayQueue({ timeBudgetMs: 30_000 })
+    if (queue.succeeded > 0) await refitModels()
+  })
   revalidatePath('/dashboard')
   revalidatePath('/admin')
 }
 
 export async function triggerReplaySync(matchId: string): Promise<void> {
-  await syncMatchReplay(matchId)
+  await runSyncAction('replay_sync', matchId, async () => {
+    const result = await syncMatchReplay(matchId)
+    if (result.success && !result.notModified) await refitModels()
+    return result
+  }, result => !result.success)
   revalidatePath('/admin')
   revalidatePath(`/matches/${matchId}`)
 }
+
+export async function triggerRequeueReplay(matchId: string): Promise<void> {
+  await runSyncAction('requeue_replay', matchId, () => requeueReplayJob(matchId))
+  revalidatePath('/admin')
+}
@@ -0,0 +1,17 @@
+'use server'
+
+import { cookies } from 'next/headers'
+import { revalidatePath } from 'next/cache'
+import { ACTIVE_TEAM_COOKIE, getTrackedTeams } from '@/lib/teams'
+
+export async function setActiveTeam(teamId: string): Promise<void> {
+  const teams = await getTrackedTeams()
+  if (!teams.some(t => t.id === teamId)) throw new Error(`Team ${teamId} is not tracked`)
+
+  ;(await cookies()).set(ACTIVE_TEAM_COOKIE, teamId, {
+    path: '/',
+    sameSite: 'lax',
+    maxAge: 60 * 60 * 24 * 365,
+  })
+  revalidatePath('/', 'layout')
+}
@@ -0,0 +1,141 @@
+/**
+ * Injury Register & Availability
+ *
+ * Replays record injuries but never recoveries, so availability is
+ * inferred from appearances: an injury ends when the player next shows
+ * up in player_match_stats for their team. Until then, each replayed
+ * team match they sit out counts as a match missed.
+ *
+ * - Register: every injury (injury_events view, 015_injury_events.sql)
+ *   with how many matches it cost, or that the player is still out
+ * - Expected absence: median matches missed by severity over injuries
+ *   the player has come back from (DEFAULT_MATCHES_MISSED without history)
+ * - Availability for the next match: 'unavailable' while a player has
+ *   missed fewer matches than expected for their latest injury,
+ *   'doubtful' once they've passed it without reappearing, otherwise
+ *   'available'
+ *
+ * Pure functions, no database access; the loader is
+ * src/lib/supabase/injuries.ts.
+ */
+
+export type InjurySeverity = 'MINOR' | 'SERIOUS'
+export type AvailabilityStatus = 'available' | 'doubtful' | 'unavailable'
+
+/** Matches missed per severity when no past injury of that kind has healed */
+export const DEFAULT_MATCHES_MISSED: Record<InjurySeverity, number> = { MINOR: 0, SERIOUS: 1 }
+
+export interface InjuryRow {
+  match_id: string
+  scheduled_time: string
+  player_id: string
+  player_name: string
+  team_id: string
+  turn: number | null
+  severity: string | null
+  substituted_by_bot: boolean | null
+}
+
+/** A replayed team match and who appeared in it */
+export interface TeamAppearances {
+  matchId: string
+  scheduledTime: string
+  playerIds: Set<string>
+}
+
+export interface InjuryRecord {
+  matchId: string
+  scheduledTime: string
+  playerId: string
+  playerName: string
+  turn: number | null
+  severity: InjurySeverity        // unrecorded severity counts as MINOR
+  returned: boolean
+  returnedMatchId: string | null
+  matchesMissed: number           // so far, if not returned
+}
+
+export interface PlayerAvailability {
+  playerId: string
+  playerName: string
+  status: AvailabilityStatus
+  injury: InjuryRecord | null     // latest injury still open, if any
+  expectedMatchesMissed: number | null
+}
+
+function severityOf(raw: string | null): InjurySeverity {
+  return raw === 'SERIOUS' ? 'SERIOUS' : 'MINOR'
+}
+
+/**
+ * Every injury, newest first, with its outcome. `matches` are the
+ * team's replayed matches in any order.
+ */
+export function buildInjuryRegister(injuries: InjuryRow[], matches: TeamAppearances[]): InjuryRecord[] {
+  const chrono = [...matches].sort((a, b) => a.scheduledTime.localeCompare(b.scheduledTime))
+
+  return injuries
+    .map(injury => {
+      const later = chrono.filter(m => m.scheduledTime > injury.scheduled_time)
+      const returnIndex = later.findIndex(m => m.playerIds.has(injury.player_id))
+      const returnedMatch = returnIndex >= 0 ? later[returnIndex] : null
+
+      return {
+        matchId: injury.match_id,
+        scheduledTime: injury.scheduled_time,
+        playerId: injury.player_id,
+        playerName: injury.player_name,
+        turn: injury.turn,
+        severity: severityOf(injury.severity),
+        returned: returnedMatch !== null,
+        returnedMatchId: returnedMatch?.matchId ?? null,
+        matchesMissed: returnedMatch ? returnIndex : later.length,
+      }
+    })
+    .sort((a, b) => b.scheduledTime.localeCompare(a.scheduledTime) || a.playerName.localeCompare(b.playerName))
+}
+
+/**
+ * Median matches missed per severity over injuries players returned from.
+ */
+export function expectedMatchesMissed(register: InjuryRecord[]): Record<InjurySeverity, number> {
+  const medianFor = (severity: InjurySeverity) => {
+    const missed = register
+      .filter(r => r.returned && r.severity === severity)
+      .map(r => r.matchesMissed)
+      .sort((a, b) => a - b)
+    if (missed.length === 0) return DEFAULT_MATCHES_MISSED[severity]
+    const mid = Math.floor(missed.length / 2)
+    return missed.length % 2 === 1 ? missed[mid] : Math.round((missed[mid - 1] + missed[mid]) / 2)
+  }
+  return { MINOR: medianFor('MINOR'), SERIOUS: medianFor('SERIOUS') }
+}
+
+/**
+ * Availability for the team's next match, flagged players first.
+ */
+export function squadAvailability(
+  players: Array<{ playerId: string; playerName: string }>,
+  register: InjuryRecord[],
+  expected: Record<InjurySeverity, number>
+): PlayerAvailability[] {
+  const order: Record<AvailabilityStatus, number> = { unavailable: 0, doubtful: 1, available: 2 }
+
+  return players
+    .map(p => {
+      // register is newest first, so this is the player's latest injury
+      const latest = register.find(r => r.playerId === p.playerId)
+      if (!latest || latest.returned) {
+        return { ...p, status: 'available' as const, injury: null, expectedMatchesMissed: null }
+      }
+
+      const expectedMissed = expected[latest.severity]
+      return {
+        ...p,
+        status: latest.matchesMissed < expectedMissed ? 'unavailable' as const : 'doubtful' as const,
+        injury: latest,
+        expectedMatchesMissed: expectedMissed,
+      }
+    })
+    .sort((a, b) => order[a.status] - order[b.status] || a.playerName.localeCompare(b.playerName))
+}
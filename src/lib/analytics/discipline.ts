@@ -0,0 +1,152 @@
+/**
+ * Tackle Discipline
+ *
+ * Chance that a tackle draws a light, normal or heavy foul, from the
+ * tackler's aggression and strength (tackle_events view,
+ * 014_tackle_events.sql), in two logistic stages (logistic.ts):
+ *
+ * - Foul or not, fitted on every stored tackle; below
+ *   MIN_TRAINING_TACKLES (or with no fouls or no clean tackles) the
+ *   overall foul rate is used
+ * - Severity given a foul, one model per severity fitted on the fouls
+ *   and normalised to sum to 1; below MIN_TRAINING_FOULS (or when a
+ *   severity never or always occurs) its share of all fouls is used
+ *
+ * chance(severity) = P(foul) × P(severity | foul), so the three always
+ * sum to the foul chance and never past 1.
+ *
+ * Expected penalty time per tackle = Σ chance(severity) × the average
+ * penaltyDuration of that severity, which times tackles per match
+ * gives the turns a player is likely to spend serving penalties.
+ *
+ * Pure functions, no database access; the loader is
+ * src/lib/supabase/discipline.ts.
+ */
+
+import { fitLogistic, predictLogistic, type LogisticModel } from './logistic'
+
+export const FOUL_SEVERITIES = ['light', 'normal', 'heavy'] as const
+export type FoulSeverity = typeof FOUL_SEVERITIES[number]
+
+/** Tackles needed before the fitted foul model replaces the overall foul rate */
+export const MIN_TRAINING_TACKLES = 50
+
+/** Fouls needed before the fitted severity models replace severity shares */
+export const MIN_TRAINING_FOULS = 30
+
+export interface TackleRow {
+  tackler_id: string | null
+  aggression: number | null
+  strength: number | null
+  foul_severity: string | null   // null = clean tackle
+  penalty_duration: number | null
+}
+
+export interface DisciplineModel {
+  foulModel: LogisticModel | null                                // null = foulRate only
+  severityModels: Record<FoulSeverity, LogisticModel | null>     // given a foul; null = severityShares only
+  foulRate: number                                               // fouls ÷ tackles
+  severityShares: Record<FoulSeverity, number>                   // share of fouls
+  avgPenalty: Record<FoulSeverity, number>                       // turns per foul of that severity
+  trainedOn: number
+}
+
+export interface PlayerDiscipline {
+  tackles: number
+  avgAggression: number | null
+  chances: Record<FoulSeverity, number>    // per tackle, at their average aggression/strength
+  fouls: Record<FoulSeverity, number>      // actually committed
+  penaltyTurns: number                     // actually served
+  expectedPenaltyPerTackle: number
+  expectedPenaltyPerMatch: number | null
+}
+
+const features = (t: Pick<TackleRow, 'aggression' | 'strength'>): Array<number | null> => [
+  t.aggression === null ? null : Number(t.aggression),
+  t.strength === null ? null : Number(t.strength),
+]
+
+function perSeverity<T>(fn: (severity: FoulSeverity) => T): Record<FoulSeverity, T> {
+  return { light: fn('light'), normal: fn('normal'), heavy: fn('heavy') }
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null
+}
+
+const isSeverity = (value: string | null): value is FoulSeverity =>
+  (FOUL_SEVERITIES as readonly (string | null)[]).includes(value)
+
+function fitIfBothOutcomes(rows: Array<Array<number | null>>, labels: boolean[], minRows: number): LogisticModel | null {
+  const canFit = labels.length >= minRows && labels.includes(true) && labels.includes(false)
+  return canFit ? fitLogistic(rows, labels) : null
+}
+
+export function fitDisciplineModel(tackles: TackleRow[]): DisciplineModel {
+  const fouls = tackles.filter(t => isSeverity(t.foul_severity))
+  const foulRows = fouls.map(features)
+
+  return {
+    foulModel: fitIfBothOutcomes(tackles.map(features), tackles.map(t => isSeverity(t.foul_severity)), MIN_TRAINING_TACKLES),
+    severityModels: perSeverity(severity =>
+      fitIfBothOutcomes(foulRows, fouls.map(t => t.foul_severity === severity), MIN_TRAINING_FOULS)
+    ),
+    foulRate: tackles.length > 0 ? fouls.length / tackles.length : 0,
+    severityShares: perSeverity(severity =>
+      fouls.length > 0 ? fouls.filter(t => t.foul_severity === severity).length / fouls.length : 0
+    ),
+    avgPenalty: perSeverity(severity =>
+      mean(tackles
+        .filter(t => t.foul_severity === severity && t.penalty_duration !== null)
+        .map(t => Number(t.penalty_duration))) ?? 0
+    ),
+    trainedOn: tackles.length,
+  }
+}
+
+export function foulChances(
+  model: DisciplineModel,
+  tackle: Pick<TackleRow, 'aggression' | 'strength'>
+): Record<FoulSeverity, number> {
+  const row = features(tackle)
+  const foul = model.foulModel ? predictLogistic(model.foulModel, row) : model.foulRate
+
+  const weights = perSeverity(severity => {
+    const m = model.severityModels[severity]
+    return m ? predictLogistic(m, row) : model.severityShares[severity]
+  })
+  const total = FOUL_SEVERITIES.reduce((sum, s) => sum + weights[s], 0)
+
+  return perSeverity(severity => (total > 0 ? foul * (weights[severity] / total) : 0))
+}
+
+/**
+ * A player's discipline profile from their tackles. Chances use their
+ * average aggression and strength; per-match figures need `matchesPlayed`.
+ */
+export function summariseDiscipline(
+  model: DisciplineModel,
+  tackles: TackleRow[],
+  matchesPlayed: number
+): PlayerDiscipline {
+  const avg = (field: 'aggression' | 'strength') =>
+    mean(tackles.filter(t => t[field] !== null).map(t => Number(t[field])))
+
+  const avgAggression = avg('aggression')
+  const chances = foulChances(model, { aggression: avgAggression, strength: avg('strength') })
+  const expectedPenaltyPerTackle = FOUL_SEVERITIES.reduce((sum, s) => sum + chances[s] * model.avgPenalty[s], 0)
+
+  const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places
+
+  return {
+    tackles: tackles.length,
+    avgAggression: avgAggression === null ? null : round(avgAggression, 1),
+    chances: perSeverity(s => round(chances[s], 3)),
+    fouls: perSeverity(s => tackles.filter(t => t.foul_severity === s).length),
+    penaltyTurns: tackles.reduce((sum, t) => sum + (t.foul_severity ? Number(t.penalty_duration ?? 0) : 0), 0),
+    expectedPenaltyPerTackle: round(expectedPenaltyPerTackle, 2),
+    expectedPenaltyPerMatch: matchesPlayed > 0
+      ? round(expectedPenaltyPerTackle * (tackles.length / matchesPlayed), 2)
+      : null,
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Match Event Log
+ *
+ * Filters and labels stored match_events for the match page's event
+ * log. Filters come from the URL so a filtered log can be shared:
+ *
+ * - type: repeatable, any of EVENT_LOG_TYPES (none = all)
+ * - team: 'home' or 'away', the side of the event's first player
+ * - player: a player involved in the event
+ * - from / to: turn range, inclusive
+ *
+ * Each event's context blob is flattened into labelled details
+ * (distance, pressure, outcome, severity, …) for display.
+ *
+ * Pure functions, no database access; the loader is
+ * src/lib/supabase/match-replay.ts.
+ */
+
+import type { ReplayEvent } from './replay'
+
+export const EVENT_LOG_TYPES = ['PASS', 'ADVANCE', 'SHOT', 'GOAL', 'TACKLE', 'FOUL', 'INJURY', 'SUBSTITUTION'] as const
+
+/** Most rows rendered at once; narrower filters show the rest */
+export const EVENT_LOG_LIMIT = 500
+
+export type EventLogSide = 'home' | 'away'
+
+export interface EventLogEntry extends ReplayEvent {
+  context: Record<string, unknown> | null
+}
+
+export interface EventLogFilters {
+  types: string[]
+  team: EventLogSide | null
+  player: string | null
+  fromTurn: number | null
+  toTurn: number | null
+}
+
+export interface EventDetail {
+  label: string
+  value: string
+}
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
+
+function turnParam(value: string | string[] | undefined): number | null {
+  const raw = first(value)?.trim()
+  if (!raw) return null
+  const turn = Number(raw)
+  return Number.isInteger(turn) && turn >= 0 ? turn : null
+}
+
+/** Unknown or malformed parameters are ignored rather than rejected */
+export function parseEventLogFilters(params: SearchParams): EventLogFilters {
+  const rawTypes = params.type === undefined ? [] : ([] as string[]).concat(params.type)
+  const team = first(params.team)
+
+  return {
+    types: EVENT_LOG_TYPES.filter(t => rawTypes.includes(t)),
+    team: team === 'home' || team === 'away' ? team : null,
+    player: first(params.player)?.trim() || null,
+    fromTurn: turnParam(params.from),
+    toTurn: turnParam(params.to),
+  }
+}
+
+/**
+ * Log events matching `filters`, in replay order. `sideOf` maps a
+ * player to their side in this match.
+ */
+export function filterEventLog(
+  events: EventLogEntry[],
+  filters: EventLogFilters,
+  sideOf: (playerId: string) => EventLogSide | undefined
+): EventLogEntry[] {
+  const types: readonly string[] = filters.types.length > 0 ? filters.types : EVENT_LOG_TYPES
+
+  return events
+    .filter(e => {
+      if (!types.includes(e.type)) return false
+      if (filters.fromTurn !== null && e.turn < filters.fromTurn) return false
+      if (filters.toTurn !== null && e.turn > filters.toTurn) return false
+      const involved = e.players_involved ?? []
+      if (filters.player && !involved.includes(filters.player)) return false
+      if (filters.team && (!involved[0] || sideOf(involved[0]) !== filters.team)) return false
+      return true
+    })
+    .sort((a, b) => a.seq - b.seq)
+}
+
+// Context fields shown per section of the blob, in display order
+const DETAIL_FIELDS: Record<string, Array<[key: string, label: string]>> = {
+  shot:         [['distanceToGoal', 'Distance'], ['pressure', 'Pressure'], ['shooterAccuracy', 'Accuracy'], ['guardBlocking', 'Guard blocking'], ['outcome', 'Outcome']],
+  pass:         [['distance', 'Distance'], ['defendersInLane', 'Defenders in lane'], ['passerAccuracy', 'Accuracy'], ['outcome', 'Outcome']],
+  advance:      [['distanceAdvanced', 'Advanced'], ['nearestDefenderDistance', 'Nearest defender']],
+  tackle:       [['tacklerAggression', 'Aggression'], ['tacklerStrength', 'Strength']],
+  foul:         [['severity', 'Severity'], ['penaltyDuration', 'Penalty turns']],
+  injury:       [['severity', 'Severity'], ['substitutedByBot', 'Bot sub']],
+  substitution: [['reason', 'Reason'], ['outgoingEnergy', 'Outgoing energy'], ['incomingEnergy', 'Incoming energy']],
+}
+
+function formatDetail(value: unknown): string | null {
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(1)
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  if (typeof value === 'string') return value.replace(/_/g, ' ').toLowerCase()
+  return null
+}
+
+/** The known context fields present on an event, labelled */
+export function eventDetails(context: Record<string, unknown> | null): EventDetail[] {
+  if (!context) return []
+
+  const details: EventDetail[] = []
+  for (const [section, fields] of Object.entries(DETAIL_FIELDS)) {
+    const blob = context[section]
+    if (!blob || typeof blob !== 'object') continue
+    for (const [key, label] of fields) {
+      const value = formatDetail((blob as Record<string, unknown>)[key])
+      if (value !== null) details.push({ label, value })
+    }
+  }
+  return details
+}
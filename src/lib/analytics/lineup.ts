@@ -0,0 +1,159 @@
+/**
+ * Lineup Planning — predicted energy, start risk and ranking
+ *
+ * Pure functions, no database access. The lineup page feeds them
+ * player_career_stats rows plus each player's recent energy history
+ * (turn-0 energy from energy_snapshots, min_energy_reached from
+ * player_energy_thresholds), newest match first.
+ *
+ * - estimatedCurrentEnergy: predicted start energy at kick-off from the
+ *   recovery model (recovery.ts); without one, turn-0 energy in the
+ *   player's latest match
+ * - predictedMinEnergy: that, minus their average in-match drain
+ * - startRisk: which penalty band predictedMinEnergy lands in
+ *   (auto-sub at 20, severe penalty below 10)
+ */
+
+import type { LineupCandidate, PlayerCurrentStatus } from '@/types'
+import {
+  estimateRecovery,
+  predictStartEnergy,
+  teamRecoveryRate,
+  type PlayerEnergyHistory,
+} from './recovery'
+
+export type { PlayerEnergyHistory }
+
+/** Players on each side at kick-off */
+export const STARTING_LINEUP_SIZE = 5
+
+/** Matches of energy history used for the drain average */
+export const ENERGY_HISTORY_MATCHES = 5
+
+const AUTO_SUB_ENERGY = 20
+const SEVERE_PENALTY_ENERGY = 10
+
+// Per-match output weights — goals decide matches, passes are plentiful
+const OUTPUT_WEIGHTS = { goals: 3, tackles: 1, passes: 0.25 }
+
+// How much each risk level discounts a player's output when ranking
+const RISK_FACTOR: Record<PlayerCurrentStatus['startRisk'], number> = {
+  low: 1,
+  medium: 0.85,
+  unknown: 0.8,
+  high: 0.6,
+}
+
+export interface CareerStatsRow {
+  player_id: string
+  player_name: string
+  team_id: string
+  matches_played: number
+  avg_goals_per_match: number | null
+  avg_tackles_per_match: number | null
+  avg_passes_per_match: number | null
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null
+}
+
+/**
+ * Average energy lost over a match, from matches where both the
+ * start and the minimum are known.
+ */
+export function averageDrain(history: PlayerEnergyHistory[]): number | null {
+  const drains = history
+    .slice(0, ENERGY_HISTORY_MATCHES)
+    .filter(h => h.startEnergy !== null && h.minEnergy !== null)
+    .map(h => h.startEnergy! - h.minEnergy!)
+  return mean(drains)
+}
+
+export function startRiskFor(predictedMinEnergy: number | null): PlayerCurrentStatus['startRisk'] {
+  if (predictedMinEnergy === null) return 'unknown'
+  if (predictedMinEnergy < SEVERE_PENALTY_ENERGY) return 'high'
+  if (predictedMinEnergy < AUTO_SUB_ENERGY) return 'medium'
+  return 'low'
+}
+
+/**
+ * PlayerCurrentStatus plus the predicted low point it was derived from.
+ * `history` must be newest first; `predictedStart` comes from the recovery model.
+ */
+export function computePlayerStatus(
+  player: { playerId: string; playerName: string; teamId: string },
+  history: PlayerEnergyHistory[],
+  predictedStart: number | null = null
+): PlayerCurrentStatus & { predictedMinEnergy: number | null } {
+  const latest = history[0] ?? null
+  const latestWithStart = history.find(h => h.startEnergy !== null) ?? null
+  const estimatedCurrentEnergy = predictedStart ?? latestWithStart?.startEnergy ?? null
+  const drain = averageDrain(history)
+
+  const predictedMinEnergy = estimatedCurrentEnergy !== null && drain !== null
+    ? Math.max(0, Math.round(estimatedCurrentEnergy - drain))
+    : null
+
+  return {
+    ...player,
+    estimatedCurrentEnergy,
+    lastMatchDate: latest?.scheduledTime ?? null,
+    lastMatchMinEnergy: latest?.minEnergy ?? null,
+    startRisk: startRiskFor(predictedMinEnergy),
+    predictedMinEnergy,
+  }
+}
+
+export function outputScore(row: CareerStatsRow): number {
+  return (
+    (row.avg_goals_per_match ?? 0) * OUTPUT_WEIGHTS.goals +
+    (row.avg_tackles_per_match ?? 0) * OUTPUT_WEIGHTS.tackles +
+    (row.avg_passes_per_match ?? 0) * OUTPUT_WEIGHTS.passes
+  )
+}
+
+/**
+ * Rank a team's players for the match at `kickoff`: per-match output
+ * discounted by start risk, best first. Without `kickoff` start energy
+ * isn't projected forward by the recovery model.
+ */
+export function rankLineupCandidates(
+  players: CareerStatsRow[],
+  historyByPlayer: Record<string, PlayerEnergyHistory[]>,
+  kickoff?: string
+): LineupCandidate[] {
+  const teamRate = teamRecoveryRate(historyByPlayer)
+
+  return players
+    .map(row => {
+      const history = historyByPlayer[row.player_id] ?? []
+      const recovery = estimateRecovery(history, teamRate)
+      const predictedStart = kickoff ? predictStartEnergy(history, recovery.ratePerHour, kickoff) : null
+      const status = computePlayerStatus(
+        { playerId: row.player_id, playerName: row.player_name, teamId: row.team_id },
+        history,
+        predictedStart
+      )
+      const output = outputScore(row)
+      return {
+        ...status,
+        recoveryPerHour: recovery.ratePerHour,
+        matchesPlayed: row.matches_played,
+        avgGoals: row.avg_goals_per_match ?? 0,
+        avgTackles: row.avg_tackles_per_match ?? 0,
+        avgPasses: row.avg_passes_per_match ?? 0,
+        outputScore: Math.round(output * 100) / 100,
+        rankScore: Math.round(output * RISK_FACTOR[status.startRisk] * 100) / 100,
+      }
+    })
+    .sort((a, b) => b.rankScore - a.rankScore || a.playerName.localeCompare(b.playerName))
+}
+
+/**
+ * Default lineup: the top STARTING_LINEUP_SIZE candidates start, the rest sit on the bench.
+ */
+export function suggestLineup(candidates: LineupCandidate[]): { starters: string[]; bench: string[] } {
+  const ids = candidates.map(c => c.playerId)
+  return { starters: ids.slice(0, STARTING_LINEUP_SIZE), bench: ids.slice(STARTING_LINEUP_SIZE) }
+}
@@ -0,0 +1,118 @@
+/**
+ * Logistic Regression
+ *
+ * Small binary classifier shared by the analytics models: features are
+ * standardised, missing values (null) take the feature mean, and the
+ * fit is Newton–Raphson with an L2 penalty on the weights (not the
+ * bias) so separable or tiny samples still converge.
+ *
+ * Pure functions, no database access.
+ */
+
+export interface LogisticModel {
+  bias: number
+  weights: number[]   // per standardised feature
+  means: number[]     // used to standardise, and in place of missing values
+  scales: number[]    // standard deviations (1 for constant features)
+  samples: number
+}
+
+export interface LogisticOptions {
+  l2?: number          // weight penalty; larger = flatter model
+  iterations?: number  // Newton steps before giving up on convergence
+}
+
+export function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z))
+}
+
+// Solve A·x = b by Gaussian elimination with partial pivoting (A is small and square)
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+    if (Math.abs(m[col][col]) < 1e-12) throw new Error('Failed to fit logistic model: singular system')
+
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col]
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c]
+    }
+  }
+
+  const x = new Array<number>(n).fill(0)
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n]
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c]
+    x[r] = sum / m[r][r]
+  }
+  return x
+}
+
+function standardise(model: Pick<LogisticModel, 'means' | 'scales'>, row: Array<number | null>): number[] {
+  return model.means.map((mean, j) => {
+    const v = row[j]
+    return v === null || v === undefined || !Number.isFinite(v) ? 0 : (v - mean) / model.scales[j]
+  })
+}
+
+/**
+ * Fit P(label) from `rows` (one array of feature values per sample).
+ * Needs at least one positive and one negative label.
+ */
+export function fitLogistic(
+  rows: Array<Array<number | null>>,
+  labels: boolean[],
+  { l2 = 1, iterations = 25 }: LogisticOptions = {}
+): LogisticModel {
+  if (rows.length === 0 || rows.length !== labels.length) {
+    throw new Error('Failed to fit logistic model: need one label per row')
+  }
+  if (!labels.includes(true) || !labels.includes(false)) {
+    throw new Error('Failed to fit logistic model: labels are all the same')
+  }
+
+  const k = rows[0].length
+  const means: number[] = []
+  const scales: number[] = []
+  for (let j = 0; j < k; j++) {
+    const values = rows.map(r => r[j]).filter((v): v is number => v !== null && Number.isFinite(v))
+    const mean = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0
+    const variance = values.length > 0 ? values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length : 0
+    means.push(mean)
+    scales.push(variance > 0 ? Math.sqrt(variance) : 1)
+  }
+
+  // Design rows: [1, standardised features…]
+  const z = rows.map(r => [1, ...standardise({ means, scales }, r)])
+  const theta = new Array<number>(k + 1).fill(0)
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const gradient = theta.map((t, j) => (j === 0 ? 0 : -l2 * t))
+    const hessian = theta.map((_, i) => theta.map((_, j) => (i === j && i > 0 ? l2 : 0)))
+
+    for (let n = 0; n < z.length; n++) {
+      const p = sigmoid(z[n].reduce((s, v, j) => s + v * theta[j], 0))
+      const err = (labels[n] ? 1 : 0) - p
+      const w = p * (1 - p)
+      for (let i = 0; i <= k; i++) {
+        gradient[i] += err * z[n][i]
+        for (let j = 0; j <= k; j++) hessian[i][j] += w * z[n][i] * z[n][j]
+      }
+    }
+
+    const step = solve(hessian, gradient)
+    for (let j = 0; j <= k; j++) theta[j] += step[j]
+    if (Math.max(...step.map(Math.abs)) < 1e-8) break
+  }
+
+  return { bias: theta[0], weights: theta.slice(1), means, scales, samples: rows.length }
+}
+
+export function predictLogistic(model: LogisticModel, row: Array<number | null>): number {
+  const x = standardise(model, row)
+  return sigmoid(model.bias + x.reduce((s, v, j) => s + v * model.weights[j], 0))
+}
@@ -0,0 +1,149 @@
+/**
+ * Passing Network & Pass Risk
+ *
+ * From pass_events (013_pass_events.sql): who passes to whom, and how
+ * pass completion changes with lane pressure and distance.
+ *
+ * - Network: one node per passer, one edge per passer → teammate pair,
+ *   weighted by completions. On an interception the pass's target is
+ *   the opponent who took it (the intended receiver isn't recorded), so
+ *   interceptions count against the passer and form their own
+ *   passer → interceptor links.
+ * - Breakdown: completion rate by defenders in the passing lane (0, 1,
+ *   2+) and by distance (short / medium / long)
+ *
+ * Pure functions, no database access.
+ */
+
+export interface PassRow {
+  passer_id: string | null
+  target_id: string | null
+  distance: number | null
+  defenders_in_lane: number | null
+  passer_accuracy: number | null
+  outcome: string | null   // completed | interception | incomplete
+}
+
+export interface PassingNode {
+  playerId: string
+  attempts: number
+  completed: number
+  intercepted: number
+}
+
+export interface PassingEdge {
+  from: string
+  to: string
+  completed: number
+}
+
+/** Passes from one of our players picked off by one opponent */
+export interface PassingInterception {
+  from: string
+  by: string
+  count: number
+}
+
+export interface PassingNetwork {
+  nodes: PassingNode[]
+  edges: PassingEdge[]
+  interceptions: PassingInterception[]
+}
+
+export interface PassBucket {
+  label: string
+  attempts: number
+  completed: number
+  intercepted: number
+  completionRate: number | null
+}
+
+/** Distance bands, upper bounds exclusive */
+export const PASS_DISTANCE_BANDS = [
+  { label: 'Short (<8)', max: 8 },
+  { label: 'Medium (8–15)', max: 16 },
+  { label: 'Long (16+)', max: Infinity },
+] as const
+
+export const LANE_PRESSURE_BANDS = [
+  { label: 'Open lane', max: 1 },
+  { label: '1 defender', max: 2 },
+  { label: '2+ defenders', max: Infinity },
+] as const
+
+/**
+ * Passing network for one team's players (`teamPlayers`) in a set of passes.
+ * Nodes, edges and interceptions come back busiest first.
+ */
+export function buildPassingNetwork(passes: PassRow[], teamPlayers: Set<string>): PassingNetwork {
+  const nodes = new Map<string, PassingNode>()
+  const edges = new Map<string, PassingEdge>()
+  const interceptions = new Map<string, PassingInterception>()
+
+  for (const p of passes) {
+    if (!p.passer_id || !teamPlayers.has(p.passer_id)) continue
+
+    const node = nodes.get(p.passer_id) ?? { playerId: p.passer_id, attempts: 0, completed: 0, intercepted: 0 }
+    node.attempts++
+    if (p.outcome === 'completed') node.completed++
+    if (p.outcome === 'interception') node.intercepted++
+    nodes.set(p.passer_id, node)
+
+    if (!p.target_id || p.target_id === p.passer_id) continue
+    const key = `${p.passer_id}>${p.target_id}`
+
+    if (p.outcome === 'interception') {
+      if (teamPlayers.has(p.target_id)) continue
+      const link = interceptions.get(key) ?? { from: p.passer_id, by: p.target_id, count: 0 }
+      link.count++
+      interceptions.set(key, link)
+    } else if (p.outcome === 'completed' && teamPlayers.has(p.target_id)) {
+      const edge = edges.get(key) ?? { from: p.passer_id, to: p.target_id, completed: 0 }
+      edge.completed++
+      edges.set(key, edge)
+    }
+  }
+
+  // Receivers who never passed still belong on the graph
+  for (const e of edges.values()) {
+    if (!nodes.has(e.to)) nodes.set(e.to, { playerId: e.to, attempts: 0, completed: 0, intercepted: 0 })
+  }
+
+  return {
+    nodes: [...nodes.values()].sort((a, b) => b.attempts - a.attempts || a.playerId.localeCompare(b.playerId)),
+    edges: [...edges.values()].sort((a, b) => b.completed - a.completed),
+    interceptions: [...interceptions.values()].sort((a, b) => b.count - a.count),
+  }
+}
+
+function bucketise(
+  passes: PassRow[],
+  bands: ReadonlyArray<{ label: string; max: number }>,
+  value: (p: PassRow) => number | null
+): PassBucket[] {
+  const buckets = bands.map(b => ({ label: b.label, attempts: 0, completed: 0, intercepted: 0 }))
+
+  for (const p of passes) {
+    const v = value(p)
+    if (v === null) continue
+    const i = bands.findIndex(b => v < b.max)
+    buckets[i].attempts++
+    if (p.outcome === 'completed') buckets[i].completed++
+    if (p.outcome === 'interception') buckets[i].intercepted++
+  }
+
+  return buckets.map(b => ({
+    ...b,
+    completionRate: b.attempts > 0 ? Math.round((b.completed / b.attempts) * 1000) / 1000 : null,
+  }))
+}
+
+/** Completion by defenders in the passing lane; passes without the field are skipped */
+export function completionByLanePressure(passes: PassRow[]): PassBucket[] {
+  return bucketise(passes, LANE_PRESSURE_BANDS, p => (p.defenders_in_lane === null ? null : Number(p.defenders_in_lane)))
+}
+
+/** Completion by pass distance; passes without the field are skipped */
+export function completionByDistance(passes: PassRow[]): PassBucket[] {
+  return bucketise(passes, PASS_DISTANCE_BANDS, p => (p.distance === null ? null : Number(p.distance)))
+}
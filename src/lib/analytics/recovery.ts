@@ -0,0 +1,117 @@
+/**
+ * Energy Recovery Between Matches
+ *
+ * Replays only show in-match energy, so recovery is inferred from
+ * consecutive matches: the energy a player bottomed out at
+ * (min_energy_reached) and the energy they started the next match on
+ * (turn-0 snapshot), over the gap between the two kick-offs.
+ *
+ * - Rate = total energy regained / total hours, over pairs where the
+ *   player didn't start the next match at FULL_ENERGY (a full start only
+ *   says recovery was at least that fast, so it would bias the rate down)
+ * - Players with no usable pairs fall back to the team's pooled rate
+ * - Predicted start = last low point + rate × hours until kick-off,
+ *   capped at FULL_ENERGY
+ *
+ * Pure functions, no database access.
+ */
+
+export const FULL_ENERGY = 100
+
+const MS_PER_HOUR = 60 * 60 * 1000
+
+export interface PlayerEnergyHistory {
+  matchId: string
+  scheduledTime: string
+  startEnergy: number | null  // turn-0 snapshot
+  minEnergy: number | null    // min_energy_reached
+}
+
+export interface RecoveryObservation {
+  fromMatchId: string
+  toMatchId: string
+  gapHours: number
+  endEnergy: number        // min_energy_reached in the earlier match
+  nextStartEnergy: number  // turn-0 energy in the later match
+  capped: boolean          // started the later match at FULL_ENERGY
+}
+
+export interface RecoveryEstimate {
+  ratePerHour: number | null
+  observations: number     // consecutive-match pairs found
+  usable: number           // of which uncapped, i.e. used for the rate
+  source: 'player' | 'team' | 'none'
+}
+
+/**
+ * Pairs of consecutive matches with a known low point and a known next start.
+ * `history` must be newest first.
+ */
+export function recoveryObservations(history: PlayerEnergyHistory[]): RecoveryObservation[] {
+  const observations: RecoveryObservation[] = []
+
+  for (let i = 0; i + 1 < history.length; i++) {
+    const next = history[i]
+    const prev = history[i + 1]
+    if (prev.minEnergy === null || next.startEnergy === null) continue
+
+    const gapHours = (Date.parse(next.scheduledTime) - Date.parse(prev.scheduledTime)) / MS_PER_HOUR
+    if (!(gapHours > 0)) continue
+
+    observations.push({
+      fromMatchId: prev.matchId,
+      toMatchId: next.matchId,
+      gapHours,
+      endEnergy: prev.minEnergy,
+      nextStartEnergy: next.startEnergy,
+      capped: next.startEnergy >= FULL_ENERGY,
+    })
+  }
+
+  return observations
+}
+
+/**
+ * Energy regained per hour across the uncapped observations, or null if there are none.
+ */
+export function recoveryRate(observations: RecoveryObservation[]): number | null {
+  const usable = observations.filter(o => !o.capped)
+  if (usable.length === 0) return null
+
+  const regained = usable.reduce((sum, o) => sum + (o.nextStartEnergy - o.endEnergy), 0)
+  const hours = usable.reduce((sum, o) => sum + o.gapHours, 0)
+  return Math.max(0, regained / hours)
+}
+
+/**
+ * Pooled rate over every player's observations — the fallback for
+ * players without enough history of their own.
+ */
+export function teamRecoveryRate(historyByPlayer: Record<string, PlayerEnergyHistory[]>): number | null {
+  return recoveryRate(Object.values(historyByPlayer).flatMap(recoveryObservations))
+}
+
+export function estimateRecovery(history: PlayerEnergyHistory[], teamRate: number | null = null): RecoveryEstimate {
+  const observations = recoveryObservations(history)
+  const usable = observations.filter(o => !o.capped).length
+  const own = recoveryRate(observations)
+
+  if (own !== null) return { ratePerHour: own, observations: observations.length, usable, source: 'player' }
+  if (teamRate !== null) return { ratePerHour: teamRate, observations: observations.length, usable, source: 'team' }
+  return { ratePerHour: null, observations: observations.length, usable, source: 'none' }
+}
+
+/**
+ * Predicted turn-0 energy at `kickoff`, or null without a low point or a rate.
+ */
+export function predictStartEnergy(
+  history: PlayerEnergyHistory[],
+  ratePerHour: number | null,
+  kickoff: string
+): number | null {
+  const last = history.find(h => h.minEnergy !== null)
+  if (!last || ratePerHour === null) return null
+
+  const hours = Math.max(0, (Date.parse(kickoff) - Date.parse(last.scheduledTime)) / MS_PER_HOUR)
+  return Math.min(FULL_ENERGY, Math.round(last.minEnergy! + ratePerHour * hours))
+}
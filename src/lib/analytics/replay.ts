@@ -0,0 +1,86 @@
+/**
+ * Match Replay Frames
+ *
+ * Turns stored match_events and energy_snapshots into what the replay
+ * viewer (app/components/ReplayViewer.tsx) shows at each turn:
+ *
+ * - Score: home_score / away_score of the latest event up to that turn
+ *   that carries one (0–0 before any)
+ * - Events: everything that happened in the turn, in replay order
+ * - Energy: each player's latest snapshot up to that turn, so players
+ *   without a snapshot every turn hold their last known value
+ *
+ * Pure functions, no database access; safe to import from client
+ * components.
+ */
+
+export interface ReplayEvent {
+  seq: number
+  turn: number
+  type: string
+  description: string | null
+  players_involved: string[] | null
+  home_score: number | null
+  away_score: number | null
+}
+
+export interface EnergyPoint {
+  turn: number
+  energy: number
+}
+
+export interface ReplayScore {
+  home: number
+  away: number
+}
+
+/** Last turn with an event or snapshot; the viewer steps 0..lastTurn */
+export function lastReplayTurn(events: ReplayEvent[], energy: Record<string, EnergyPoint[]>): number {
+  let last = 0
+  for (const e of events) last = Math.max(last, e.turn)
+  for (const curve of Object.values(energy)) {
+    for (const p of curve) last = Math.max(last, p.turn)
+  }
+  return last
+}
+
+/**
+ * Events grouped by turn, each group in replay (seq) order.
+ */
+export function eventsByTurn(events: ReplayEvent[]): Map<number, ReplayEvent[]> {
+  const byTurn = new Map<number, ReplayEvent[]>()
+  for (const e of [...events].sort((a, b) => a.seq - b.seq)) {
+    const group = byTurn.get(e.turn)
+    if (group) group.push(e)
+    else byTurn.set(e.turn, [e])
+  }
+  return byTurn
+}
+
+/**
+ * Running score at the end of `turn`.
+ */
+export function scoreAtTurn(events: ReplayEvent[], turn: number): ReplayScore {
+  let score: ReplayScore = { home: 0, away: 0 }
+  let latestSeq = -1
+  for (const e of events) {
+    if (e.turn > turn || e.seq < latestSeq) continue
+    if (e.home_score === null || e.away_score === null) continue
+    score = { home: e.home_score, away: e.away_score }
+    latestSeq = e.seq
+  }
+  return score
+}
+
+/**
+ * Energy at `turn` from a curve sorted by turn; null before the first
+ * snapshot.
+ */
+export function energyAtTurn(curve: EnergyPoint[], turn: number): number | null {
+  let energy: number | null = null
+  for (const p of curve) {
+    if (p.turn > turn) break
+    energy = p.energy
+  }
+  return energy
+}
@@ -0,0 +1,142 @@
+/**
+ * Opponent Scouting Report
+ *
+ * Builds a MatchScoutingReport from an opponent's stored matches — every
+ * match we have for them, not just those against us (scouting replays
+ * fill in the rest). Pure functions, no database access; the loader is
+ * src/lib/supabase/scouting-report.ts.
+ *
+ * - Goals for/against: completed matches with a final score
+ * - Top scorer / tackler / foul risk: player_career_stats for the team
+ * - Energy fade: when their players first drop below 30 energy
+ *   (player_energy_thresholds), as a fraction of the turns they played
+ */
+
+import type { MatchScoutingReport } from '@/types'
+
+/** Fouls per tackle above which a player is flagged as a foul risk */
+export const FOUL_RISK_RATE = 0.3
+
+/** Tackles needed before a player's foul rate is trusted */
+export const MIN_FOUL_RISK_TACKLES = 3
+
+/** Players listed under highFoulRiskPlayers */
+export const MAX_FOUL_RISK_PLAYERS = 5
+
+/** Below this share of player-matches dropping under 30 energy, the team is 'consistent' */
+export const FADE_SHARE = 0.5
+
+export interface ScoutingMatchRow {
+  home_team_id: string
+  away_team_id: string
+  home_score: number | null
+  away_score: number | null
+}
+
+export interface ScoutingPlayerRow {
+  player_id: string
+  player_name: string
+  matches_played: number
+  total_tackles: number | null
+  total_fouls: number | null
+  avg_goals_per_match: number | null
+  avg_tackles_per_match: number | null
+}
+
+export interface FadeRow {
+  first_turn_below_30: number | null
+  last_turn_tracked: number | null
+}
+
+type FadePattern = MatchScoutingReport['energyFadePattern']
+
+/** Display text for each fade pattern */
+export const FADE_PATTERN_LABELS: Record<FadePattern, { label: string; detail: string }> = {
+  early:      { label: 'Fades early', detail: 'Most players drop below 30 energy in the first third' },
+  mid:        { label: 'Fades mid-match', detail: 'Most players drop below 30 energy in the middle third' },
+  late:       { label: 'Fades late', detail: 'Most players drop below 30 energy in the final third' },
+  consistent: { label: 'Consistent', detail: 'Most players never drop below 30 energy' },
+  unknown:    { label: 'Unknown', detail: 'No replayed matches with energy data yet' },
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Classify when a team's players tire. Each player-match either never
+ * drops below 30 or does so some fraction of the way through their
+ * turns; if most never do the team is 'consistent', otherwise the
+ * median fraction picks early (first third), mid or late.
+ */
+export function classifyFadePattern(rows: FadeRow[]): FadePattern {
+  const tracked = rows.filter(r => r.last_turn_tracked !== null && r.last_turn_tracked > 0)
+  if (tracked.length === 0) return 'unknown'
+
+  const fadePoints = tracked
+    .filter(r => r.first_turn_below_30 !== null)
+    .map(r => r.first_turn_below_30! / r.last_turn_tracked!)
+
+  if (fadePoints.length / tracked.length < FADE_SHARE) return 'consistent'
+
+  const point = median(fadePoints)
+  if (point < 1 / 3) return 'early'
+  if (point < 2 / 3) return 'mid'
+  return 'late'
+}
+
+export function buildScoutingReport(
+  team: { id: string; name: string },
+  matches: ScoutingMatchRow[],
+  players: ScoutingPlayerRow[],
+  fadeRows: FadeRow[]
+): MatchScoutingReport {
+  let scored = 0
+  let conceded = 0
+  let scoredMatches = 0
+  for (const m of matches) {
+    if (m.home_score === null || m.away_score === null) continue
+    const isHome = m.home_team_id === team.id
+    scored += isHome ? m.home_score : m.away_score
+    conceded += isHome ? m.away_score : m.home_score
+    scoredMatches++
+  }
+
+  const byGoals = players
+    .filter(p => (p.avg_goals_per_match ?? 0) > 0)
+    .sort((a, b) => (b.avg_goals_per_match ?? 0) - (a.avg_goals_per_match ?? 0))
+  const byTackles = players
+    .filter(p => (p.avg_tackles_per_match ?? 0) > 0)
+    .sort((a, b) => (b.avg_tackles_per_match ?? 0) - (a.avg_tackles_per_match ?? 0))
+
+  const highFoulRiskPlayers = players
+    .filter(p => (p.total_tackles ?? 0) >= MIN_FOUL_RISK_TACKLES)
+    .map(p => ({
+      playerId: p.player_id,
+      playerName: p.player_name,
+      foulRate: Math.round(((p.total_fouls ?? 0) / p.total_tackles!) * 1000) / 1000,
+    }))
+    .filter(p => p.foulRate > FOUL_RISK_RATE)
+    .sort((a, b) => b.foulRate - a.foulRate)
+    .slice(0, MAX_FOUL_RISK_PLAYERS)
+
+  const round2 = (n: number) => Math.round(n * 100) / 100
+
+  return {
+    opponentTeamId: team.id,
+    opponentTeamName: team.name,
+    matchesAnalysed: scoredMatches,
+    topScorer: byGoals[0]
+      ? { playerId: byGoals[0].player_id, playerName: byGoals[0].player_name, avgGoals: byGoals[0].avg_goals_per_match! }
+      : null,
+    topTackler: byTackles[0]
+      ? { playerId: byTackles[0].player_id, playerName: byTackles[0].player_name, avgTackles: byTackles[0].avg_tackles_per_match! }
+      : null,
+    highFoulRiskPlayers,
+    avgGoalsScored: scoredMatches > 0 ? round2(scored / scoredMatches) : 0,
+    avgGoalsConceded: scoredMatches > 0 ? round2(conceded / scoredMatches) : 0,
+    energyFadePattern: classifyFadePattern(fadeRows),
+  }
+}
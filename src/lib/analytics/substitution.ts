@@ -0,0 +1,194 @@
+/**
+ * Substitution Timing
+ *
+ * Suggests when to make a planned substitution so a player comes off
+ * before the game does it for them: the auto-sub fires once energy drops
+ * below 20, and the severe penalty tier starts below 10.
+ *
+ * - Drain: each player's energy loss per turn, a least-squares slope over
+ *   their energy_snapshots in recent matches (pooled across matches)
+ * - Plan: from this match's turn-0 energy, the turn each threshold is
+ *   predicted to be crossed; the sub is recommended SUB_LEAD_TURNS before
+ *   the predicted auto-sub
+ * - Review: compares the plan with the SUBSTITUTION events that actually
+ *   happened, and totals the penalty_magnitude the player carried after
+ *   the recommended turn — what a planned sub would have saved
+ *
+ * Pure functions, no database access.
+ */
+
+export const MODERATE_PENALTY_ENERGY = 30
+export const AUTO_SUB_ENERGY = 20
+export const SEVERE_PENALTY_ENERGY = 10
+
+/** Plan the sub this many turns before the predicted auto-sub */
+export const SUB_LEAD_TURNS = 2
+
+/** Recent matches used for a player's drain rate */
+export const DRAIN_HISTORY_MATCHES = 5
+
+export interface EnergyPoint {
+  turn: number
+  energy: number
+}
+
+export interface SubstitutionPlan {
+  playerId: string
+  startEnergy: number | null
+  drainPerTurn: number | null
+  predictedModerateTurn: number | null  // first turn below 30
+  predictedAutoSubTurn: number | null   // first turn below 20
+  predictedSevereTurn: number | null    // first turn below 10
+  recommendedTurn: number | null        // null = no sub needed (or no data)
+}
+
+export interface ActualSubstitution {
+  turn: number
+  reason: 'injury' | 'energy_low' | null
+}
+
+export type SubstitutionVerdict =
+  | 'on_plan'       // subbed within SUB_LEAD_TURNS of the recommendation
+  | 'early'         // subbed well before it was needed
+  | 'late'          // subbed well after the recommendation, but not by the auto-sub
+  | 'auto_sub'      // the game subbed them for low energy
+  | 'injury'        // came off injured — timing wasn't a choice
+  | 'missed'        // sub recommended but they played on
+  | 'not_needed'    // no sub recommended, none made
+  | 'unplanned'     // subbed although no sub was recommended
+
+export interface SubstitutionReview {
+  plan: SubstitutionPlan
+  actual: ActualSubstitution | null
+  verdict: SubstitutionVerdict
+  turnsFromPlan: number | null     // actual − recommended turn
+  penaltyAfterPlan: number         // sum of penalty_magnitude after the recommended turn
+}
+
+/**
+ * The game's penalty formula (mirrors energy_snapshots.penalty_magnitude).
+ */
+export function penaltyMagnitude(energy: number): number {
+  if (energy >= MODERATE_PENALTY_ENERGY) return 0
+  if (energy >= SEVERE_PENALTY_ENERGY) return (MODERATE_PENALTY_ENERGY - energy) * 0.5
+  return (SEVERE_PENALTY_ENERGY - energy) * 1.5 + 10
+}
+
+/**
+ * Energy lost per turn across several matches' curves: the pooled
+ * least-squares slope of energy on turn (each match centred on its own
+ * mean, so differing start levels don't skew it). Null without at
+ * least two distinct turns in some match; never negative.
+ */
+export function drainPerTurn(curves: EnergyPoint[][]): number | null {
+  let sxy = 0
+  let sxx = 0
+
+  for (const points of curves) {
+    if (points.length < 2) continue
+    const meanTurn = points.reduce((s, p) => s + p.turn, 0) / points.length
+    const meanEnergy = points.reduce((s, p) => s + p.energy, 0) / points.length
+    for (const p of points) {
+      sxy += (p.turn - meanTurn) * (p.energy - meanEnergy)
+      sxx += (p.turn - meanTurn) ** 2
+    }
+  }
+
+  if (sxx === 0) return null
+  return Math.max(0, -sxy / sxx)
+}
+
+// First whole turn energy is predicted to be below `threshold`
+function firstTurnBelow(startEnergy: number, drain: number, threshold: number): number | null {
+  if (startEnergy < threshold) return 0
+  if (drain <= 0) return null
+  return Math.floor((startEnergy - threshold) / drain) + 1
+}
+
+/**
+ * Plan for one player in a match of `matchTurns` turns. No sub is
+ * recommended if the auto-sub isn't predicted before the final turn.
+ */
+export function planSubstitution(
+  playerId: string,
+  startEnergy: number | null,
+  drain: number | null,
+  matchTurns: number
+): SubstitutionPlan {
+  if (startEnergy === null || drain === null) {
+    return {
+      playerId, startEnergy, drainPerTurn: drain,
+      predictedModerateTurn: null, predictedAutoSubTurn: null, predictedSevereTurn: null,
+      recommendedTurn: null,
+    }
+  }
+
+  const predictedAutoSubTurn = firstTurnBelow(startEnergy, drain, AUTO_SUB_ENERGY)
+  const recommendedTurn = predictedAutoSubTurn !== null && predictedAutoSubTurn <= matchTurns
+    ? Math.max(1, predictedAutoSubTurn - SUB_LEAD_TURNS)
+    : null
+
+  return {
+    playerId,
+    startEnergy,
+    drainPerTurn: Math.round(drain * 100) / 100,
+    predictedModerateTurn: firstTurnBelow(startEnergy, drain, MODERATE_PENALTY_ENERGY),
+    predictedAutoSubTurn,
+    predictedSevereTurn: firstTurnBelow(startEnergy, drain, SEVERE_PENALTY_ENERGY),
+    recommendedTurn,
+  }
+}
+
+/**
+ * Compare a plan with what happened. `curve` is the player's energy in
+ * this match; `actual` their SUBSTITUTION (as the outgoing player), if any.
+ */
+export function reviewSubstitution(
+  plan: SubstitutionPlan,
+  curve: EnergyPoint[],
+  actual: ActualSubstitution | null
+): SubstitutionReview {
+  const recommended = plan.recommendedTurn
+  const turnsFromPlan = actual && recommended !== null ? actual.turn - recommended : null
+
+  let verdict: SubstitutionVerdict
+  if (actual?.reason === 'injury') verdict = 'injury'
+  else if (actual?.reason === 'energy_low') verdict = 'auto_sub'
+  else if (actual && recommended === null) verdict = 'unplanned'
+  else if (actual) {
+    verdict = Math.abs(turnsFromPlan!) <= SUB_LEAD_TURNS ? 'on_plan' : turnsFromPlan! < 0 ? 'early' : 'late'
+  }
+  else verdict = recommended === null ? 'not_needed' : 'missed'
+
+  const penaltyAfterPlan = recommended === null
+    ? 0
+    : curve
+        .filter(p => p.turn > recommended && (!actual || p.turn < actual.turn))
+        .reduce((sum, p) => sum + penaltyMagnitude(p.energy), 0)
+
+  return { plan, actual, verdict, turnsFromPlan, penaltyAfterPlan: Math.round(penaltyAfterPlan * 10) / 10 }
+}
+
+/**
+ * Substitutions per outgoing player from SUBSTITUTION events — the
+ * outgoing player is listed first in players_involved. First sub wins.
+ */
+export function substitutionsByPlayer(
+  events: Array<{ turn: number; type: string; players_involved: string[] | null; context: Record<string, unknown> | null }>
+): Record<string, ActualSubstitution> {
+  const subs: Record<string, ActualSubstitution> = {}
+
+  for (const e of events) {
+    if (e.type !== 'SUBSTITUTION') continue
+    const outgoing = e.players_involved?.[0]
+    if (!outgoing || outgoing in subs) continue
+
+    const reason = (e.context?.substitution as { reason?: string } | undefined)?.reason
+    subs[outgoing] = {
+      turn: e.turn,
+      reason: reason === 'injury' || reason === 'energy_low' ? reason : null,
+    }
+  }
+
+  return subs
+}
@@ -0,0 +1,136 @@
+/**
+ * Win Probability & Momentum
+ *
+ * Chance the home side wins, after every turn, from the game state in
+ * match_turn_states (016_match_turn_states.sql): score gap, turns
+ * remaining and the gap in average energy. A logistic model
+ * (logistic.ts) is fitted on every turn of recent completed matches,
+ * labelled with whether the home side went on to win (draws count as
+ * not won). The gap is also scaled by 1/√(turns remaining + 1) so a
+ * one-goal lead weighs more late than early. Until there are
+ * MIN_TRAINING_MATCHES with both outcomes, every turn gets the home
+ * win rate instead.
+ *
+ * Swings are the goals, serious injuries and heavy fouls in a match,
+ * each with the change in win probability over its turn.
+ *
+ * Pure functions, no database access; the loader is
+ * src/lib/supabase/win-probability.ts.
+ */
+
+import { fitLogistic, predictLogistic, type LogisticModel } from './logistic'
+
+/** Matches needed before the fitted model replaces the home win rate */
+export const MIN_TRAINING_MATCHES = 20
+
+export const WIN_PROB_FEATURES = ['score_gap', 'turns_remaining', 'energy_gap', 'late_score_gap'] as const
+
+export interface TurnStateRow {
+  match_id: string
+  turn: number
+  last_turn: number
+  home_score: number
+  away_score: number
+  home_energy: number | null
+  away_energy: number | null
+  home_won: boolean
+}
+
+export interface WinProbabilityModel {
+  logistic: LogisticModel | null   // null = home win rate only
+  homeWinRate: number
+  trainedOnMatches: number
+}
+
+export interface WinProbabilityPoint {
+  turn: number
+  homeWin: number
+  homeScore: number
+  awayScore: number
+}
+
+export type SwingKind = 'goal' | 'serious_injury' | 'heavy_foul'
+
+export interface SwingEvent {
+  turn: number
+  kind: SwingKind
+  playerId: string | null
+  description: string | null
+  delta: number | null             // change in home win probability over the turn
+}
+
+type TurnState = Omit<TurnStateRow, 'match_id' | 'home_won'>
+
+function features(state: TurnState): Array<number | null> {
+  const gap = state.home_score - state.away_score
+  const remaining = Math.max(0, state.last_turn - state.turn)
+  const energyGap = state.home_energy === null || state.away_energy === null
+    ? null
+    : Number(state.home_energy) - Number(state.away_energy)
+  return [gap, remaining, energyGap, gap / Math.sqrt(remaining + 1)]
+}
+
+export function fitWinProbabilityModel(states: TurnStateRow[]): WinProbabilityModel {
+  const outcomes = new Map(states.map(s => [s.match_id, s.home_won]))
+  const homeWins = [...outcomes.values()].filter(Boolean).length
+  const homeWinRate = outcomes.size > 0 ? homeWins / outcomes.size : 0.5
+
+  const canFit = outcomes.size >= MIN_TRAINING_MATCHES && homeWins > 0 && homeWins < outcomes.size
+  return {
+    logistic: canFit ? fitLogistic(states.map(features), states.map(s => s.home_won)) : null,
+    homeWinRate,
+    trainedOnMatches: outcomes.size,
+  }
+}
+
+export function homeWinProbability(model: WinProbabilityModel, state: TurnState): number {
+  return model.logistic ? predictLogistic(model.logistic, features(state)) : model.homeWinRate
+}
+
+/** One point per turn of a match, in turn order */
+export function winProbabilityCurve(model: WinProbabilityModel, states: TurnState[]): WinProbabilityPoint[] {
+  return [...states]
+    .sort((a, b) => a.turn - b.turn)
+    .map(s => ({
+      turn: s.turn,
+      homeWin: homeWinProbability(model, s),
+      homeScore: s.home_score,
+      awayScore: s.away_score,
+    }))
+}
+
+function swingKind(event: { type: string; context: Record<string, unknown> | null }): SwingKind | null {
+  const detail = (key: string) => event.context?.[key] as Record<string, unknown> | undefined
+  if (event.type === 'GOAL') return 'goal'
+  if (event.type === 'INJURY' && detail('injury')?.severity === 'SERIOUS') return 'serious_injury'
+  if (event.type === 'FOUL' && detail('foul')?.severity === 'heavy') return 'heavy_foul'
+  return null
+}
+
+/**
+ * Goals, serious injuries and heavy fouls from `events`, with how much
+ * the home win probability moved from the previous turn to theirs.
+ */
+export function swingEvents(
+  curve: WinProbabilityPoint[],
+  events: Array<{ turn: number; type: string; description: string | null; players_involved: string[] | null; context: Record<string, unknown> | null }>
+): SwingEvent[] {
+  const byTurn = new Map(curve.map(p => [p.turn, p.homeWin]))
+
+  const swings: SwingEvent[] = []
+  for (const e of events) {
+    const kind = swingKind(e)
+    if (!kind) continue
+
+    const after = byTurn.get(e.turn)
+    const before = [...curve].reverse().find(p => p.turn < e.turn)?.homeWin
+    swings.push({
+      turn: e.turn,
+      kind,
+      playerId: e.players_involved?.[0] ?? null,
+      description: e.description,
+      delta: after === undefined || before === undefined ? null : after - before,
+    })
+  }
+  return swings
+}
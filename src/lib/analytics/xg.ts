@@ -0,0 +1,83 @@
+/**
+ * Expected Goals (xG)
+ *
+ * Probability that a shot is scored, from its context.shot fields
+ * (shot_events view, 012_shot_events.sql): distance to goal, pressure,
+ * shooter accuracy and guard blocking. A logistic model (logistic.ts)
+ * is fitted on every stored shot; until there are MIN_TRAINING_SHOTS
+ * with both goals and misses, every shot gets the overall conversion
+ * rate instead.
+ *
+ * Summing xG over a player's shots and comparing with their goals
+ * separates finishing (goals − xG) from shot volume and quality.
+ *
+ * Pure functions, no database access; the loader is src/lib/supabase/xg.ts.
+ */
+
+import { fitLogistic, predictLogistic, type LogisticModel } from './logistic'
+
+/** Shots needed before the fitted model replaces the base rate */
+export const MIN_TRAINING_SHOTS = 50
+
+export const XG_FEATURES = ['distance_to_goal', 'pressure', 'shooter_accuracy', 'guard_blocking'] as const
+
+export interface ShotRow {
+  match_id: string
+  seq: number
+  turn: number
+  shooter_id: string | null
+  distance_to_goal: number | null
+  pressure: number | null
+  shooter_accuracy: number | null
+  guard_blocking: number | null
+  outcome: string | null
+  is_goal: boolean
+}
+
+export interface XgModel {
+  logistic: LogisticModel | null   // null = base rate only
+  baseRate: number                 // goals ÷ shots over the training set
+  trainedOn: number
+}
+
+export interface PlayerXgSummary {
+  shots: number
+  goals: number
+  xg: number
+  xgPerShot: number | null
+  goalsMinusXg: number             // positive = finishing above expectation
+}
+
+function features(shot: Pick<ShotRow, typeof XG_FEATURES[number]>): Array<number | null> {
+  return XG_FEATURES.map(f => (shot[f] === null ? null : Number(shot[f])))
+}
+
+export function fitXgModel(shots: ShotRow[]): XgModel {
+  const goals = shots.filter(s => s.is_goal).length
+  const baseRate = shots.length > 0 ? goals / shots.length : 0
+
+  const canFit = shots.length >= MIN_TRAINING_SHOTS && goals > 0 && goals < shots.length
+  return {
+    logistic: canFit ? fitLogistic(shots.map(features), shots.map(s => s.is_goal)) : null,
+    baseRate,
+    trainedOn: shots.length,
+  }
+}
+
+export function shotXg(model: XgModel, shot: Pick<ShotRow, typeof XG_FEATURES[number]>): number {
+  return model.logistic ? predictLogistic(model.logistic, features(shot)) : model.baseRate
+}
+
+export function summariseXg(model: XgModel, shots: ShotRow[]): PlayerXgSummary {
+  const goals = shots.filter(s => s.is_goal).length
+  const xg = shots.reduce((sum, s) => sum + shotXg(model, s), 0)
+  const round2 = (n: number) => Math.round(n * 100) / 100
+
+  return {
+    shots: shots.length,
+    goals,
+    xg: round2(xg),
+    xgPerShot: shots.length > 0 ? round2(xg / shots.length) : null,
+    goalsMinusXg: round2(goals - xg),
+  }
+}
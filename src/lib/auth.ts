@@ -0,0 +1,52 @@
+/**
+ * Auth + Roles (server components + actions only)
+ *
+ * Users sign in with Supabase Auth; their app role comes from the
+ * user_roles table (009_auth_roles.sql). Every role can read match
+ * data — RLS enforces that — while admin-only areas call requireRole.
+ */
+
+import { cache } from 'react'
+import { redirect } from 'next/navigation'
+import { createUserClient } from '@/lib/supabase/user-client'
+
+export const ROLES = ['admin', 'coach', 'analyst', 'player', 'viewer'] as const
+export type Role = typeof ROLES[number]
+
+export interface CurrentUser {
+  id: string
+  email: string | null
+  role: Role | null   // null = signed in but not granted access yet
+}
+
+/** The signed-in user and their role, loaded once per request */
+export const getCurrentUser = cache(async (): Promise<CurrentUser | null> => {
+  const db = await createUserClient()
+
+  // getUser() revalidates the token with Supabase Auth; getSession() would trust the cookie
+  const { data: { user } } = await db.auth.getUser()
+  if (!user) return null
+
+  const { data, error } = await db
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load role: ${error.message}`)
+
+  return { id: user.id, email: user.email ?? null, role: (data?.role as Role | undefined) ?? null }
+})
+
+/**
+ * Require a signed-in user holding one of `roles` (any role if empty).
+ * Redirects to /login otherwise — works in pages and server actions.
+ */
+export async function requireRole(...roles: Role[]): Promise<CurrentUser & { role: Role }> {
+  const user = await getCurrentUser()
+  if (!user) redirect('/login')
+  if (!user.role || (roles.length > 0 && !roles.includes(user.role))) {
+    redirect('/login?error=forbidden')
+  }
+  return { ...user, role: user.role }
+}
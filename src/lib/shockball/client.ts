@@ -4,33 +4,37 @@
  * Handles:
  * - API key auth via x-api-key header
  * - If-Modified-Since / 304 conditional requests (free, no rate limit cost)
- * - Rate limit header tracking
+ * - Shared rate limit budget (claimed before every request, refunded on 304, see rate-limit.ts)
  * - Exponential backoff on 429
  * - Pagination (auto-fetches all pages)
+ * - Runtime validation of every response (see validate.ts)
  */
 
 import type {
   ApiMatch,
-  ApiMatchListResponse,
   ApiReplayData,
   CompetitionType,
 } from '@/types'
-
-const BASE_URL = 'https://shockball.online/api/v1/data'
-const DEADLY_SINS_TEAM_ID = 'cmgbpfhey01c8s12xz26jkbga'
-
-// ============================================================
-// Rate limit state (in-memory, resets with process)
-// ============================================================
-let rateLimitRemaining: number = 100
-let rateLimitReset: number = 0
-
-export function getRateLimitStatus() {
-  return {
-    remaining: rateLimitRemaining,
-    resetsAt: new Date(rateLimitReset * 1000).toISOString(),
-    isLow: rateLimitRemaining < 10,
-  }
+import {
+  claimRequest,
+  refundRequest,
+  recordRateLimit,
+  getRateLimitStatus,
+  type RequestPriority,
+} from './rate-limit'
+import {
+  ApiValidationError,
+  parseMatchList,
+  parseReplayData,
+  type RejectedPayload,
+} from './validate'
+
+const DEFAULT_BASE_URL = 'https://shockball.online/api/v1/data'
+
+// Read per request, not at import — scripts load .env.local after imports.
+// Point SHOCKBALL_API_BASE_URL at the stub server (npm run stub:api) to work offline.
+function getBaseUrl() {
+  return (process.env.SHOCKBALL_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '')
 }
 
 // ============================================================
@@ -40,17 +44,22 @@ export function getRateLimitStatus() {
 interface FetchOptions {
   ifModifiedSince?: string
   signal?: AbortSignal
+  priority?: RequestPriority   // defaults to 'essential'
 }
 
+// Turns the decoded body into T, throwing ApiValidationError if it doesn't fit
+type ResponseParser<T> = (raw: unknown, path: string) => T
+
 interface FetchResult<T> {
   data: T | null
   notModified: boolean       // true = 304, use cached data
   lastModified: string | null
-  rateLimitRemaining: number
+  rateLimitRemaining: number // -1 when the response carried no header
 }
 
 async function apiFetch<T>(
   path: string,
+  parse: ResponseParser<T>,
   options: FetchOptions = {},
   retryCount = 0
 ): Promise<FetchResult<T>> {
@@ -66,7 +75,10 @@ async function apiFetch<T>(
     headers['If-Modified-Since'] = options.ifModifiedSince
   }
 
-  const url = `${BASE_URL}${path}`
+  const url = `${getBaseUrl()}${path}`
+
+  // Throws RateLimitBudgetError if the shared budget can't cover this request
+  const claim = await claimRequest(options.priority ?? 'essential')
 
   let response: Response
   try {
@@ -80,11 +92,17 @@ async function apiFetch<T>(
     throw new Error(`Network error fetching ${url}: ${err}`)
   }
 
-  // Update rate limit state from headers
-  const remaining = response.headers.get('X-RateLimit-Remaining')
-  const reset = response.headers.get('X-RateLimit-Reset')
-  if (remaining) rateLimitRemaining = parseInt(remaining, 10)
-  if (reset) rateLimitReset = parseInt(reset, 10)
+  // A 304 is free — hand the slot back before the headers are merged in,
+  // since recording keeps the lower count within a window
+  if (response.status === 304) await refundRequest(claim)
+
+  // Update shared rate limit state from headers
+  const remainingHeader = response.headers.get('X-RateLimit-Remaining')
+  const resetHeader = response.headers.get('X-RateLimit-Reset')
+  const rateLimitRemaining = remainingHeader ? parseInt(remainingHeader, 10) : -1
+  if (remainingHeader) {
+    await recordRateLimit(rateLimitRemaining, resetHeader ? parseInt(resetHeader, 10) : null)
+  }
 
   const lastModified = response.headers.get('Last-Modified')
 
@@ -100,7 +118,7 @@ async function apiFetch<T>(
     const waitMs = Math.min(retryAfter * 1000, (2 ** retryCount) * 5000)
     console.warn(`[shockball-api] Rate limited. Waiting ${waitMs}ms before retry ${retryCount + 1}`)
     await new Promise(r => setTimeout(r, waitMs))
-    return apiFetch<T>(path, options, retryCount + 1)
+    return apiFetch<T>(path, parse, options, retryCount + 1)
   }
 
   if (!response.ok) {
@@ -108,7 +126,15 @@ async function apiFetch<T>(
     throw new Error(`Shockball API error ${response.status} for ${path}: ${body}`)
   }
 
-  const data = await response.json() as T
+  const body = await response.text()
+  let raw: unknown
+  try {
+    raw = JSON.parse(body)
+  } catch {
+    throw new ApiValidationError(path, ['$: response body is not valid JSON'], body)
+  }
+
+  const data = parse(raw, path)
   return { data, notModified: false, lastModified, rateLimitRemaining }
 }
 
@@ -119,9 +145,16 @@ async function apiFetch<T>(
 async function fetchAllPages(
   endpoint: string,
   params: Record<string, string>,
-  ifModifiedSince?: string
-): Promise<{ matches: ApiMatch[]; lastModified: string | null; notModified: boolean }> {
+  ifModifiedSince?: string,
+  stopAfter?: (page: ApiMatch[]) => boolean   // ends paging early once a page satisfies it
+): Promise<{
+  matches: ApiMatch[]
+  rejected: RejectedPayload[]   // failed validation — quarantine, don't abort
+  lastModified: string | null
+  notModified: boolean
+}> {
   const allMatches: ApiMatch[] = []
+  const rejected: RejectedPayload[] = []
   let offset = 0
   const limit = 100
   let lastModified: string | null = null
@@ -133,25 +166,32 @@ async function fetchAllPages(
       offset: offset.toString(),
     })
 
-    const result = await apiFetch<ApiMatchListResponse>(
+    const result = await apiFetch(
       `${endpoint}?${searchParams}`,
+      parseMatchList,
       { ifModifiedSince: offset === 0 ? ifModifiedSince : undefined }
     )
 
     if (result.notModified) {
-      return { matches: [], lastModified: result.lastModified, notModified: true }
+      return { matches: [], rejected: [], lastModified: result.lastModified, notModified: true }
     }
 
     if (!result.data) break
 
     if (offset === 0) lastModified = result.lastModified
     allMatches.push(...result.data.matches)
-
-    if (!result.data.meta.hasMore) break
-    offset += limit
+    rejected.push(...result.data.rejected)
+
+    // Advance by what the page actually held, rejected rows included — the
+    // API may return fewer than `limit`, and stepping by `limit` would skip
+    // the rows in between. An empty page ends the loop even if hasMore is set.
+    const pageLength = result.data.matches.length + result.data.rejected.length
+    if (!result.data.meta.hasMore || pageLength === 0) break
+    if (stopAfter?.(result.data.matches)) break
+    offset += pageLength
   }
 
-  return { matches: allMatches, lastModified, notModified: false }
+  return { matches: allMatches, rejected, lastModified, notModified: false }
 }
 
 // ============================================================
@@ -194,18 +234,47 @@ export async function getRecentMatches(
   return fetchAllPages('/matches/recent', params, options.ifModifiedSince)
 }
 
+/**
+ * Page back through completed matches, newest first, until the list passes
+ * `since` (ISO date). Never conditional: a backfill needs every page even
+ * when the list hasn't changed. The API has no date filter, so the last page
+ * can include older matches — callers filter by date themselves.
+ */
+export async function getCompletedMatchHistory(
+  options: {
+    since?: string
+    competitionType?: CompetitionType
+  } = {}
+) {
+  const params: Record<string, string> = {}
+  if (options.competitionType && options.competitionType !== 'ALL') {
+    params.competitionType = options.competitionType
+  }
+
+  const since = options.since ? Date.parse(options.since) : null
+  return fetchAllPages(
+    '/matches/recent',
+    params,
+    undefined,
+    since === null ? undefined : page => page.some(m => Date.parse(m.scheduledTime) < since)
+  )
+}
+
 /**
  * Fetch full replay data for a completed match.
  * Completed match data is immutable — safe to cache indefinitely.
  * Uses If-Modified-Since: once fetched, subsequent calls are always free 304s.
+ * Throws ApiValidationError if the payload doesn't match ApiReplayData.
  */
 export async function getMatchReplay(
   matchId: string,
-  ifModifiedSince?: string
+  ifModifiedSince?: string,
+  priority: RequestPriority = 'essential'
 ): Promise<{ data: ApiReplayData | null; notModified: boolean; lastModified: string | null }> {
-  const result = await apiFetch<ApiReplayData>(
+  const result = await apiFetch(
     `/matches/${matchId}/replay-data`,
-    { ifModifiedSince }
+    parseReplayData,
+    { ifModifiedSince, priority }
   )
   return {
     data: result.data,
@@ -215,14 +284,16 @@ export async function getMatchReplay(
 }
 
 /**
- * Filter a list of matches to only those involving Deadly Sins
+ * Filter a list of matches to only those involving a tracked team
  */
-export function filterDeadlySinsMatches(matches: ApiMatch[]): ApiMatch[] {
+export function filterTrackedMatches(matches: ApiMatch[], trackedTeamIds: Set<string>): ApiMatch[] {
   return matches.filter(
-    m =>
-      m.homeTeam.id === DEADLY_SINS_TEAM_ID ||
-      m.awayTeam.id === DEADLY_SINS_TEAM_ID
+    m => trackedTeamIds.has(m.homeTeam.id) || trackedTeamIds.has(m.awayTeam.id)
   )
 }
 
-export { DEADLY_SINS_TEAM_ID }
+export { getRateLimitStatus }
+export { RateLimitBudgetError } from './rate-limit'
+export type { RequestPriority } from './rate-limit'
+export { ApiValidationError } from './validate'
+export type { RejectedPayload } from './validate'
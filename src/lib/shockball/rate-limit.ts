@@ -0,0 +1,111 @@
+/**
+ * Shared Rate Limit Budget
+ *
+ * The Shockball API allows ~100 requests/hour per key. Vercel cold starts
+ * don't share memory, so the budget is kept in the `api_rate_limit` table
+ * (see 002_api_rate_limit.sql) and claimed atomically before every request.
+ *
+ * - essential:  user-facing or DS-critical requests, only refused at 0
+ * - background: scouting/backfill work, refused once the budget falls to
+ *               BACKGROUND_RESERVE so essential requests keep headroom
+ */
+
+import { createServerClient } from '@/lib/supabase/client'
+
+export type RequestPriority = 'essential' | 'background'
+
+export const HOURLY_REQUEST_LIMIT = 100
+export const BACKGROUND_RESERVE = 25
+const LOW_BUDGET_THRESHOLD = 10
+
+export class RateLimitBudgetError extends Error {
+  constructor(
+    public readonly priority: RequestPriority,
+    public readonly remaining: number,
+    public readonly resetsAt: string | null
+  ) {
+    super(`Shockball rate-limit budget too low for ${priority} request (${remaining} remaining)`)
+    this.name = 'RateLimitBudgetError'
+  }
+}
+
+export interface RateLimitStatus {
+  remaining: number
+  resetsAt: string | null
+  isLow: boolean
+}
+
+function toStatus(remaining: number, resetsAt: string | null): RateLimitStatus {
+  return { remaining, resetsAt, isLow: remaining < LOW_BUDGET_THRESHOLD }
+}
+
+/**
+ * Take one request from the shared budget, or throw RateLimitBudgetError.
+ * If the store itself is unreachable we let the request through — the API's
+ * own 429 handling is the backstop, and a DB blip shouldn't halt syncing.
+ */
+export async function claimRequest(priority: RequestPriority): Promise<RateLimitStatus> {
+  const reserve = priority === 'background' ? BACKGROUND_RESERVE : 0
+  const db = createServerClient()
+
+  const { data, error } = await db
+    .rpc('claim_api_request', { p_reserve: reserve })
+    .single<{ granted: boolean; remaining_after: number; resets_at: string | null }>()
+
+  if (error || !data) {
+    console.warn('[rate-limit] Could not claim from shared budget, proceeding:', error)
+    return toStatus(HOURLY_REQUEST_LIMIT, null)
+  }
+
+  if (!data.granted) {
+    throw new RateLimitBudgetError(priority, data.remaining_after, data.resets_at)
+  }
+
+  return toStatus(data.remaining_after, data.resets_at)
+}
+
+/**
+ * Hand back a claim whose request turned out free (a 304). Ignored once the
+ * window it was claimed in has rolled over, and for claims made while the
+ * store was unreachable.
+ */
+export async function refundRequest(claim: RateLimitStatus) {
+  if (!claim.resetsAt) return
+  const db = createServerClient()
+  const { error } = await db.rpc('refund_api_request', { p_reset_at: claim.resetsAt })
+  if (error) console.warn('[rate-limit] Failed to refund claimed request:', error)
+}
+
+/**
+ * Persist the budget reported by X-RateLimit-Remaining / X-RateLimit-Reset.
+ * `resetEpochSeconds` is the raw header value.
+ */
+export async function recordRateLimit(remaining: number, resetEpochSeconds: number | null) {
+  const db = createServerClient()
+  const { error } = await db.rpc('record_api_rate_limit', {
+    p_remaining: remaining,
+    p_reset_at: resetEpochSeconds ? new Date(resetEpochSeconds * 1000).toISOString() : null,
+  })
+  if (error) console.warn('[rate-limit] Failed to record rate limit headers:', error)
+}
+
+/**
+ * Current shared budget, for the admin page, /api/sync and scripts.
+ */
+export async function getRateLimitStatus(): Promise<RateLimitStatus> {
+  const db = createServerClient()
+  const { data } = await db
+    .from('api_rate_limit')
+    .select('hourly_limit, remaining, reset_at')
+    .eq('id', 'shockball')
+    .maybeSingle()
+
+  if (!data) return toStatus(HOURLY_REQUEST_LIMIT, null)
+
+  // Window already rolled over — the next claim will reset it
+  if (data.reset_at && new Date(data.reset_at).getTime() <= Date.now()) {
+    return toStatus(data.hourly_limit, null)
+  }
+
+  return toStatus(data.remaining, data.reset_at)
+}
@@ -0,0 +1,289 @@
+/**
+ * Runtime validation of Shockball API responses
+ *
+ * The API types in src/types are compile-time only. These validators check
+ * every response against them before the sync worker sees it, so a shape
+ * change surfaces as an ApiValidationError with readable paths instead of
+ * nulls or crashes deep in persistence.
+ *
+ * - Unknown extra fields are ignored
+ * - null is accepted wherever the type marks a field optional
+ * - Match lists are validated per match: bad matches are returned as
+ *   `rejected` for quarantine while the rest of the page is kept
+ */
+
+import type {
+  ApiMatch,
+  ApiMatchListResponse,
+  ApiReplayData,
+} from '@/types'
+
+const MAX_REPORTED_ISSUES = 20
+
+export class ApiValidationError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly issues: string[],
+    public readonly payload: unknown
+  ) {
+    const shown = issues.slice(0, 5).join('; ')
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : ''
+    super(`Invalid Shockball API response from ${endpoint}: ${shown}${more}`)
+    this.name = 'ApiValidationError'
+  }
+}
+
+export interface RejectedPayload {
+  entityId: string | null
+  issues: string[]
+  payload: unknown
+}
+
+// ============================================================
+// Validator combinators
+// ============================================================
+
+type Validator = (value: unknown, path: string, issues: string[]) => void
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function report(issues: string[], message: string) {
+  if (issues.length < MAX_REPORTED_ISSUES) issues.push(message)
+}
+
+const string = (): Validator => (v, p, i) => {
+  if (typeof v !== 'string') report(i, `${p}: expected string, got ${describe(v)}`)
+}
+
+const dateString = (): Validator => (v, p, i) => {
+  if (typeof v !== 'string' || Number.isNaN(Date.parse(v))) {
+    report(i, `${p}: expected ISO date string, got ${JSON.stringify(v)}`)
+  }
+}
+
+const number = (range: { min?: number; max?: number; integer?: boolean } = {}): Validator => (v, p, i) => {
+  if (typeof v !== 'number' || !Number.isFinite(v)) {
+    report(i, `${p}: expected number, got ${describe(v)}`)
+  } else if (range.integer && !Number.isInteger(v)) {
+    report(i, `${p}: expected integer, got ${v}`)
+  } else if ((range.min !== undefined && v < range.min) || (range.max !== undefined && v > range.max)) {
+    report(i, `${p}: ${v} outside ${range.min ?? '-∞'}..${range.max ?? '∞'}`)
+  }
+}
+
+const boolean = (): Validator => (v, p, i) => {
+  if (typeof v !== 'boolean') report(i, `${p}: expected boolean, got ${describe(v)}`)
+}
+
+const oneOf = (values: readonly string[]): Validator => (v, p, i) => {
+  if (typeof v !== 'string' || !values.includes(v)) {
+    report(i, `${p}: expected one of ${values.join('|')}, got ${JSON.stringify(v)}`)
+  }
+}
+
+const optional = (inner: Validator): Validator => (v, p, i) => {
+  if (v === undefined || v === null) return
+  inner(v, p, i)
+}
+
+const array = (item: Validator): Validator => (v, p, i) => {
+  if (!Array.isArray(v)) return report(i, `${p}: expected array, got ${describe(v)}`)
+  v.forEach((el, idx) => item(el, `${p}[${idx}]`, i))
+}
+
+const record = (value: Validator): Validator => (v, p, i) => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) {
+    return report(i, `${p}: expected object, got ${describe(v)}`)
+  }
+  for (const [k, val] of Object.entries(v)) value(val, `${p}.${k}`, i)
+}
+
+const object = (shape: Record<string, Validator>): Validator => (v, p, i) => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) {
+    return report(i, `${p}: expected object, got ${describe(v)}`)
+  }
+  const obj = v as Record<string, unknown>
+  for (const [key, check] of Object.entries(shape)) check(obj[key], `${p}.${key}`, i)
+}
+
+// ============================================================
+// Schemas (mirror src/types/index.ts)
+// ============================================================
+
+const teamSchema = object({
+  id: string(),
+  name: string(),
+  imageUrl: optional(string()),
+  venue: optional(string()),
+})
+
+const matchSchema = object({
+  id: string(),
+  scheduledTime: dateString(),
+  status: oneOf(['SCHEDULED', 'IN_PROGRESS', 'COMPLETED']),
+  homeScore: optional(number({ min: 0 })),
+  awayScore: optional(number({ min: 0 })),
+  homeTeam: teamSchema,
+  awayTeam: teamSchema,
+  competition: optional(object({
+    id: string(),
+    name: string(),
+    type: oneOf(['FRIENDLY', 'DIVISION', 'CONFERENCE', 'LEAGUE']),
+    status: optional(string()),
+    startDate: optional(dateString()),
+    season: optional(number()),
+  })),
+  conference: optional(object({ id: string(), name: string() })),
+  league: optional(object({ id: string(), name: string() })),
+})
+
+const listEnvelopeSchema = object({
+  matches: array(() => {}),   // matches are validated one by one below
+  meta: object({
+    total: number({ min: 0 }),
+    limit: number({ min: 0 }),
+    offset: number({ min: 0 }),
+    hasMore: boolean(),
+  }),
+})
+
+const count = () => number({ min: 0 })
+
+const playerStatsSchema = object({
+  playerId: string(),
+  playerName: string(),
+  shots: count(),
+  goals: count(),
+  passes: count(),
+  tackles: count(),
+  blocks: count(),
+  fouls: count(),
+  wasInjured: boolean(),
+})
+
+// energy_snapshots has a 0..100 check constraint — catch it here, not in the DB
+const energyMap = record(number({ min: 0, max: 100 }))
+
+const eventSchema = object({
+  turn: number({ min: 0 }),
+  type: string(),
+  description: string(),
+  playersInvolved: array(string()),
+  homeScore: number({ min: 0 }),
+  awayScore: number({ min: 0 }),
+  // The event views (012–015) cast these fields, so one bad value would break every read
+  context: optional(object({
+    shot: optional(object({
+      distanceToGoal: optional(number()),
+      pressure: optional(number()),
+      shooterAccuracy: optional(number()),
+      guardBlocking: optional(number()),
+      outcome: optional(oneOf(['goal', 'save_caught', 'save_rebound', 'miss'])),
+    })),
+    pass: optional(object({
+      distance: optional(number()),
+      defendersInLane: optional(number({ min: 0, integer: true })),
+      passerAccuracy: optional(number()),
+      outcome: optional(oneOf(['completed', 'interception', 'incomplete'])),
+    })),
+    tackle: optional(object({
+      tacklerAggression: optional(number()),
+      tacklerStrength: optional(number()),
+    })),
+    foul: optional(object({
+      severity: optional(oneOf(['light', 'normal', 'heavy'])),
+      penaltyDuration: optional(number()),
+    })),
+    injury: optional(object({
+      severity: optional(oneOf(['MINOR', 'SERIOUS'])),
+      substitutedByBot: optional(boolean()),
+    })),
+    substitution: optional(object({
+      reason: optional(oneOf(['injury', 'energy_low'])),
+      outgoingEnergy: optional(number()),
+      incomingEnergy: optional(number()),
+    })),
+    advance: optional(object({
+      distanceAdvanced: optional(number()),
+      nearestDefenderDistance: optional(number()),
+    })),
+    initialEnergy: optional(energyMap),
+    turnEnergy: optional(energyMap),
+  })),
+})
+
+const replaySchema = object({
+  success: boolean(),
+  data: object({
+    match: object({
+      id: string(),
+      homeTeam: teamSchema,
+      awayTeam: teamSchema,
+      homeScore: number({ min: 0 }),
+      awayScore: number({ min: 0 }),
+      scheduledTime: dateString(),
+      simVersion: string(),
+    }),
+    playerStats: object({
+      home: array(playerStatsSchema),
+      away: array(playerStatsSchema),
+    }),
+    events: array(eventSchema),
+  }),
+  timestamp: string(),
+})
+
+// ============================================================
+// Public validators
+// ============================================================
+
+function check(schema: Validator, value: unknown): string[] {
+  const issues: string[] = []
+  schema(value, '$', issues)
+  return issues
+}
+
+export interface ValidatedMatchList {
+  matches: ApiMatch[]
+  rejected: RejectedPayload[]
+  meta: ApiMatchListResponse['meta']
+}
+
+/**
+ * Validate one page of /matches/upcoming or /matches/recent. A broken
+ * envelope throws; individual broken matches are returned in `rejected`.
+ */
+export function parseMatchList(raw: unknown, endpoint: string): ValidatedMatchList {
+  const envelopeIssues = check(listEnvelopeSchema, raw)
+  if (envelopeIssues.length > 0) throw new ApiValidationError(endpoint, envelopeIssues, raw)
+
+  const page = raw as { matches: unknown[]; meta: ApiMatchListResponse['meta'] }
+  const matches: ApiMatch[] = []
+  const rejected: RejectedPayload[] = []
+
+  for (const candidate of page.matches) {
+    const issues = check(matchSchema, candidate)
+    if (issues.length === 0) {
+      matches.push(candidate as ApiMatch)
+    } else {
+      const id = (candidate as { id?: unknown } | null)?.id
+      rejected.push({ entityId: typeof id === 'string' ? id : null, issues, payload: candidate })
+    }
+  }
+
+  return { matches, rejected, meta: page.meta }
+}
+
+/**
+ * Validate a /matches/{id}/replay-data response. Throws on any issue —
+ * a partially valid replay can't be persisted atomically.
+ */
+export function parseReplayData(raw: unknown, endpoint: string): ApiReplayData {
+  const issues = check(replaySchema, raw)
+  if (issues.length > 0) throw new ApiValidationError(endpoint, issues, raw)
+  return raw as ApiReplayData
+}
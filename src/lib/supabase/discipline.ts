@@ -0,0 +1,99 @@
+/**
+ * Discipline Loader
+ *
+ * Reads tackle_events (014_tackle_events.sql) to profile players and
+ * whole teams with the discipline model in
+ * src/lib/analytics/discipline.ts. The model is refitted by the sync
+ * worker and stored in fitted_models; pages read that stored fit.
+ * Reads page past the API row limit.
+ */
+
+import type { createServerClient } from './client'
+import {
+  fitDisciplineModel,
+  summariseDiscipline,
+  type DisciplineModel,
+  type PlayerDiscipline,
+  type TackleRow,
+} from '@/lib/analytics/discipline'
+import { loadFittedModel, refitModel, type TrainingSource } from './fitted-models'
+
+type Db = ReturnType<typeof createServerClient>
+
+const PAGE_SIZE = 1000
+
+const TACKLE_COLUMNS = 'tackler_id, aggression, strength, foul_severity, penalty_duration'
+
+const DISCIPLINE_TRAINING: TrainingSource = { view: 'tackle_events', columns: TACKLE_COLUMNS, orderWithinMatch: 'seq' }
+
+/** Refit on the latest stored tackles and store the fit (service role) */
+export async function refitDisciplineModel(db: Db): Promise<DisciplineModel> {
+  return refitModel(db, 'discipline', DISCIPLINE_TRAINING, fitDisciplineModel)
+}
+
+export async function loadDisciplineModel(db: Db): Promise<DisciplineModel> {
+  return loadFittedModel(db, 'discipline', () => fitDisciplineModel([]))
+}
+
+/**
+ * Every stored tackle by `playerIds`, optionally only in `matchIds`,
+ * grouped by tackler.
+ */
+export async function listTacklesByPlayer(
+  db: Db,
+  playerIds: string[],
+  matchIds?: string[]
+): Promise<Record<string, TackleRow[]>> {
+  const byPlayer: Record<string, TackleRow[]> = {}
+  if (playerIds.length === 0 || matchIds?.length === 0) return byPlayer
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = db
+      .from('tackle_events')
+      .select(TACKLE_COLUMNS)
+      .in('tackler_id', playerIds)
+    if (matchIds) query = query.in('match_id', matchIds)
+
+    const { data, error } = await query
+      .order('match_id')
+      .order('seq', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load player tackles: ${error.message}`)
+    for (const row of (data ?? []) as TackleRow[]) {
+      if (row.tackler_id) (byPlayer[row.tackler_id] ??= []).push(row)
+    }
+    if (!data || data.length < PAGE_SIZE) return byPlayer
+  }
+}
+
+export interface TeamDisciplineRow {
+  playerId: string
+  playerName: string
+  discipline: PlayerDiscipline
+}
+
+/**
+ * Discipline profile for each of a team's players who has tackled,
+ * most penalty time expected per match first.
+ */
+export async function getTeamDiscipline(db: Db, teamId: string, model: DisciplineModel): Promise<TeamDisciplineRow[]> {
+  const { data, error } = await db
+    .from('player_career_stats')
+    .select('player_id, player_name, matches_played')
+    .eq('team_id', teamId)
+
+  if (error) throw new Error(`Failed to load team players: ${error.message}`)
+  const players = data ?? []
+
+  const tackles = await listTacklesByPlayer(db, players.map(p => p.player_id))
+
+  return players
+    .filter(p => (tackles[p.player_id]?.length ?? 0) > 0)
+    .map(p => ({
+      playerId: p.player_id as string,
+      playerName: p.player_name as string,
+      discipline: summariseDiscipline(model, tackles[p.player_id], p.matches_played),
+    }))
+    .sort((a, b) => (b.discipline.expectedPenaltyPerMatch ?? 0) - (a.discipline.expectedPenaltyPerMatch ?? 0))
+}
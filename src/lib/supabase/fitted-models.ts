@@ -0,0 +1,80 @@
+/**
+ * Fitted Model Store
+ *
+ * Shared by the model loaders (xg.ts, …): reads a model's training
+ * rows from its view, newest matches first and paged past the API row
+ * limit, and keeps the fitted result in `fitted_models`
+ * (017_fitted_models.sql). Only the sync worker refits
+ * (src/workers/models.ts); pages read the stored coefficients.
+ */
+
+import type { createServerClient } from './client'
+
+type Db = ReturnType<typeof createServerClient>
+
+/** Most recent training rows a model is fitted on */
+export const TRAINING_ROW_LIMIT = 20_000
+
+const PAGE_SIZE = 1000
+
+export interface TrainingSource {
+  view: string
+  columns: string
+  orderWithinMatch: string   // e.g. 'seq' or 'turn'; rows are newest match first
+}
+
+async function loadTrainingRows<Row>(db: Db, source: TrainingSource): Promise<Row[]> {
+  const rows: Row[] = []
+
+  for (let from = 0; from < TRAINING_ROW_LIMIT; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from(source.view)
+      .select(source.columns)
+      .order('scheduled_time', { ascending: false })
+      .order('match_id')
+      .order(source.orderWithinMatch, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load ${source.view} training rows: ${error.message}`)
+    rows.push(...((data ?? []) as Row[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return rows
+}
+
+/**
+ * Fit `name` on its latest training rows and store the result.
+ * Needs the service-role client.
+ */
+export async function refitModel<Row, Model>(
+  db: Db,
+  name: string,
+  source: TrainingSource,
+  fit: (rows: Row[]) => Model
+): Promise<Model> {
+  const rows = await loadTrainingRows<Row>(db, source)
+  const model = fit(rows)
+
+  const { error } = await db.from('fitted_models').upsert(
+    { name, model, training_rows: rows.length, fitted_at: new Date().toISOString() },
+    { onConflict: 'name' }
+  )
+  if (error) throw new Error(`Failed to store ${name} model: ${error.message}`)
+
+  return model
+}
+
+/**
+ * The stored fit of `name`, or `unfitted` before the first refit.
+ */
+export async function loadFittedModel<Model>(db: Db, name: string, unfitted: () => Model): Promise<Model> {
+  const { data, error } = await db
+    .from('fitted_models')
+    .select('model')
+    .eq('name', name)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load ${name} model: ${error.message}`)
+  return data ? (data.model as Model) : unfitted()
+}
@@ -0,0 +1,89 @@
+/**
+ * Injury Loader
+ *
+ * Reads injury_events (015_injury_events.sql) and the team's replayed
+ * matches and appearances to build the injury register and squad
+ * availability in src/lib/analytics/availability.ts. Reads page past
+ * the API row limit.
+ */
+
+import type { createServerClient } from './client'
+import {
+  buildInjuryRegister,
+  expectedMatchesMissed,
+  type InjuryRecord,
+  type InjuryRow,
+  type InjurySeverity,
+  type TeamAppearances,
+} from '@/lib/analytics/availability'
+
+type Db = ReturnType<typeof createServerClient>
+
+const PAGE_SIZE = 1000
+
+export async function listInjuries(db: Db, teamId: string): Promise<InjuryRow[]> {
+  const injuries: InjuryRow[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('injury_events')
+      .select('match_id, scheduled_time, player_id, player_name, team_id, turn, severity, substituted_by_bot')
+      .eq('team_id', teamId)
+      .order('scheduled_time', { ascending: false })
+      .order('player_id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load injuries: ${error.message}`)
+    injuries.push(...((data ?? []) as InjuryRow[]))
+    if (!data || data.length < PAGE_SIZE) return injuries
+  }
+}
+
+/**
+ * Every replayed match the team has played, with who appeared in it.
+ */
+export async function listTeamAppearances(db: Db, teamId: string): Promise<TeamAppearances[]> {
+  const { data: matches, error } = await db
+    .from('matches')
+    .select('id, scheduled_time')
+    .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+    .eq('status', 'COMPLETED')
+    .eq('replay_fetched', true)
+
+  if (error) throw new Error(`Failed to load team matches: ${error.message}`)
+
+  const byMatch = new Map<string, TeamAppearances>(
+    (matches ?? []).map(m => [m.id, { matchId: m.id, scheduledTime: m.scheduled_time, playerIds: new Set<string>() }])
+  )
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('player_match_stats')
+      .select('match_id, player_id')
+      .eq('team_id', teamId)
+      .order('match_id')
+      .order('player_id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load appearances: ${error.message}`)
+    for (const row of data ?? []) byMatch.get(row.match_id)?.playerIds.add(row.player_id)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return [...byMatch.values()]
+}
+
+export interface InjuryRegister {
+  register: InjuryRecord[]
+  expected: Record<InjurySeverity, number>
+}
+
+export async function getInjuryRegister(db: Db, teamId: string): Promise<InjuryRegister> {
+  const [injuries, appearances] = await Promise.all([
+    listInjuries(db, teamId),
+    listTeamAppearances(db, teamId),
+  ])
+
+  const register = buildInjuryRegister(injuries, appearances)
+  return { register, expected: expectedMatchesMissed(register) }
+}
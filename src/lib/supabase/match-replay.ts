@@ -0,0 +1,62 @@
+/**
+ * Match Replay Loader
+ *
+ * Every stored event and energy snapshot for one match, for the
+ * turn-by-turn replay viewer and the event log (see
+ * src/lib/analytics/replay.ts and event-log.ts). A full
+ * match runs to a few thousand rows of each, so reads page past the API
+ * row limit.
+ */
+
+import type { createServerClient } from './client'
+import type { EnergyPoint } from '@/lib/analytics/replay'
+import type { EventLogEntry } from '@/lib/analytics/event-log'
+
+type Db = ReturnType<typeof createServerClient>
+
+const PAGE_SIZE = 1000
+
+/**
+ * Match events in replay order. TURN_UPDATE is left out: it only
+ * carries the energy already stored in energy_snapshots.
+ */
+export async function listReplayEvents(db: Db, matchId: string): Promise<EventLogEntry[]> {
+  const events: EventLogEntry[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('match_events')
+      .select('seq, turn, type, description, players_involved, home_score, away_score, context')
+      .eq('match_id', matchId)
+      .neq('type', 'TURN_UPDATE')
+      .order('seq', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load match events: ${error.message}`)
+    events.push(...((data ?? []) as EventLogEntry[]))
+    if (!data || data.length < PAGE_SIZE) return events
+  }
+}
+
+/**
+ * Every player's energy curve for the match, sorted by turn.
+ */
+export async function listReplayEnergy(db: Db, matchId: string): Promise<Record<string, EnergyPoint[]>> {
+  const byPlayer: Record<string, EnergyPoint[]> = {}
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('energy_snapshots')
+      .select('player_id, turn, energy')
+      .eq('match_id', matchId)
+      .order('player_id')
+      .order('turn', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load energy snapshots: ${error.message}`)
+    for (const snap of data ?? []) {
+      ;(byPlayer[snap.player_id] ??= []).push({ turn: snap.turn, energy: snap.energy })
+    }
+    if (!data || data.length < PAGE_SIZE) return byPlayer
+  }
+}
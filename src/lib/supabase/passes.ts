@@ -0,0 +1,48 @@
+/**
+ * Pass Loader
+ *
+ * Reads pass_events (013_pass_events.sql) for the passing network on
+ * the match page and the pass-risk breakdown on player pages.
+ */
+
+import type { createServerClient } from './client'
+import type { PassRow } from '@/lib/analytics/passing'
+
+type Db = ReturnType<typeof createServerClient>
+
+const PAGE_SIZE = 1000
+
+const PASS_COLUMNS = 'passer_id, target_id, distance, defenders_in_lane, passer_accuracy, outcome'
+
+/** Passes in one match, in replay order */
+export async function listMatchPasses(db: Db, matchId: string): Promise<PassRow[]> {
+  const { data, error } = await db
+    .from('pass_events')
+    .select(PASS_COLUMNS)
+    .eq('match_id', matchId)
+    .order('seq', { ascending: true })
+
+  if (error) throw new Error(`Failed to load match passes: ${error.message}`)
+  return (data ?? []) as PassRow[]
+}
+
+/** Every stored pass a player attempted in `matchIds`, paged past the API row limit */
+export async function listPlayerPasses(db: Db, playerId: string, matchIds: string[]): Promise<PassRow[]> {
+  const passes: PassRow[] = []
+  if (matchIds.length === 0) return passes
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('pass_events')
+      .select(PASS_COLUMNS)
+      .eq('passer_id', playerId)
+      .in('match_id', matchIds)
+      .order('match_id')
+      .order('seq', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load player passes: ${error.message}`)
+    passes.push(...((data ?? []) as PassRow[]))
+    if (!data || data.length < PAGE_SIZE) return passes
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Raw Replay Archive
+ *
+ * Stores each fetched ApiReplayData payload gzipped in `replay_archive`
+ * (see 006_replay_archive.sql) so derived tables can be rebuilt offline.
+ * bytea goes over PostgREST as a '\x'-prefixed hex string.
+ */
+
+import { gzipSync, gunzipSync } from 'node:zlib'
+import type { createServerClient } from './client'
+import { parseReplayData } from '@/lib/shockball/validate'
+import type { ApiReplayData } from '@/types'
+
+type Db = ReturnType<typeof createServerClient>
+
+export async function archiveReplay(db: Db, matchId: string, replay: ApiReplayData) {
+  const raw = Buffer.from(JSON.stringify(replay), 'utf8')
+  const compressed = gzipSync(raw)
+
+  const { error } = await db.from('replay_archive').upsert(
+    {
+      match_id: matchId,
+      payload_gzip: `\\x${compressed.toString('hex')}`,
+      raw_bytes: raw.length,
+      compressed_bytes: compressed.length,
+      sim_version: replay.data.match.simVersion,
+      fetched_at: new Date().toISOString(),
+    },
+    { onConflict: 'match_id' }
+  )
+
+  if (error) throw new Error(`Failed to archive replay for ${matchId}: ${error.message}`)
+}
+
+/**
+ * Returns the archived replay, or null if the match was never archived.
+ * Validated like a live response, since older archives predate validation.
+ */
+export async function loadArchivedReplay(db: Db, matchId: string): Promise<ApiReplayData | null> {
+  const { data, error } = await db
+    .from('replay_archive')
+    .select('payload_gzip')
+    .eq('match_id', matchId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load archived replay for ${matchId}: ${error.message}`)
+  if (!data) return null
+
+  const hex = String(data.payload_gzip).replace(/^\\x/, '')
+  const raw: unknown = JSON.parse(gunzipSync(Buffer.from(hex, 'hex')).toString('utf8'))
+  return parseReplayData(raw, `archive:${matchId}`)
+}
+
+/**
+ * IDs of every archived match, oldest fetch first.
+ */
+export async function listArchivedMatchIds(db: Db): Promise<string[]> {
+  const ids: string[] = []
+  const pageSize = 1000
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await db
+      .from('replay_archive')
+      .select('match_id')
+      .order('fetched_at', { ascending: true })
+      .range(from, from + pageSize - 1)
+
+    if (error) throw new Error(`Failed to list archived replays: ${error.message}`)
+    ids.push(...(data ?? []).map(r => r.match_id))
+    if (!data || data.length < pageSize) break
+  }
+
+  return ids
+}
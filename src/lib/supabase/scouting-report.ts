@@ -0,0 +1,167 @@
+/**
+ * Scouting Report Loader
+ *
+ * Gathers an opponent's stored matches, career stats and energy
+ * thresholds and hands them to buildScoutingReport
+ * (src/lib/analytics/scouting.ts), plus the head-to-head record and top
+ * scorers shown alongside it on the scouting page and printable
+ * briefing. Works with any client; pages pass the user client so RLS
+ * applies.
+ */
+
+import type { createServerClient } from './client'
+import type { MatchScoutingReport } from '@/types'
+import {
+  buildScoutingReport,
+  type FadeRow,
+  type ScoutingMatchRow,
+  type ScoutingPlayerRow,
+} from '@/lib/analytics/scouting'
+
+type Db = ReturnType<typeof createServerClient>
+
+/** Most recent replayed matches used for the energy fade pattern */
+export const FADE_HISTORY_MATCHES = 20
+
+/**
+ * Full scouting report for `teamId` from all their completed matches,
+ * or null if the team isn't stored.
+ */
+export async function getScoutingReport(db: Db, teamId: string): Promise<MatchScoutingReport | null> {
+  const [teamResult, matchesResult, playersResult] = await Promise.all([
+    db.from('teams').select('id, name').eq('id', teamId).maybeSingle(),
+    db
+      .from('matches')
+      .select('id, home_team_id, away_team_id, home_score, away_score, replay_fetched')
+      .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+      .eq('status', 'COMPLETED')
+      .order('scheduled_time', { ascending: false }),
+    db
+      .from('player_career_stats')
+      .select('player_id, player_name, matches_played, total_tackles, total_fouls, avg_goals_per_match, avg_tackles_per_match')
+      .eq('team_id', teamId),
+  ])
+
+  if (teamResult.error) throw new Error(`Failed to load team: ${teamResult.error.message}`)
+  if (matchesResult.error) throw new Error(`Failed to load opponent matches: ${matchesResult.error.message}`)
+  if (playersResult.error) throw new Error(`Failed to load opponent players: ${playersResult.error.message}`)
+  if (!teamResult.data) return null
+
+  const matches = matchesResult.data ?? []
+  const players = (playersResult.data ?? []) as ScoutingPlayerRow[]
+
+  const replayedIds = matches.filter(m => m.replay_fetched).slice(0, FADE_HISTORY_MATCHES).map(m => m.id)
+  const playerIds = players.map(p => p.player_id)
+
+  let fadeRows: FadeRow[] = []
+  if (replayedIds.length > 0 && playerIds.length > 0) {
+    const { data, error } = await db
+      .from('player_energy_thresholds')
+      .select('first_turn_below_30, last_turn_tracked')
+      .in('match_id', replayedIds)
+      .in('player_id', playerIds)
+    if (error) throw new Error(`Failed to load opponent energy thresholds: ${error.message}`)
+    fadeRows = data ?? []
+  }
+
+  return buildScoutingReport(teamResult.data, matches as ScoutingMatchRow[], players, fadeRows)
+}
+
+export interface HeadToHead {
+  matches: Array<{
+    id: string
+    scheduled_time: string
+    home_team_id: string
+    away_team_id: string
+    home_score: number | null
+    away_score: number | null
+    replay_fetched: boolean
+    status: string
+  }>
+  wins: number
+  draws: number
+  losses: number
+}
+
+/**
+ * Every match between `usId` and `teamId`, newest first, with our W/D/L
+ * record over those with a final score.
+ */
+export async function getHeadToHead(db: Db, teamId: string, usId: string): Promise<HeadToHead> {
+  const { data, error } = await db
+    .from('matches')
+    .select('id, scheduled_time, home_team_id, away_team_id, home_score, away_score, replay_fetched, status')
+    .or(`and(home_team_id.eq.${usId},away_team_id.eq.${teamId}),and(home_team_id.eq.${teamId},away_team_id.eq.${usId})`)
+    .order('scheduled_time', { ascending: false })
+
+  if (error) throw new Error(`Failed to load head-to-head matches: ${error.message}`)
+
+  const matches = data ?? []
+  let wins = 0, draws = 0, losses = 0
+  for (const m of matches) {
+    const isHome = m.home_team_id === usId
+    const ourScore = isHome ? m.home_score : m.away_score
+    const oppScore = isHome ? m.away_score : m.home_score
+    if (ourScore === null || oppScore === null) continue
+    if (ourScore > oppScore) wins++
+    else if (ourScore < oppScore) losses++
+    else draws++
+  }
+
+  return { matches, wins, draws, losses }
+}
+
+/**
+ * A team's most dangerous scorers by career goals per match.
+ */
+export async function listTopScorers(db: Db, teamId: string, limit = 3) {
+  const { data, error } = await db
+    .from('player_career_stats')
+    .select('player_id, player_name, matches_played, avg_goals_per_match, avg_shots_per_match, career_shot_conversion')
+    .eq('team_id', teamId)
+    .gt('avg_goals_per_match', 0)
+    .order('avg_goals_per_match', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to load top scorers: ${error.message}`)
+  return data ?? []
+}
+
+export interface BriefingFixture {
+  scheduled_time: string
+  home_team_id: string
+}
+
+/**
+ * The fixture a briefing is printed for: `matchId` if it is a match
+ * against `teamId`, otherwise `usId`'s next upcoming match against them
+ * (a stale or edited link), or null if there is none.
+ */
+export async function getBriefingFixture(
+  db: Db,
+  matchId: string,
+  teamId: string,
+  usId: string
+): Promise<BriefingFixture | null> {
+  const { data: requested, error } = await db
+    .from('matches')
+    .select('scheduled_time, home_team_id')
+    .eq('id', matchId)
+    .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load briefing fixture: ${error.message}`)
+  if (requested) return requested
+
+  const { data: next, error: nextError } = await db
+    .from('upcoming_tracked_matches')
+    .select('scheduled_time, home_team_id')
+    .eq('tracked_team_id', usId)
+    .or(`home_team_id.eq.${teamId},away_team_id.eq.${teamId}`)
+    .order('scheduled_time', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (nextError) throw new Error(`Failed to load next fixture: ${nextError.message}`)
+  return next
+}
@@ -0,0 +1,148 @@
+/**
+ * Sync Audit Log
+ *
+ * Records every on-demand sync in `sync_audit_log` (see
+ * 010_sync_audit_log.sql) and enforces the per-user throttle on
+ * manual runs. Cron / API route runs are logged as actor 'cron'
+ * and never throttled.
+ */
+
+import type { createServerClient } from './client'
+
+type Db = ReturnType<typeof createServerClient>
+
+export type SyncAction = 'full_sync' | 'replay_sync' | 'requeue_replay'
+
+/** Manual runs allowed per user per window, by action */
+export const SYNC_THROTTLE: Record<SyncAction, { limit: number; windowMinutes: number }> = {
+  full_sync:      { limit: 2,  windowMinutes: 10 },
+  replay_sync:    { limit: 10, windowMinutes: 10 },
+  requeue_replay: { limit: 30, windowMinutes: 10 },
+}
+
+export class SyncThrottledError extends Error {
+  constructor(
+    public readonly action: SyncAction,
+    public readonly retryAt: string | null
+  ) {
+    super(`Too many ${action} requests — try again ${retryAt ? `after ${retryAt}` : 'later'}`)
+    this.name = 'SyncThrottledError'
+  }
+}
+
+export interface SyncActor {
+  userId: string | null   // null = cron / API route
+  label: string           // email, or 'cron'
+}
+
+export const CRON_ACTOR: SyncActor = { userId: null, label: 'cron' }
+
+export interface SyncAuditEntry {
+  id: number
+  actor: string
+  action: SyncAction
+  matchId: string | null
+  outcome: 'started' | 'succeeded' | 'failed' | 'throttled'
+  error: string | null
+  createdAt: string
+  finishedAt: string | null
+}
+
+/**
+ * Log the start of a sync and return its audit id.
+ * Throws SyncThrottledError (after logging the refusal) if the user is over their limit.
+ */
+export async function beginSyncAudit(
+  db: Db,
+  actor: SyncActor,
+  action: SyncAction,
+  matchId: string | null = null
+): Promise<number> {
+  const { limit, windowMinutes } = SYNC_THROTTLE[action]
+
+  const { data, error } = await db
+    .rpc('begin_sync_action', {
+      p_user_id: actor.userId,
+      p_actor: actor.label,
+      p_action: action,
+      p_match_id: matchId,
+      p_limit: limit,
+      p_window: `${windowMinutes} minutes`,
+    })
+    .single<{ audit_id: number; granted: boolean; retry_at: string | null }>()
+
+  // Fail closed — unlike the rate-limit budget, an unaudited manual sync isn't worth allowing
+  if (error || !data) throw new Error(`Failed to record sync audit entry: ${error?.message ?? 'no row returned'}`)
+  if (!data.granted) throw new SyncThrottledError(action, data.retry_at)
+
+  return data.audit_id
+}
+
+export async function finishSyncAudit(db: Db, auditId: number, err?: unknown) {
+  const { error } = await db
+    .from('sync_audit_log')
+    .update({
+      outcome: err === undefined ? 'succeeded' : 'failed',
+      error: err === undefined ? null : String(err),
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', auditId)
+
+  if (error) console.error(`[sync-audit] Failed to finish audit entry ${auditId}:`, error.message)
+}
+
+/**
+ * Run `fn` under an audit entry, recording success or failure.
+ * `isFailure` marks a returned result as failed, for workers that report
+ * errors as `{ success: false, error }` instead of throwing; the result's
+ * `error` is recorded.
+ */
+export async function withSyncAudit<T>(
+  db: Db,
+  actor: SyncActor,
+  action: SyncAction,
+  matchId: string | null,
+  fn: () => Promise<T>,
+  isFailure?: (result: T) => boolean
+): Promise<T> {
+  const auditId = await beginSyncAudit(db, actor, action, matchId)
+  let result: T
+  try {
+    result = await fn()
+  } catch (err) {
+    await finishSyncAudit(db, auditId, err)
+    throw err
+  }
+
+  await finishSyncAudit(db, auditId, isFailure?.(result) ? resultError(result) : undefined)
+  return result
+}
+
+function resultError(result: unknown): string {
+  const error = (result as { error?: unknown } | null)?.error
+  return error ? String(error) : 'Returned a failed result'
+}
+
+/**
+ * Most recent audit entries, newest first, for the admin page.
+ */
+export async function listSyncAudit(db: Db, limit = 20): Promise<SyncAuditEntry[]> {
+  const { data, error } = await db
+    .from('sync_audit_log')
+    .select('id, actor, action, match_id, outcome, error, created_at, finished_at')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to load sync audit log: ${error.message}`)
+
+  return (data ?? []).map(row => ({
+    id: row.id as number,
+    actor: row.actor as string,
+    action: row.action as SyncAction,
+    matchId: row.match_id as string | null,
+    outcome: row.outcome as SyncAuditEntry['outcome'],
+    error: row.error as string | null,
+    createdAt: row.created_at as string,
+    finishedAt: row.finished_at as string | null,
+  }))
+}
@@ -0,0 +1,49 @@
+/**
+ * Tracked Teams
+ *
+ * Reads the `tracked_teams` configuration (see 008_tracked_teams.sql):
+ * the teams whose matches get full replay syncs and dashboards.
+ * Shared by the sync worker and the app (src/lib/teams.ts).
+ */
+
+import type { createServerClient } from './client'
+
+type Db = ReturnType<typeof createServerClient>
+
+export interface TrackedTeam {
+  id: string
+  name: string
+  shortName: string       // compact label, e.g. 'DS'
+  imageUrl: string | null
+  isDefault: boolean
+}
+
+/**
+ * Every tracked team, default team first, then by name.
+ */
+export async function listTrackedTeams(db: Db): Promise<TrackedTeam[]> {
+  const { data, error } = await db
+    .from('tracked_teams')
+    .select('team_id, short_name, is_default, teams(name, image_url)')
+
+  if (error) throw new Error(`Failed to load tracked teams: ${error.message}`)
+
+  return (data ?? [])
+    .map(row => {
+      const team = row.teams as unknown as { name: string; image_url: string | null } | null
+      return {
+        id: row.team_id as string,
+        name: team?.name ?? row.team_id,
+        shortName: row.short_name as string,
+        imageUrl: team?.image_url ?? null,
+        isDefault: row.is_default as boolean,
+      }
+    })
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.name.localeCompare(b.name))
+}
+
+export async function listTrackedTeamIds(db: Db): Promise<Set<string>> {
+  const { data, error } = await db.from('tracked_teams').select('team_id')
+  if (error) throw new Error(`Failed to load tracked teams: ${error.message}`)
+  return new Set((data ?? []).map(r => r.team_id as string))
+}
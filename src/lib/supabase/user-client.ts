@@ -0,0 +1,31 @@
+/**
+ * User-scoped Supabase client (server components + actions only)
+ *
+ * Uses the anon key plus the signed-in user's session cookie, so every
+ * query runs under the row-level security policies in 009_auth_roles.sql.
+ * Pages should use this; the service-role createServerClient is for the
+ * sync worker and admin-only reads.
+ */
+
+import { cookies } from 'next/headers'
+import { createServerClient as createSsrClient } from '@supabase/ssr'
+
+export async function createUserClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!url || !key) throw new Error('Missing Supabase browser env vars')
+
+  const cookieStore = await cookies()
+  return createSsrClient(url, key, {
+    cookies: {
+      getAll: () => cookieStore.getAll(),
+      setAll: (toSet) => {
+        try {
+          for (const { name, value, options } of toSet) cookieStore.set(name, value, options)
+        } catch {
+          // Server components can't set cookies — middleware.ts refreshes the session instead
+        }
+      },
+    },
+  })
+}
@@ -0,0 +1,40 @@
+/**
+ * Win Probability Loader
+ *
+ * Reads match_turn_states (016_match_turn_states.sql) for the
+ * win-probability model in src/lib/analytics/win-probability.ts. The
+ * model is refitted by the sync worker on the most recent
+ * TRAINING_ROW_LIMIT turns and stored in fitted_models; pages read that
+ * stored fit and one match's turns.
+ */
+
+import type { createServerClient } from './client'
+import { fitWinProbabilityModel, type TurnStateRow, type WinProbabilityModel } from '@/lib/analytics/win-probability'
+import { loadFittedModel, refitModel, type TrainingSource } from './fitted-models'
+
+type Db = ReturnType<typeof createServerClient>
+
+const STATE_COLUMNS = 'match_id, turn, last_turn, home_score, away_score, home_energy, away_energy, home_won'
+
+const WIN_PROB_TRAINING: TrainingSource = { view: 'match_turn_states', columns: STATE_COLUMNS, orderWithinMatch: 'turn' }
+
+/** Refit on the latest stored match turns and store the fit (service role) */
+export async function refitWinProbabilityModel(db: Db): Promise<WinProbabilityModel> {
+  return refitModel(db, 'win_probability', WIN_PROB_TRAINING, fitWinProbabilityModel)
+}
+
+export async function loadWinProbabilityModel(db: Db): Promise<WinProbabilityModel> {
+  return loadFittedModel(db, 'win_probability', () => fitWinProbabilityModel([]))
+}
+
+/** Every turn of one match, in turn order */
+export async function listMatchTurnStates(db: Db, matchId: string): Promise<TurnStateRow[]> {
+  const { data, error } = await db
+    .from('match_turn_states')
+    .select(STATE_COLUMNS)
+    .eq('match_id', matchId)
+    .order('turn', { ascending: true })
+
+  if (error) throw new Error(`Failed to load match turn states: ${error.message}`)
+  return (data ?? []) as TurnStateRow[]
+}
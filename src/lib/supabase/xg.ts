@@ -0,0 +1,50 @@
+/**
+ * xG Loader
+ *
+ * Reads shot_events (012_shot_events.sql) for the expected-goals model
+ * in src/lib/analytics/xg.ts. The model is refitted by the sync worker
+ * on the most recent TRAINING_ROW_LIMIT shots and stored in
+ * fitted_models; pages read that stored fit.
+ */
+
+import type { createServerClient } from './client'
+import { fitXgModel, type ShotRow, type XgModel } from '@/lib/analytics/xg'
+import { loadFittedModel, refitModel, type TrainingSource } from './fitted-models'
+
+type Db = ReturnType<typeof createServerClient>
+
+const SHOT_COLUMNS = 'match_id, seq, turn, shooter_id, distance_to_goal, pressure, shooter_accuracy, guard_blocking, outcome, is_goal'
+
+const XG_TRAINING: TrainingSource = { view: 'shot_events', columns: SHOT_COLUMNS, orderWithinMatch: 'seq' }
+
+/** Refit on the latest stored shots and store the fit (service role) */
+export async function refitXgModel(db: Db): Promise<XgModel> {
+  return refitModel(db, 'xg', XG_TRAINING, fitXgModel)
+}
+
+export async function loadXgModel(db: Db): Promise<XgModel> {
+  return loadFittedModel(db, 'xg', () => fitXgModel([]))
+}
+
+/** Shots in one match, in replay order */
+export async function listMatchShots(db: Db, matchId: string): Promise<ShotRow[]> {
+  const { data, error } = await db
+    .from('shot_events')
+    .select(SHOT_COLUMNS)
+    .eq('match_id', matchId)
+    .order('seq', { ascending: true })
+
+  if (error) throw new Error(`Failed to load match shots: ${error.message}`)
+  return (data ?? []) as ShotRow[]
+}
+
+/** Every stored shot taken by a player */
+export async function listPlayerShots(db: Db, playerId: string): Promise<ShotRow[]> {
+  const { data, error } = await db
+    .from('shot_events')
+    .select(SHOT_COLUMNS)
+    .eq('shooter_id', playerId)
+
+  if (error) throw new Error(`Failed to load player shots: ${error.message}`)
+  return (data ?? []) as ShotRow[]
+}
@@ -0,0 +1,45 @@
+/**
+ * Sync Authorization
+ *
+ * Anything that spends Shockball API budget on demand is gated here:
+ * - /api routes: `Authorization: Bearer <CRON_SECRET>` (isCronRequest)
+ * - server actions (src/actions/sync.ts): an admin session from a
+ *   same-origin request (authorizeSyncAction)
+ * Both then run under an audit entry (src/lib/supabase/sync-audit.ts).
+ */
+
+import { timingSafeEqual } from 'node:crypto'
+import { headers } from 'next/headers'
+import { requireRole } from '@/lib/auth'
+import type { SyncActor } from '@/lib/supabase/sync-audit'
+
+/**
+ * True if the request carries the cron secret. Fails closed when
+ * CRON_SECRET isn't configured.
+ */
+export function isCronRequest(req: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) return false
+
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+  const given = Buffer.from(req.headers.get('authorization') ?? '')
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+/**
+ * Authorize a sync server action: rejects cross-origin posts, then
+ * requires the admin role (redirecting to /login otherwise).
+ */
+export async function authorizeSyncAction(): Promise<SyncActor> {
+  // Next.js already compares Origin to Host for server actions; checked
+  // again here so the sync actions don't depend on that default.
+  const h = await headers()
+  const origin = h.get('origin')
+  const host = h.get('x-forwarded-host') ?? h.get('host')
+  if (!origin || !host || new URL(origin).host !== host) {
+    throw new Error('Rejected cross-origin sync request')
+  }
+
+  const user = await requireRole('admin')
+  return { userId: user.id, label: user.email ?? user.id }
+}
@@ -0,0 +1,40 @@
+/**
+ * Active Team (server components + actions only)
+ *
+ * Pages show one tracked team at a time. The selection lives in the
+ * `active_team` cookie, set by the Nav team switcher; without a valid
+ * cookie the default tracked team is used.
+ */
+
+import { cache } from 'react'
+import { cookies } from 'next/headers'
+import { createServerClient } from '@/lib/supabase/client'
+import { listTrackedTeams, type TrackedTeam } from '@/lib/supabase/tracked-teams'
+
+export type { TrackedTeam }
+
+export const ACTIVE_TEAM_COOKIE = 'active_team'
+
+/** Tracked teams, loaded once per request */
+export const getTrackedTeams = cache(async (): Promise<TrackedTeam[]> => {
+  return listTrackedTeams(createServerClient())
+})
+
+/** The team the current visitor is looking at */
+export const getActiveTeam = cache(async (): Promise<TrackedTeam> => {
+  const teams = await getTrackedTeams()
+  if (teams.length === 0) throw new Error('No tracked teams configured — add a row to tracked_teams')
+
+  const selected = (await cookies()).get(ACTIVE_TEAM_COOKIE)?.value
+  return teams.find(t => t.id === selected) ?? teams.find(t => t.isDefault) ?? teams[0]
+})
+
+/**
+ * The tracked team to present a match from: the active team if it played,
+ * otherwise whichever tracked team did (null if neither side is tracked).
+ */
+export async function getTrackedSideOf(match: { home_team_id: string; away_team_id: string }) {
+  const [teams, active] = await Promise.all([getTrackedTeams(), getActiveTeam()])
+  const playing = teams.filter(t => t.id === match.home_team_id || t.id === match.away_team_id)
+  return playing.find(t => t.id === active.id) ?? playing[0] ?? null
+}
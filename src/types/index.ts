@@ -176,6 +176,25 @@ export interface PlayerCurrentStatus {
   startRisk: 'low' | 'medium' | 'high' | 'unknown'
 }
 
+export interface LineupCandidate extends PlayerCurrentStatus {
+  matchesPlayed: number
+  avgGoals: number
+  avgTackles: number
+  avgPasses: number
+  predictedMinEnergy: number | null  // estimated start energy minus typical in-match drain
+  recoveryPerHour: number | null     // between-match energy recovery rate
+  outputScore: number                // weighted per-match output
+  rankScore: number                  // outputScore discounted by startRisk
+}
+
+export interface Lineup {
+  matchId: string
+  teamId: string
+  starters: string[]   // player IDs, in order
+  bench: string[]
+  updatedAt: string | null
+}
+
 export interface MatchScoutingReport {
   opponentTeamId: string
   opponentTeamName: string
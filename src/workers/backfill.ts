@@ -0,0 +1,220 @@
+/**
+ * Historical Backfill + Event Re-ingest
+ *
+ * Pages the API's completed matches for a date range and/or competition
+ * and stores them (syncMatchHistory), then finds every stored match in
+ * range that is still missing replay data, enqueues it in `replay_jobs`,
+ * and drains the queue while respecting the shared API rate limit.
+ *
+ * The same drain loop re-ingests matches whose events were stored before
+ * per-event sequence numbers existed (events_need_reingest, see
+ * 005_match_event_seq.sql).
+ *
+ * Resumable by design: progress lives in the durable job queue, so an
+ * interrupted run picks up where it stopped when started again with the
+ * same filters. Jobs run as 'background' requests — when the budget
+ * reaches its reserve we sleep until the window resets instead of failing.
+ */
+
+import { createServerClient } from '@/lib/supabase/client'
+import { getRateLimitStatus } from '@/lib/shockball/client'
+import { enqueueReplayJobs, resetReplayJobs, processReplayQueue } from './replay-queue'
+import { syncMatchHistory } from './sync'
+
+// Below live DS (0) and scouting (hours-until-fixture) jobs
+const BACKFILL_JOB_PRIORITY = 10_000
+const REINGEST_JOB_PRIORITY = 20_000
+const BATCH_JOBS = 5
+const UNKNOWN_RESET_WAIT_MS = 5 * 60_000
+const PAGE_SIZE = 1000
+
+export interface BackfillOptions {
+  from?: string            // ISO date, inclusive
+  to?: string              // ISO date, inclusive
+  competitionId?: string
+}
+
+export interface BackfillProgress {
+  total: number
+  done: number
+  pending: number
+  dead: number
+  rateLimitRemaining: number
+}
+
+/**
+ * Every completed match matching the filters, replayed or not, so progress
+ * covers the whole range across resumed runs.
+ */
+async function findBackfillMatches(
+  db: ReturnType<typeof createServerClient>,
+  options: BackfillOptions
+) {
+  const matchIds: string[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = db
+      .from('matches')
+      .select('id')
+      .eq('status', 'COMPLETED')
+
+    if (options.from) query = query.gte('scheduled_time', options.from)
+    if (options.to) query = query.lte('scheduled_time', `${options.to}T23:59:59.999Z`)
+    if (options.competitionId) query = query.eq('competition_id', options.competitionId)
+
+    const { data, error } = await query
+      .order('scheduled_time', { ascending: true })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`Failed to load backfill matches: ${error.message}`)
+    matchIds.push(...(data ?? []).map(m => m.id))
+    if (!data || data.length < PAGE_SIZE) return matchIds
+  }
+}
+
+// A match counts as done once this column has the given value
+type DoneWhen = { column: 'replay_fetched' | 'events_need_reingest'; value: boolean }
+
+async function getProgress(
+  db: ReturnType<typeof createServerClient>,
+  matchIds: string[],
+  doneWhen: DoneWhen
+): Promise<BackfillProgress> {
+  const progress = { total: matchIds.length, done: 0, pending: 0, dead: 0, rateLimitRemaining: 0 }
+
+  // Chunk the IN list to stay well under URL length limits
+  for (let i = 0; i < matchIds.length; i += 200) {
+    const chunk = matchIds.slice(i, i + 200)
+    const [fetched, dead] = await Promise.all([
+      db.from('matches').select('id').in('id', chunk).eq(doneWhen.column, doneWhen.value),
+      db.from('replay_jobs').select('match_id').in('match_id', chunk).eq('status', 'dead'),
+    ])
+    if (fetched.error) throw new Error(`Failed to load backfill progress: ${fetched.error.message}`)
+    if (dead.error) throw new Error(`Failed to load dead-lettered jobs: ${dead.error.message}`)
+    progress.done += fetched.data?.length ?? 0
+    progress.dead += dead.data?.length ?? 0
+  }
+
+  progress.pending = progress.total - progress.done - progress.dead
+  progress.rateLimitRemaining = (await getRateLimitStatus()).remaining
+  return progress
+}
+
+async function waitForRateLimitReset() {
+  const { resetsAt } = await getRateLimitStatus()
+  const waitMs = resetsAt
+    ? Math.max(new Date(resetsAt).getTime() - Date.now(), 0) + 5_000
+    : UNKNOWN_RESET_WAIT_MS
+  console.log(`[backfill] Rate-limit reserve reached, waiting ${Math.ceil(waitMs / 60_000)}m for reset...`)
+  await new Promise(r => setTimeout(r, waitMs))
+}
+
+/**
+ * Drain the queue until every match in `matchIds` is done (or only
+ * dead-lettered jobs remain), waiting out rate-limit resets and backoffs.
+ */
+async function drainUntilDone(
+  db: ReturnType<typeof createServerClient>,
+  matchIds: string[],
+  doneWhen: DoneWhen,
+  onProgress: (progress: BackfillProgress) => void
+): Promise<BackfillProgress> {
+  let progress = await getProgress(db, matchIds, doneWhen)
+  onProgress(progress)
+
+  while (progress.pending > 0) {
+    const batch = await processReplayQueue({ maxJobs: BATCH_JOBS, timeBudgetMs: 5 * 60_000 })
+
+    if (batch.deferred > 0) {
+      await waitForRateLimitReset()
+    } else if (batch.processed === 0) {
+      // Remaining jobs are backing off after failures — wait for the next one
+      const { data: next } = await db
+        .from('replay_jobs')
+        .select('next_attempt_at')
+        .eq('status', 'pending')
+        .order('next_attempt_at', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+      if (!next) break
+      const waitMs = Math.max(new Date(next.next_attempt_at).getTime() - Date.now(), 1_000)
+      console.log(`[backfill] Waiting ${Math.ceil(waitMs / 1000)}s for retry backoff...`)
+      await new Promise(r => setTimeout(r, waitMs))
+    }
+
+    progress = await getProgress(db, matchIds, doneWhen)
+    onProgress(progress)
+  }
+
+  return progress
+}
+
+/**
+ * Run a backfill to completion (or until only dead-lettered jobs remain).
+ * `onProgress` is called after every batch.
+ */
+export async function runBackfill(
+  options: BackfillOptions,
+  onProgress: (progress: BackfillProgress) => void = () => {}
+): Promise<BackfillProgress> {
+  const db = createServerClient()
+
+  // Store the season's matches first — a new season isn't in `matches` yet
+  const listed = await syncMatchHistory(options)
+  console.log(`[backfill] Stored ${listed} completed matches listed by the API`)
+
+  const matchIds = await findBackfillMatches(db, options)
+
+  // Only matches still missing replays need jobs
+  const missing: string[] = []
+  for (let i = 0; i < matchIds.length; i += 200) {
+    const { data, error } = await db
+      .from('matches')
+      .select('id')
+      .in('id', matchIds.slice(i, i + 200))
+      .eq('replay_fetched', false)
+    if (error) throw new Error(`Failed to load matches missing replays: ${error.message}`)
+    missing.push(...(data ?? []).map(m => m.id))
+  }
+
+  await enqueueReplayJobs(
+    db,
+    missing.map(id => ({ matchId: id, priority: BACKFILL_JOB_PRIORITY, requestPriority: 'background' }))
+  )
+
+  return drainUntilDone(db, matchIds, { column: 'replay_fetched', value: true }, onProgress)
+}
+
+/**
+ * Re-fetch and re-persist every match flagged events_need_reingest, so
+ * events collapsed by the old (match_id, turn, type) dedup are restored.
+ * Resumable: the flag is only cleared once a match is re-persisted.
+ */
+export async function runEventReingest(
+  onProgress: (progress: BackfillProgress) => void = () => {}
+): Promise<BackfillProgress> {
+  const db = createServerClient()
+
+  const matchIds: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await db
+      .from('matches')
+      .select('id')
+      .eq('events_need_reingest', true)
+      .order('scheduled_time', { ascending: false })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load matches needing re-ingest: ${error.message}`)
+    matchIds.push(...(data ?? []).map(m => m.id))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  // Existing jobs are already 'done' for these matches, so reset rather than enqueue
+  await resetReplayJobs(
+    db,
+    matchIds.map(id => ({ matchId: id, priority: REINGEST_JOB_PRIORITY, requestPriority: 'background' }))
+  )
+
+  return drainUntilDone(db, matchIds, { column: 'events_need_reingest', value: false }, onProgress)
+}
@@ -0,0 +1,40 @@
+/**
+ * Model Refit Worker
+ *
+ * Refits the analytics models on the latest stored replays and saves
+ * their coefficients to fitted_models (017_fitted_models.sql). Run
+ * after a sync stores new replays; pages only read the stored fit.
+ * Each model is refitted independently, so one failing leaves the
+ * others (and its own previous fit) in place.
+ */
+
+import { createServerClient } from '@/lib/supabase/client'
+import { refitXgModel } from '@/lib/supabase/xg'
+import { refitDisciplineModel } from '@/lib/supabase/discipline'
+import { refitWinProbabilityModel } from '@/lib/supabase/win-probability'
+
+type Db = ReturnType<typeof createServerClient>
+
+const REFITS: Array<[name: string, refit: (db: Db) => Promise<unknown>]> = [
+  ['xg', refitXgModel],
+  ['discipline', refitDisciplineModel],
+  ['win_probability', refitWinProbabilityModel],
+]
+
+export async function refitModels() {
+  const db = createServerClient()
+  const results = { refitted: [] as string[], errors: 0 }
+
+  for (const [name, refit] of REFITS) {
+    try {
+      await refit(db)
+      results.refitted.push(name)
+    } catch (err) {
+      console.error(`[models] Failed to refit ${name}:`, err)
+      results.errors++
+    }
+  }
+
+  if (results.refitted.length > 0) console.log(`[models] Refitted ${results.refitted.join(', ')}`)
+  return results
+}
@@ -0,0 +1,57 @@
+/**
+ * Re-derivation from the Replay Archive
+ *
+ * Rebuilds player_match_stats, match_events and energy_snapshots from the
+ * gzipped raw replays in `replay_archive`, using the current
+ * persistReplayData / extractEnergySnapshots logic. No API calls — use this
+ * after changing how replay data is derived.
+ */
+
+import { createServerClient } from '@/lib/supabase/client'
+import { loadArchivedReplay, listArchivedMatchIds } from '@/lib/supabase/replay-archive'
+import { persistReplayData } from './sync'
+
+export interface RederiveProgress {
+  total: number
+  rebuilt: number
+  missing: number    // no archived replay for the match
+  failed: number
+}
+
+/**
+ * Rebuild one match. Returns false if no archived replay exists.
+ * Throws if re-persisting fails (the previous rows are left intact).
+ */
+export async function rederiveMatch(matchId: string): Promise<boolean> {
+  const db = createServerClient()
+  const replay = await loadArchivedReplay(db, matchId)
+  if (!replay) return false
+
+  await persistReplayData(db, matchId, replay)
+  return true
+}
+
+/**
+ * Rebuild the given matches, or every archived match when none are given.
+ */
+export async function rederiveMatches(
+  matchIds?: string[],
+  onProgress: (progress: RederiveProgress, matchId: string) => void = () => {}
+): Promise<RederiveProgress> {
+  const db = createServerClient()
+  const ids = matchIds ?? await listArchivedMatchIds(db)
+  const progress: RederiveProgress = { total: ids.length, rebuilt: 0, missing: 0, failed: 0 }
+
+  for (const matchId of ids) {
+    try {
+      if (await rederiveMatch(matchId)) progress.rebuilt++
+      else progress.missing++
+    } catch (err) {
+      console.error(`[rederive] ${matchId}:`, err)
+      progress.failed++
+    }
+    onProgress(progress, matchId)
+  }
+
+  return progress
+}
@@ -0,0 +1,205 @@
+/**
+ * Replay Queue Worker
+ *
+ * Drains the `replay_jobs` table (see 003_replay_jobs.sql).
+ *
+ * - syncMatches only enqueues; replays are fetched here in small batches
+ *   so one slow fetch can't blow the /api/sync maxDuration
+ * - Each run is time-boxed: no job starts without JOB_TIME_ESTIMATE_MS left
+ * - Failures retry with exponential backoff; after MAX_ATTEMPTS the job is
+ *   dead-lettered and shown on the admin page for manual retry
+ * - Replays that fail validation are dead-lettered straight away — the
+ *   payload is quarantined and refetching returns the same data
+ * - Jobs refused by the shared rate-limit budget go back to pending
+ *   without counting as an attempt
+ */
+
+import { createServerClient } from '@/lib/supabase/client'
+import type { RequestPriority } from '@/lib/shockball/client'
+import { syncMatchReplay } from './sync'
+
+const MAX_ATTEMPTS = 5
+const BATCH_SIZE = 3
+const JOB_TIME_ESTIMATE_MS = 15_000
+const BASE_BACKOFF_MS = 2 * 60_000       // 2m, 4m, 8m, 16m …
+const MAX_BACKOFF_MS = 6 * 60 * 60_000   // capped at 6h
+
+export type ReplayJobStatus = 'pending' | 'running' | 'done' | 'dead'
+
+interface ReplayJobRow {
+  match_id: string
+  status: ReplayJobStatus
+  priority: number
+  request_priority: RequestPriority
+  attempts: number
+}
+
+export interface ReplayJobInput {
+  matchId: string
+  priority: number                 // lower runs first; DS matches use 0
+  requestPriority: RequestPriority
+}
+
+// ============================================================
+// Enqueue
+// ============================================================
+
+/**
+ * Add jobs for matches that don't have one yet. Existing jobs — including
+ * done and dead ones — are left untouched.
+ */
+export async function enqueueReplayJobs(
+  db: ReturnType<typeof createServerClient>,
+  jobs: ReplayJobInput[]
+) {
+  if (jobs.length === 0) return 0
+
+  const { data, error } = await db
+    .from('replay_jobs')
+    .upsert(
+      jobs.map(j => ({
+        match_id: j.matchId,
+        priority: j.priority,
+        request_priority: j.requestPriority,
+      })),
+      { onConflict: 'match_id', ignoreDuplicates: true }
+    )
+    .select('match_id')
+
+  if (error) throw new Error(`Failed to enqueue replay jobs: ${error.message}`)
+  return data?.length ?? 0
+}
+
+/**
+ * Create or reset jobs so the matches are fetched again, even if an earlier
+ * job for them already finished. Used for event re-ingest.
+ */
+export async function resetReplayJobs(
+  db: ReturnType<typeof createServerClient>,
+  jobs: ReplayJobInput[]
+) {
+  if (jobs.length === 0) return 0
+
+  const now = new Date().toISOString()
+  const { error } = await db.from('replay_jobs').upsert(
+    jobs.map(j => ({
+      match_id: j.matchId,
+      priority: j.priority,
+      request_priority: j.requestPriority,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+      locked_at: null,
+      last_error: null,
+      updated_at: now,
+    })),
+    { onConflict: 'match_id' }
+  )
+
+  if (error) throw new Error(`Failed to reset replay jobs: ${error.message}`)
+  return jobs.length
+}
+
+/**
+ * Put a dead-lettered job back in the queue with a fresh attempt count.
+ */
+export async function requeueReplayJob(matchId: string) {
+  const db = createServerClient()
+  const { error } = await db
+    .from('replay_jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('match_id', matchId)
+
+  if (error) throw new Error(`Failed to requeue replay job ${matchId}: ${error.message}`)
+}
+
+// ============================================================
+// Process
+// ============================================================
+
+function backoffMs(attempts: number) {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS)
+}
+
+async function updateJob(
+  db: ReturnType<typeof createServerClient>,
+  matchId: string,
+  fields: Record<string, unknown>
+) {
+  const { error } = await db
+    .from('replay_jobs')
+    .update({ ...fields, locked_at: null, updated_at: new Date().toISOString() })
+    .eq('match_id', matchId)
+  if (error) console.error(`[replay-queue] Failed to update job ${matchId}:`, error)
+}
+
+/**
+ * Process ready jobs until the queue is empty, the time budget runs out,
+ * or the rate-limit budget refuses a request.
+ */
+export async function processReplayQueue(
+  options: { timeBudgetMs?: number; maxJobs?: number } = {}
+) {
+  const db = createServerClient()
+  const deadline = Date.now() + (options.timeBudgetMs ?? 40_000)
+  const maxJobs = options.maxJobs ?? Infinity
+  const results = { processed: 0, succeeded: 0, retrying: 0, deadLettered: 0, deferred: 0 }
+
+  let stop = false
+  while (!stop && results.processed < maxJobs && deadline - Date.now() > JOB_TIME_ESTIMATE_MS) {
+    const { data: claimed, error } = await db.rpc('claim_replay_jobs', {
+      p_limit: Math.min(BATCH_SIZE, maxJobs - results.processed),
+    })
+    if (error) throw new Error(`Failed to claim replay jobs: ${error.message}`)
+
+    const batch = ((claimed ?? []) as ReplayJobRow[]).sort((a, b) => a.priority - b.priority)
+    if (batch.length === 0) break
+
+    for (const job of batch) {
+      // Out of time or budget — hand the rest of the batch back untouched
+      if (stop || deadline - Date.now() < JOB_TIME_ESTIMATE_MS) {
+        await updateJob(db, job.match_id, { status: 'pending' })
+        continue
+      }
+
+      const result = await syncMatchReplay(job.match_id, { priority: job.request_priority })
+      results.processed++
+
+      if (result.success) {
+        await updateJob(db, job.match_id, { status: 'done', last_error: null })
+        results.succeeded++
+      } else if (result.deferred) {
+        await updateJob(db, job.match_id, { status: 'pending' })
+        results.deferred++
+        stop = true
+      } else {
+        const attempts = job.attempts + 1
+        if (result.permanent || attempts >= MAX_ATTEMPTS) {
+          await updateJob(db, job.match_id, { status: 'dead', attempts, last_error: result.error })
+          console.error(
+            result.permanent
+              ? `[replay-queue] Match ${job.match_id} dead-lettered: replay failed validation`
+              : `[replay-queue] Match ${job.match_id} dead-lettered after ${attempts} attempts`
+          )
+          results.deadLettered++
+        } else {
+          await updateJob(db, job.match_id, {
+            status: 'pending',
+            attempts,
+            last_error: result.error,
+            next_attempt_at: new Date(Date.now() + backoffMs(attempts)).toISOString(),
+          })
+          results.retrying++
+        }
+      }
+    }
+  }
+
+  return results
+}
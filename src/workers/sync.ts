@@ -6,25 +6,51 @@
  * Strategy:
  * 1. Poll /matches/upcoming and /matches/recent every 15 min using
  *    If-Modified-Since — free 304s most of the time.
- * 2. When a completed match involving Deadly Sins appears, fetch its
- *    replay data ONCE and persist everything (stats + energy snapshots).
+ * 2. When a completed match involving a tracked team (tracked_teams —
+ *    Deadly Sins and any sister teams) appears, enqueue a
+ *    replay job; the queue worker (replay-queue.ts) fetches it ONCE and
+ *    persists everything (stats + energy snapshots).
  * 3. Opponents' matches are also stored for scouting purposes.
+ * 4. Spend a small, configurable replay budget on completed matches between
+ *    other teams where one side is an upcoming tracked-team opponent,
+ *    soonest first.
+ * 5. Payloads that fail runtime validation are quarantined in
+ *    `quarantined_payloads` and noted in sync_log; the rest of the sync runs.
  *
  * Rate limit budget: ~100 req/hour
  * - Polling (upstream + recent): ~2-4 req/hour (mostly 304s)
  * - Replay fetches: 1 req per new completed match
+ * - Scouting replays: up to SCOUTING_REPLAY_BUDGET new jobs per run, run as
+ *   'background' requests that pause once the shared budget hits its reserve
  * - Plenty of headroom for manual refreshes
  */
 
 import {
   getUpcomingMatches,
   getRecentMatches,
+  getCompletedMatchHistory,
   getMatchReplay,
-  filterDeadlySinsMatches,
-  DEADLY_SINS_TEAM_ID,
+  filterTrackedMatches,
+  RateLimitBudgetError,
+  ApiValidationError,
+  type RequestPriority,
+  type RejectedPayload,
 } from '@/lib/shockball/client'
 import { createServerClient } from '@/lib/supabase/client'
-import type { ApiMatch, ApiReplayData, ApiGameEvent } from '@/types'
+import { archiveReplay } from '@/lib/supabase/replay-archive'
+import { listTrackedTeamIds } from '@/lib/supabase/tracked-teams'
+import type { ApiMatch, ApiReplayData, ApiGameEvent, ApiPlayerStats } from '@/types'
+import { enqueueReplayJobs } from './replay-queue'
+
+const DEFAULT_SCOUTING_REPLAY_BUDGET = 5
+
+// Max opponent-vs-opponent replays fetched per sync run (0 disables).
+// Read per run, not at import — scripts load .env.local after imports.
+// Blank, malformed or negative values fall back to the default.
+function getScoutingReplayBudget() {
+  const budget = parseInt(process.env.SCOUTING_REPLAY_BUDGET ?? '', 10)
+  return Number.isNaN(budget) || budget < 0 ? DEFAULT_SCOUTING_REPLAY_BUDGET : budget
+}
 
 // ============================================================
 // Upsert helpers
@@ -40,7 +66,6 @@ async function upsertTeam(
       name: team.name,
       image_url: team.imageUrl ?? null,
       venue: team.venue ?? null,
-      is_deadly_sins: team.id === DEADLY_SINS_TEAM_ID,
       updated_at: new Date().toISOString(),
     },
     { onConflict: 'id', ignoreDuplicates: false }
@@ -49,11 +74,12 @@ async function upsertTeam(
 
 async function upsertMatch(
   db: ReturnType<typeof createServerClient>,
-  match: ApiMatch
+  match: ApiMatch,
+  trackedTeamIds: Set<string>
 ) {
-  const involvesDeadlySins =
-    match.homeTeam.id === DEADLY_SINS_TEAM_ID ||
-    match.awayTeam.id === DEADLY_SINS_TEAM_ID
+  const involvesTrackedTeam =
+    trackedTeamIds.has(match.homeTeam.id) ||
+    trackedTeamIds.has(match.awayTeam.id)
 
   // Upsert teams first (FK constraint)
   await upsertTeam(db, match.homeTeam)
@@ -103,21 +129,21 @@ async function upsertMatch(
       competition_id: match.competition?.id ?? null,
       conference_id: match.conference?.id ?? null,
       league_id: match.league?.id ?? null,
-      involves_deadly_sins: involvesDeadlySins,
+      involves_tracked_team: involvesTrackedTeam,
       updated_at: new Date().toISOString(),
     },
     { onConflict: 'id', ignoreDuplicates: false }
   )
 
   if (error) console.error(`[sync] Failed to upsert match ${match.id}:`, error)
-  return involvesDeadlySins
+  return involvesTrackedTeam
 }
 
 // ============================================================
 // Energy snapshot extraction
 // ============================================================
 
-function extractEnergySnapshots(
+export function extractEnergySnapshots(
   matchId: string,
   events: ApiGameEvent[]
 ): Array<{ match_id: string; player_id: string; turn: number; energy: number }> {
@@ -146,30 +172,19 @@ function extractEnergySnapshots(
 // Persist full replay data
 // ============================================================
 
-async function persistReplayData(
+export async function persistReplayData(
   db: ReturnType<typeof createServerClient>,
   matchId: string,
   replay: ApiReplayData
 ) {
   const { data } = replay
 
-  // Update match with sim version
-  await db.from('matches').update({
-    sim_version: data.match.simVersion,
-    home_score: data.match.homeScore,
-    away_score: data.match.awayScore,
-    status: 'COMPLETED',
-    replay_fetched: true,
-    updated_at: new Date().toISOString(),
-  }).eq('id', matchId)
-
-  // Insert player stats (home team)
-  const homeStats = data.playerStats.home.map(p => ({
+  const toStatRow = (p: ApiPlayerStats, teamId: string, isHome: boolean) => ({
     match_id: matchId,
     player_id: p.playerId,
     player_name: p.playerName,
-    team_id: data.match.homeTeam.id,
-    is_home_team: true,
+    team_id: teamId,
+    is_home_team: isHome,
     shots: p.shots,
     goals: p.goals,
     passes: p.passes,
@@ -179,35 +194,17 @@ async function persistReplayData(
     was_injured: p.wasInjured,
     shot_conversion_rate: p.shots > 0 ? p.goals / p.shots : null,
     foul_rate: p.tackles > 0 ? p.fouls / p.tackles : null,
-  }))
-
-  // Insert player stats (away team)
-  const awayStats = data.playerStats.away.map(p => ({
-    match_id: matchId,
-    player_id: p.playerId,
-    player_name: p.playerName,
-    team_id: data.match.awayTeam.id,
-    is_home_team: false,
-    shots: p.shots,
-    goals: p.goals,
-    passes: p.passes,
-    tackles: p.tackles,
-    blocks: p.blocks,
-    fouls: p.fouls,
-    was_injured: p.wasInjured,
-    shot_conversion_rate: p.shots > 0 ? p.goals / p.shots : null,
-    foul_rate: p.tackles > 0 ? p.fouls / p.tackles : null,
-  }))
-
-  const { error: statsError } = await db
-    .from('player_match_stats')
-    .upsert([...homeStats, ...awayStats], { onConflict: 'match_id,player_id' })
+  })
 
-  if (statsError) console.error(`[sync] Failed to insert player stats for ${matchId}:`, statsError)
+  const playerStats = [
+    ...data.playerStats.home.map(p => toStatRow(p, data.match.homeTeam.id, true)),
+    ...data.playerStats.away.map(p => toStatRow(p, data.match.awayTeam.id, false)),
+  ]
 
-  // Insert match events
-  const events = data.events.map(e => ({
+  // seq preserves replay order, so several events of one type in a turn all survive
+  const events = data.events.map((e, seq) => ({
     match_id: matchId,
+    seq,
     turn: e.turn,
     type: e.type,
     description: e.description,
@@ -217,29 +214,68 @@ async function persistReplayData(
     context: e.context ?? null,
   }))
 
-  // Insert in batches of 500 to avoid payload limits
-  for (let i = 0; i < events.length; i += 500) {
-    const batch = events.slice(i, i + 500)
-    const { error } = await db.from('match_events').upsert(batch, {
-      onConflict: 'match_id,turn,type',  // best-effort dedup
-      ignoreDuplicates: true,
-    })
-    if (error) console.error(`[sync] Event batch ${i} error for ${matchId}:`, error)
-  }
-
-  // Extract and insert energy snapshots
   const snapshots = extractEnergySnapshots(matchId, data.events)
-  if (snapshots.length > 0) {
-    for (let i = 0; i < snapshots.length; i += 500) {
-      const batch = snapshots.slice(i, i + 500)
-      const { error } = await db.from('energy_snapshots').upsert(batch, {
-        onConflict: 'match_id,player_id,turn',
-        ignoreDuplicates: true,
-      })
-      if (error) console.error(`[sync] Energy snapshot batch ${i} error for ${matchId}:`, error)
-    }
-    console.log(`[sync] Inserted ${snapshots.length} energy snapshots for match ${matchId}`)
+
+  // One transaction (see 004_persist_replay_function.sql): stats, events and
+  // snapshots are all written before the match is flagged replay_fetched.
+  // Throws so the replay job is retried rather than marked done.
+  const { error } = await db.rpc('persist_replay_data', {
+    p_match_id: matchId,
+    p_match: {
+      sim_version: data.match.simVersion,
+      home_score: data.match.homeScore,
+      away_score: data.match.awayScore,
+    },
+    p_player_stats: playerStats,
+    p_events: events,
+    p_snapshots: snapshots,
+  })
+
+  if (error) throw new Error(`Failed to persist replay for ${matchId}: ${error.message}`)
+
+  console.log(
+    `[sync] Persisted ${playerStats.length} player stats, ${events.length} events, ` +
+    `${snapshots.length} energy snapshots for match ${matchId}`
+  )
+}
+
+// ============================================================
+// Scouting replay prioritisation
+// ============================================================
+
+interface ScoutingCandidate {
+  id: string
+  scheduled_time: string
+  home_team_id: string
+  away_team_id: string
+}
+
+/**
+ * Order completed opponent matches by how soon we face the opponent
+ * involved, then newest match first, and cap at the budget.
+ * `nextFixture` maps opponent team ID -> scheduled time of our next match.
+ */
+export function prioritiseScoutingReplays(
+  candidates: ScoutingCandidate[],
+  nextFixture: Record<string, string>,
+  budget: number
+): ScoutingCandidate[] {
+  if (budget <= 0) return []
+
+  const faceAt = (m: ScoutingCandidate) => {
+    const times = [nextFixture[m.home_team_id], nextFixture[m.away_team_id]]
+      .filter((t): t is string => !!t)
+      .map(t => new Date(t).getTime())
+    return times.length > 0 ? Math.min(...times) : Infinity
   }
+
+  return [...candidates]
+    .filter(m => faceAt(m) !== Infinity)
+    .sort((a, b) =>
+      faceAt(a) - faceAt(b) ||
+      new Date(b.scheduled_time).getTime() - new Date(a.scheduled_time).getTime()
+    )
+    .slice(0, budget)
 }
 
 // ============================================================
@@ -267,6 +303,54 @@ async function logSync(
   })
 }
 
+// ============================================================
+// Quarantine invalid payloads
+// ============================================================
+
+async function quarantinePayloads(
+  db: ReturnType<typeof createServerClient>,
+  endpoint: string,
+  rejected: RejectedPayload[]
+) {
+  if (rejected.length === 0) return
+
+  const { error } = await db.from('quarantined_payloads').insert(
+    rejected.map(r => ({
+      endpoint,
+      entity_id: r.entityId,
+      issues: r.issues,
+      payload: r.payload ?? null,
+    }))
+  )
+  if (error) console.error(`[sync] Failed to quarantine ${rejected.length} ${endpoint} payloads:`, error)
+
+  for (const r of rejected) {
+    console.warn(`[sync] Quarantined ${endpoint} payload ${r.entityId ?? '(no id)'}: ${r.issues.join('; ')}`)
+  }
+}
+
+function describeRejected(rejected: RejectedPayload[]) {
+  if (rejected.length === 0) return undefined
+  const ids = rejected.map(r => r.entityId ?? '(no id)').join(', ')
+  return `${rejected.length} match(es) failed validation and were quarantined: ${ids}`
+}
+
+/**
+ * Log a failed list/replay fetch; validation failures also quarantine
+ * the whole payload.
+ */
+async function recordFetchError(
+  db: ReturnType<typeof createServerClient>,
+  endpoint: string,
+  err: unknown,
+  entityId: string | null = null
+) {
+  if (err instanceof ApiValidationError) {
+    await quarantinePayloads(db, endpoint, [{ entityId, issues: err.issues, payload: err.payload }])
+  }
+  await logSync(db, endpoint, { httpStatus: 0, error: String(err) })
+}
+
 // ============================================================
 // Main sync functions
 // ============================================================
@@ -277,118 +361,274 @@ async function logSync(
  */
 export async function syncMatches() {
   const db = createServerClient()
-  const results = { upcoming: 0, recent: 0, replaysQueued: 0, errors: 0 }
+  const results = { upcoming: 0, recent: 0, replaysQueued: 0, scoutingQueued: 0, quarantined: 0, errors: 0 }
+
+  const trackedTeamIds = await listTrackedTeamIds(db)
 
   // Get last known Last-Modified values to send as If-Modified-Since
-  const { data: lastSyncs } = await db
-    .from('sync_log')
-    .select('endpoint, last_modified')
-    .in('endpoint', ['upcoming', 'recent'])
-    .eq('http_status', 200)
-    .order('fetched_at', { ascending: false })
-    .limit(2)
+  const [{ data: lastSyncs }, { data: newestTracked }] = await Promise.all([
+    db
+      .from('sync_log')
+      .select('endpoint, last_modified, fetched_at')
+      .in('endpoint', ['upcoming', 'recent'])
+      .eq('http_status', 200)
+      .order('fetched_at', { ascending: false })
+      .limit(2),
+    db
+      .from('tracked_teams')
+      .select('created_at')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
 
   const lastModifiedMap: Record<string, string | null> = {}
   for (const row of lastSyncs ?? []) {
     if (row.endpoint && !lastModifiedMap[row.endpoint]) {
       lastModifiedMap[row.endpoint] = row.last_modified
+      // Only tracked teams' upcoming fixtures are stored, so a team tracked
+      // since the last 200 needs one full refetch instead of a 304
+      if (row.endpoint === 'upcoming' && newestTracked &&
+        new Date(newestTracked.created_at) > new Date(row.fetched_at)) {
+        lastModifiedMap[row.endpoint] = null
+      }
     }
   }
 
   // ---- Upcoming matches ----
   try {
-    const { matches, lastModified, notModified } = await getUpcomingMatches({
+    const { matches, rejected, lastModified, notModified } = await getUpcomingMatches({
       ifModifiedSince: lastModifiedMap['upcoming'] ?? undefined,
     })
 
+    await quarantinePayloads(db, 'upcoming', rejected)
     await logSync(db, 'upcoming', {
       httpStatus: notModified ? 304 : 200,
       lastModified,
       matchesFound: matches.length,
+      error: describeRejected(rejected),
     })
+    results.quarantined += rejected.length
 
     if (!notModified) {
-      const dsMatches = filterDeadlySinsMatches(matches)
-      for (const match of dsMatches) {
-        await upsertMatch(db, match)
+      for (const match of filterTrackedMatches(matches, trackedTeamIds)) {
+        await upsertMatch(db, match, trackedTeamIds)
         results.upcoming++
       }
     }
   } catch (err) {
     console.error('[sync] Upcoming fetch error:', err)
-    await logSync(db, 'upcoming', { httpStatus: 0, error: String(err) })
+    await recordFetchError(db, 'upcoming', err)
     results.errors++
   }
 
   // ---- Recent matches ----
   try {
-    const { matches, lastModified, notModified } = await getRecentMatches({
+    const { matches, rejected, lastModified, notModified } = await getRecentMatches({
       ifModifiedSince: lastModifiedMap['recent'] ?? undefined,
     })
 
+    await quarantinePayloads(db, 'recent', rejected)
     await logSync(db, 'recent', {
       httpStatus: notModified ? 304 : 200,
       lastModified,
       matchesFound: matches.length,
+      error: describeRejected(rejected),
     })
+    results.quarantined += rejected.length
 
     if (!notModified) {
       // Upsert all matches (needed for scouting — we want opponent data too)
       for (const match of matches) {
-        await upsertMatch(db, match)
+        await upsertMatch(db, match, trackedTeamIds)
       }
 
-      // Queue replay fetches for completed DS matches without replay data
-      const dsMatches = filterDeadlySinsMatches(matches).filter(
-        m => m.status === 'COMPLETED'
-      )
+      // Queue replay fetches for completed tracked-team matches without
+      // replay data. The queue worker (replay-queue.ts) fetches them afterwards.
+      const trackedMatchIds = filterTrackedMatches(matches, trackedTeamIds)
+        .filter(m => m.status === 'COMPLETED')
+        .map(m => m.id)
 
-      for (const match of dsMatches) {
-        const { data: existing } = await db
+      if (trackedMatchIds.length > 0) {
+        const { data: missing } = await db
           .from('matches')
-          .select('replay_fetched')
-          .eq('id', match.id)
-          .single()
-
-        if (!existing?.replay_fetched) {
-          results.replaysQueued++
-          await syncMatchReplay(match.id)
-        }
+          .select('id')
+          .in('id', trackedMatchIds)
+          .eq('replay_fetched', false)
+
+        results.replaysQueued += await enqueueReplayJobs(
+          db,
+          (missing ?? []).map(m => ({ matchId: m.id, priority: 0, requestPriority: 'essential' }))
+        )
       }
 
       results.recent += matches.length
     }
   } catch (err) {
     console.error('[sync] Recent fetch error:', err)
-    await logSync(db, 'recent', { httpStatus: 0, error: String(err) })
+    await recordFetchError(db, 'recent', err)
+    results.errors++
+  }
+
+  // ---- Scouting replays (opponent vs opponent) ----
+  // Runs even on a 304 so matches skipped by earlier budget caps catch up.
+  try {
+    results.scoutingQueued = await enqueueScoutingReplays(db)
+  } catch (err) {
+    console.error('[sync] Scouting replay error:', err)
     results.errors++
   }
 
   return results
 }
 
+/**
+ * Store every completed match the API lists for a date range and/or
+ * competition, for the historical backfill (src/workers/backfill.ts).
+ * Pages back through /matches/recent until the range starts; invalid rows
+ * are quarantined as in syncMatches. Returns the number of matches stored.
+ */
+export async function syncMatchHistory(options: { from?: string; to?: string; competitionId?: string }) {
+  const db = createServerClient()
+  const trackedTeamIds = await listTrackedTeamIds(db)
+  const to = options.to ? Date.parse(`${options.to}T23:59:59.999Z`) : Infinity
+  const from = options.from ? Date.parse(options.from) : -Infinity
+
+  try {
+    const { matches, rejected, lastModified } = await getCompletedMatchHistory({ since: options.from })
+
+    const inRange = matches.filter(m => {
+      const time = Date.parse(m.scheduledTime)
+      return m.status === 'COMPLETED' && time >= from && time <= to &&
+        (!options.competitionId || m.competition?.id === options.competitionId)
+    })
+
+    await quarantinePayloads(db, 'backfill', rejected)
+    await logSync(db, 'backfill', {
+      httpStatus: 200,
+      lastModified,
+      matchesFound: inRange.length,
+      error: describeRejected(rejected),
+    })
+
+    for (const match of inRange) {
+      await upsertMatch(db, match, trackedTeamIds)
+    }
+    return inRange.length
+  } catch (err) {
+    console.error('[sync] Match history fetch error:', err)
+    await recordFetchError(db, 'backfill', err)
+    throw err
+  }
+}
+
+/**
+ * Enqueue replays for completed matches between other teams where at least
+ * one side is an upcoming tracked-team opponent. At most SCOUTING_REPLAY_BUDGET new
+ * jobs per run; they run as 'background' requests, so the queue worker
+ * pauses them whenever the shared rate limit nears its reserve.
+ */
+async function enqueueScoutingReplays(db: ReturnType<typeof createServerClient>) {
+  const budget = getScoutingReplayBudget()
+  if (budget === 0) return 0
+
+  const { data: upcoming } = await db
+    .from('upcoming_tracked_matches')
+    .select('scheduled_time, home_team_id, away_team_id, tracked_side')
+
+  // View is ordered by scheduled_time, so the first fixture per opponent wins
+  const nextFixture: Record<string, string> = {}
+  for (const m of upcoming ?? []) {
+    const oppId = m.tracked_side === 'home' ? m.away_team_id : m.home_team_id
+    if (!nextFixture[oppId]) nextFixture[oppId] = m.scheduled_time
+  }
+
+  const opponentIds = Object.keys(nextFixture)
+  if (opponentIds.length === 0) return 0
+
+  const idList = opponentIds.join(',')
+  const { data: candidates, error } = await db
+    .from('matches')
+    .select('id, scheduled_time, home_team_id, away_team_id')
+    .eq('involves_tracked_team', false)
+    .eq('status', 'COMPLETED')
+    .eq('replay_fetched', false)
+    .or(`home_team_id.in.(${idList}),away_team_id.in.(${idList})`)
+
+  if (error) throw new Error(`Failed to load scouting candidates: ${error.message}`)
+  if (!candidates || candidates.length === 0) return 0
+
+  // Skip matches already queued (or dead-lettered)
+  const { data: existingJobs } = await db
+    .from('replay_jobs')
+    .select('match_id')
+    .in('match_id', candidates.map(c => c.id))
+  const queued = new Set((existingJobs ?? []).map(j => j.match_id))
+
+  const selected = prioritiseScoutingReplays(
+    candidates.filter(c => !queued.has(c.id)),
+    nextFixture,
+    budget
+  )
+
+  // Priority = hours until we face the opponent, so sooner fixtures run first
+  // (always >= 1, keeping tracked-team replays at 0 ahead of every scouting job)
+  const hoursUntil = (m: ScoutingCandidate) => {
+    const times = [nextFixture[m.home_team_id], nextFixture[m.away_team_id]]
+      .filter((t): t is string => !!t)
+      .map(t => new Date(t).getTime())
+    return Math.max(1, Math.ceil((Math.min(...times) - Date.now()) / 3_600_000))
+  }
+
+  const enqueued = await enqueueReplayJobs(
+    db,
+    selected.map(m => ({ matchId: m.id, priority: hoursUntil(m), requestPriority: 'background' }))
+  )
+
+  if (enqueued > 0) console.log(`[sync] Queued ${enqueued} scouting replays`)
+  return enqueued
+}
+
 /**
  * Fetch and persist replay data for a single match.
- * Safe to call multiple times — idempotent via upsert.
+ * Safe to call multiple times — persistence replaces the match's derived
+ * rows in one transaction, and a failure leaves replay_fetched false.
+ * `deferred` is true when the shared rate-limit budget refused the request;
+ * `permanent` is true when the payload failed validation (quarantined —
+ * retrying would only fetch the same bad data).
  */
-export async function syncMatchReplay(matchId: string) {
+export async function syncMatchReplay(
+  matchId: string,
+  options: { priority?: RequestPriority } = {}
+) {
   const db = createServerClient()
 
   // Get last modified from sync log (completed match data is immutable,
-  // so after first fetch this will always return 304 for free)
-  const { data: lastSync } = await db
-    .from('sync_log')
-    .select('last_modified')
-    .eq('endpoint', `replay:${matchId}`)
-    .eq('http_status', 200)
-    .order('fetched_at', { ascending: false })
-    .limit(1)
-    .maybeSingle()
+  // so after first fetch this will always return 304 for free).
+  // Only sent once the replay is persisted, archived and not awaiting an
+  // event re-ingest — otherwise a 304 would leave us without the data.
+  const [{ data: lastSync }, { data: matchRow }, { data: archived }] = await Promise.all([
+    db
+      .from('sync_log')
+      .select('last_modified')
+      .eq('endpoint', `replay:${matchId}`)
+      .eq('http_status', 200)
+      .order('fetched_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    db.from('matches').select('replay_fetched, events_need_reingest').eq('id', matchId).maybeSingle(),
+    db.from('replay_archive').select('match_id').eq('match_id', matchId).maybeSingle(),
+  ])
+
+  const ifModifiedSince = matchRow?.replay_fetched && !matchRow.events_need_reingest && archived
+    ? lastSync?.last_modified ?? undefined
+    : undefined
 
   try {
     const { data, notModified, lastModified } = await getMatchReplay(
       matchId,
-      lastSync?.last_modified ?? undefined
+      ifModifiedSince,
+      options.priority
     )
 
     await logSync(db, `replay:${matchId}`, {
@@ -399,14 +639,31 @@ export async function syncMatchReplay(matchId: string) {
     })
 
     if (!notModified && data) {
+      // Archive the raw payload first so it survives a failed persist and
+      // derived tables can be rebuilt later without another API call
+      try {
+        await archiveReplay(db, matchId, data)
+      } catch (archiveErr) {
+        console.error(`[sync] ${archiveErr}`)
+      }
       await persistReplayData(db, matchId, data)
       console.log(`[sync] Replay data persisted for match ${matchId}`)
     }
 
-    return { success: true, notModified }
+    return { success: true, notModified, deferred: false, permanent: false, error: null }
   } catch (err) {
+    if (err instanceof RateLimitBudgetError) {
+      console.warn(`[sync] Replay for ${matchId} deferred: ${err.message}`)
+      return { success: false, notModified: false, deferred: true, permanent: false, error: null }
+    }
     console.error(`[sync] Replay fetch error for ${matchId}:`, err)
-    await logSync(db, `replay:${matchId}`, { httpStatus: 0, error: String(err) })
-    return { success: false, notModified: false }
+    await recordFetchError(db, `replay:${matchId}`, err, matchId)
+    return {
+      success: false,
+      notModified: false,
+      deferred: false,
+      permanent: err instanceof ApiValidationError,
+      error: String(err),
+    }
   }
 }
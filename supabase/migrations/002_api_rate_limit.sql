@@ -0,0 +1,81 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Shared API Rate Limit
+-- Migration: 002_api_rate_limit
+--
+-- Serverless invocations don't share memory, so the Shockball
+-- rate-limit budget lives here. Every API request claims a slot
+-- first; responses write back the X-RateLimit-* headers.
+-- ============================================================
+
+create table if not exists api_rate_limit (
+  id            text primary key,              -- 'shockball'
+  hourly_limit  integer not null default 100,
+  remaining     integer not null default 100,
+  reset_at      timestamptz,                   -- from X-RateLimit-Reset (null = unknown)
+  updated_at    timestamptz not null default now()
+);
+
+insert into api_rate_limit (id) values ('shockball')
+on conflict (id) do nothing;
+
+-- ============================================================
+-- claim_api_request
+-- Atomically takes one request from the budget. Refuses when the
+-- budget would drop to p_reserve or below, so background work can
+-- leave headroom for essential requests.
+-- ============================================================
+
+create or replace function claim_api_request(p_reserve integer default 0)
+returns table (granted boolean, remaining_after integer, resets_at timestamptz)
+language plpgsql
+as $$
+declare
+  r api_rate_limit%rowtype;
+begin
+  select * into r from api_rate_limit where id = 'shockball' for update;
+  if not found then
+    insert into api_rate_limit (id) values ('shockball') returning * into r;
+  end if;
+
+  -- Window rolled over since the last response we saw
+  if r.reset_at is not null and r.reset_at <= now() then
+    r.remaining := r.hourly_limit;
+    r.reset_at := null;
+  end if;
+
+  granted := r.remaining > p_reserve;
+  if granted then
+    r.remaining := r.remaining - 1;
+  end if;
+
+  update api_rate_limit
+  set remaining = r.remaining, reset_at = r.reset_at, updated_at = now()
+  where id = 'shockball';
+
+  remaining_after := r.remaining;
+  resets_at := r.reset_at;
+  return next;
+end;
+$$;
+
+-- ============================================================
+-- record_api_rate_limit
+-- Stores the budget reported by the API. Within the same window we
+-- keep the lower value so in-flight claims from other invocations
+-- aren't handed back.
+-- ============================================================
+
+create or replace function record_api_rate_limit(p_remaining integer, p_reset_at timestamptz)
+returns void
+language sql
+as $$
+  update api_rate_limit
+  set
+    remaining = case
+      when p_reset_at is not distinct from reset_at then least(remaining, p_remaining)
+      else p_remaining
+    end,
+    reset_at = coalesce(p_reset_at, reset_at),
+    updated_at = now()
+  where id = 'shockball';
+$$;
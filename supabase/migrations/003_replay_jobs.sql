@@ -0,0 +1,54 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Replay Fetch Queue
+-- Migration: 003_replay_jobs
+--
+-- syncMatches enqueues missing replays here instead of fetching
+-- them inline; the queue worker drains it in small time-boxed
+-- batches, retrying with backoff and dead-lettering matches that
+-- keep failing.
+-- ============================================================
+
+create table if not exists replay_jobs (
+  match_id          text primary key references matches(id) on delete cascade,
+  status            text not null default 'pending'
+                      check (status in ('pending','running','done','dead')),
+  priority          integer not null default 0,          -- lower runs first
+  request_priority  text not null default 'essential'
+                      check (request_priority in ('essential','background')),
+  attempts          integer not null default 0,
+  next_attempt_at   timestamptz not null default now(),
+  locked_at         timestamptz,                         -- set while 'running'
+  last_error        text,
+  created_at        timestamptz not null default now(),
+  updated_at        timestamptz not null default now()
+);
+
+create index if not exists idx_replay_jobs_ready on replay_jobs(status, next_attempt_at, priority);
+
+-- ============================================================
+-- claim_replay_jobs
+-- Marks up to p_limit ready jobs as running and returns them.
+-- SKIP LOCKED lets overlapping invocations take disjoint batches;
+-- jobs stuck in 'running' past p_stale_after (worker timed out)
+-- become claimable again.
+-- ============================================================
+
+create or replace function claim_replay_jobs(
+  p_limit integer,
+  p_stale_after interval default interval '5 minutes'
+)
+returns setof replay_jobs
+language sql
+as $$
+  update replay_jobs j
+  set status = 'running', locked_at = now(), updated_at = now()
+  where j.match_id in (
+    select match_id from replay_jobs
+    where (status = 'pending' and next_attempt_at <= now())
+       or (status = 'running' and locked_at < now() - p_stale_after)
+    order by priority asc, next_attempt_at asc
+    limit p_limit
+    for update skip locked
+  )
+  returning j.*;
+$$;
@@ -0,0 +1,66 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Atomic Replay Persistence
+-- Migration: 004_persist_replay_function
+--
+-- persist_replay_data writes player stats, events and energy
+-- snapshots for a match in a single transaction, and only then
+-- flags the match replay_fetched. Any failure rolls everything
+-- back, so the match stays in the replay queue for a retry.
+-- ============================================================
+
+create or replace function persist_replay_data(
+  p_match_id      text,
+  p_match         jsonb,   -- { sim_version, home_score, away_score }
+  p_player_stats  jsonb,   -- array of player_match_stats rows
+  p_events        jsonb,   -- array of match_events rows
+  p_snapshots     jsonb    -- array of energy_snapshots rows
+)
+returns void
+language plpgsql
+as $$
+begin
+  -- Re-persisting replaces everything derived from the replay
+  delete from player_match_stats where match_id = p_match_id;
+  delete from match_events       where match_id = p_match_id;
+  delete from energy_snapshots   where match_id = p_match_id;
+
+  insert into player_match_stats (
+    match_id, player_id, player_name, team_id, is_home_team,
+    shots, goals, passes, tackles, blocks, fouls, was_injured,
+    shot_conversion_rate, foul_rate
+  )
+  select
+    p_match_id, s.player_id, s.player_name, s.team_id, s.is_home_team,
+    s.shots, s.goals, s.passes, s.tackles, s.blocks, s.fouls, s.was_injured,
+    s.shot_conversion_rate, s.foul_rate
+  from jsonb_populate_recordset(null::player_match_stats, p_player_stats) s;
+
+  insert into match_events (
+    match_id, turn, type, description, players_involved, home_score, away_score, context
+  )
+  select
+    p_match_id, e.turn, e.type, e.description, e.players_involved, e.home_score, e.away_score, e.context
+  from jsonb_populate_recordset(null::match_events, p_events) e
+  on conflict do nothing;  -- best-effort dedup, as before
+
+  -- Penalty columns are generated; first reading per player/turn wins
+  insert into energy_snapshots (match_id, player_id, turn, energy)
+  select p_match_id, es.player_id, es.turn, es.energy
+  from jsonb_populate_recordset(null::energy_snapshots, p_snapshots) es
+  on conflict (match_id, player_id, turn) do nothing;
+
+  -- Flag complete last — only reached if every insert above succeeded
+  update matches set
+    sim_version    = p_match->>'sim_version',
+    home_score     = (p_match->>'home_score')::integer,
+    away_score     = (p_match->>'away_score')::integer,
+    status         = 'COMPLETED',
+    replay_fetched = true,
+    updated_at     = now()
+  where id = p_match_id;
+
+  if not found then
+    raise exception 'persist_replay_data: match % does not exist', p_match_id;
+  end if;
+end;
+$$;
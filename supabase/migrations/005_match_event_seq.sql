@@ -0,0 +1,107 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Per-Event Sequence Numbers
+-- Migration: 005_match_event_seq
+--
+-- match_events used to be deduped on (match_id, turn, type), so
+-- two passes or tackles in the same turn collapsed into one row.
+-- Each event now carries seq, its position in the replay events
+-- array, and (match_id, seq) is the unique key.
+--
+-- Matches stored before this migration are flagged
+-- events_need_reingest; `npm run sync:manual -- --reingest-events`
+-- re-fetches and re-persists them.
+-- ============================================================
+
+-- Drop the lossy dedup key if it exists
+alter table match_events drop constraint if exists match_events_match_id_turn_type_key;
+drop index if exists match_events_match_id_turn_type_key;
+
+alter table match_events add column if not exists seq integer;
+
+-- Best-effort order for legacy rows until they are re-ingested
+update match_events e
+set seq = numbered.seq
+from (
+  select id, row_number() over (partition by match_id order by turn, created_at, id) - 1 as seq
+  from match_events
+) numbered
+where e.id = numbered.id
+  and e.seq is null;
+
+alter table match_events alter column seq set not null;
+
+alter table match_events drop constraint if exists match_events_match_id_seq_key;
+alter table match_events add constraint match_events_match_id_seq_key unique (match_id, seq);
+
+-- ============================================================
+-- Re-ingest tracking
+-- ============================================================
+
+alter table matches add column if not exists events_need_reingest boolean not null default false;
+
+update matches set events_need_reingest = true where replay_fetched = true;
+
+create index if not exists idx_matches_events_need_reingest
+  on matches(events_need_reingest) where events_need_reingest = true;
+
+-- ============================================================
+-- persist_replay_data — now writes seq and clears the flag
+-- ============================================================
+
+create or replace function persist_replay_data(
+  p_match_id      text,
+  p_match         jsonb,   -- { sim_version, home_score, away_score }
+  p_player_stats  jsonb,   -- array of player_match_stats rows
+  p_events        jsonb,   -- array of match_events rows, each with seq
+  p_snapshots     jsonb    -- array of energy_snapshots rows
+)
+returns void
+language plpgsql
+as $$
+begin
+  -- Re-persisting replaces everything derived from the replay
+  delete from player_match_stats where match_id = p_match_id;
+  delete from match_events       where match_id = p_match_id;
+  delete from energy_snapshots   where match_id = p_match_id;
+
+  insert into player_match_stats (
+    match_id, player_id, player_name, team_id, is_home_team,
+    shots, goals, passes, tackles, blocks, fouls, was_injured,
+    shot_conversion_rate, foul_rate
+  )
+  select
+    p_match_id, s.player_id, s.player_name, s.team_id, s.is_home_team,
+    s.shots, s.goals, s.passes, s.tackles, s.blocks, s.fouls, s.was_injured,
+    s.shot_conversion_rate, s.foul_rate
+  from jsonb_populate_recordset(null::player_match_stats, p_player_stats) s;
+
+  -- Every event is kept; seq is its index in the replay's events array
+  insert into match_events (
+    match_id, seq, turn, type, description, players_involved, home_score, away_score, context
+  )
+  select
+    p_match_id, e.seq, e.turn, e.type, e.description, e.players_involved, e.home_score, e.away_score, e.context
+  from jsonb_populate_recordset(null::match_events, p_events) e;
+
+  -- Penalty columns are generated; first reading per player/turn wins
+  insert into energy_snapshots (match_id, player_id, turn, energy)
+  select p_match_id, es.player_id, es.turn, es.energy
+  from jsonb_populate_recordset(null::energy_snapshots, p_snapshots) es
+  on conflict (match_id, player_id, turn) do nothing;
+
+  -- Flag complete last — only reached if every insert above succeeded
+  update matches set
+    sim_version    = p_match->>'sim_version',
+    home_score     = (p_match->>'home_score')::integer,
+    away_score     = (p_match->>'away_score')::integer,
+    status         = 'COMPLETED',
+    replay_fetched = true,
+    events_need_reingest = false,
+    updated_at     = now()
+  where id = p_match_id;
+
+  if not found then
+    raise exception 'persist_replay_data: match % does not exist', p_match_id;
+  end if;
+end;
+$$;
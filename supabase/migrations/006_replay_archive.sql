@@ -0,0 +1,18 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Raw Replay Archive
+-- Migration: 006_replay_archive
+--
+-- The raw ApiReplayData JSON is stored gzipped on every fetch, so
+-- player_match_stats, match_events and energy_snapshots can be
+-- rebuilt after a change to the derivation logic without spending
+-- API quota (`npm run sync:manual -- --rederive`).
+-- ============================================================
+
+create table if not exists replay_archive (
+  match_id          text primary key references matches(id) on delete cascade,
+  payload_gzip      bytea not null,     -- gzip of the raw replay JSON body
+  raw_bytes         integer not null,
+  compressed_bytes  integer not null,
+  sim_version       text,
+  fetched_at        timestamptz not null default now()
+);
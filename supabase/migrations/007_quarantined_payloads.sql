@@ -0,0 +1,22 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Quarantined API Payloads
+-- Migration: 007_quarantined_payloads
+--
+-- API responses that fail runtime validation (see
+-- src/lib/shockball/validate.ts) are kept here verbatim with the
+-- list of issues, instead of being written to the real tables.
+-- A single malformed match no longer aborts the sync, and the
+-- payload is on hand when updating the validators.
+-- ============================================================
+
+create table if not exists quarantined_payloads (
+  id              uuid primary key default uuid_generate_v4(),
+  endpoint        text not null,     -- 'upcoming', 'recent', 'replay:{match_id}'
+  entity_id       text,              -- match ID when one could be read
+  issues          text[] not null,   -- '$.path: problem' per failed check
+  payload         jsonb,             -- raw JSON; non-JSON bodies stored as a string
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists idx_quarantined_payloads_created on quarantined_payloads(created_at desc);
+create index if not exists idx_quarantined_payloads_entity on quarantined_payloads(entity_id);
@@ -0,0 +1,84 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Tracked Teams
+-- Migration: 008_tracked_teams
+--
+-- Replaces the hard-coded Deadly Sins team with a tracked_teams
+-- table, so sister teams can use the same deployment. The sync
+-- worker fetches replays for every tracked team's matches and
+-- pages show whichever tracked team is selected in the Nav.
+--
+-- - teams.is_deadly_sins is dropped; tracked_teams is the source
+-- - matches.involves_deadly_sins becomes involves_tracked_team and
+--   is kept in step by a trigger when teams are (un)tracked
+-- - upcoming_deadly_sins_matches becomes upcoming_tracked_matches,
+--   one row per tracked team in the fixture
+-- ============================================================
+
+create table if not exists tracked_teams (
+  team_id       text primary key references teams(id) on delete cascade,
+  short_name    text not null,                  -- e.g. 'DS', used in compact labels
+  is_default    boolean not null default false, -- shown when no team is selected
+  created_at    timestamptz not null default now()
+);
+
+create unique index if not exists idx_tracked_teams_default
+  on tracked_teams(is_default) where is_default;
+
+insert into tracked_teams (team_id, short_name, is_default)
+values ('cmgbpfhey01c8s12xz26jkbga', 'DS', true)
+on conflict (team_id) do nothing;
+
+-- ============================================================
+-- matches.involves_tracked_team
+-- ============================================================
+
+drop view if exists upcoming_deadly_sins_matches;
+
+alter table matches rename column involves_deadly_sins to involves_tracked_team;
+alter index if exists idx_matches_deadly_sins rename to idx_matches_tracked_team;
+
+alter table teams drop column if exists is_deadly_sins;
+
+create or replace function refresh_tracked_match_flags()
+returns trigger
+language plpgsql
+as $$
+begin
+  update matches m set involves_tracked_team = exists (
+    select 1 from tracked_teams tt where tt.team_id in (m.home_team_id, m.away_team_id)
+  )
+  where m.home_team_id = coalesce(new.team_id, old.team_id)
+     or m.away_team_id = coalesce(new.team_id, old.team_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists tracked_teams_refresh_matches on tracked_teams;
+create trigger tracked_teams_refresh_matches
+after insert or delete on tracked_teams
+for each row execute function refresh_tracked_match_flags();
+
+-- ============================================================
+-- upcoming_tracked_matches
+-- ============================================================
+
+create or replace view upcoming_tracked_matches as
+select
+  m.id,
+  m.scheduled_time,
+  m.status,
+  ht.name  as home_team_name,
+  ht.id    as home_team_id,
+  at.name  as away_team_name,
+  at.id    as away_team_id,
+  c.name   as competition_name,
+  c.type   as competition_type,
+  tt.team_id as tracked_team_id,
+  case when tt.team_id = m.home_team_id then 'home' else 'away' end as tracked_side
+from matches m
+join tracked_teams tt on tt.team_id in (m.home_team_id, m.away_team_id)
+join teams ht on ht.id = m.home_team_id
+join teams at on at.id = m.away_team_id
+left join competitions c on c.id = m.competition_id
+where m.status = 'SCHEDULED'
+order by m.scheduled_time asc;
@@ -0,0 +1,111 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Auth Roles + Row-Level Security
+-- Migration: 009_auth_roles
+--
+-- Pages now query as the signed-in Supabase Auth user rather than
+-- the service role, so every table gets RLS:
+--
+-- - user_roles maps auth users to an app role. An account with no
+--   row can sign in but sees nothing
+-- - Match data (the 001 tables + views) is readable by any user
+--   with a role; only the service role (sync worker) writes
+-- - Worker tables (rate limit, queue, archive, quarantine) have no
+--   policies at all — /admin reads them with the service role
+--   after checking the admin role in the app
+-- - Views run as the caller so they can't bypass the table policies
+--
+-- Grant a role:
+--   insert into user_roles (user_id, role)
+--   select id, 'coach' from auth.users where email = 'coach@example.com';
+-- ============================================================
+
+create table if not exists user_roles (
+  user_id      uuid primary key references auth.users(id) on delete cascade,
+  role         text not null check (role in ('admin','coach','analyst','player','viewer')),
+  created_at   timestamptz not null default now()
+);
+
+-- The caller's role, or null. Security definer so policies can call it
+-- without needing their own policy on user_roles.
+create or replace function app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from user_roles where user_id = auth.uid()
+$$;
+
+-- ============================================================
+-- USER ROLES
+-- ============================================================
+
+alter table user_roles enable row level security;
+
+create policy "user_roles: read own" on user_roles
+  for select to authenticated
+  using (user_id = auth.uid() or app_role() = 'admin');
+
+-- ============================================================
+-- MATCH DATA (001_initial_schema) — read for any role
+-- ============================================================
+
+alter table teams              enable row level security;
+alter table competitions       enable row level security;
+alter table conferences        enable row level security;
+alter table leagues            enable row level security;
+alter table matches            enable row level security;
+alter table player_match_stats enable row level security;
+alter table match_events       enable row level security;
+alter table energy_snapshots   enable row level security;
+alter table sync_log           enable row level security;
+alter table tracked_teams      enable row level security;
+
+create policy "teams: read with role" on teams
+  for select to authenticated using (app_role() is not null);
+
+create policy "competitions: read with role" on competitions
+  for select to authenticated using (app_role() is not null);
+
+create policy "conferences: read with role" on conferences
+  for select to authenticated using (app_role() is not null);
+
+create policy "leagues: read with role" on leagues
+  for select to authenticated using (app_role() is not null);
+
+create policy "matches: read with role" on matches
+  for select to authenticated using (app_role() is not null);
+
+create policy "player_match_stats: read with role" on player_match_stats
+  for select to authenticated using (app_role() is not null);
+
+create policy "match_events: read with role" on match_events
+  for select to authenticated using (app_role() is not null);
+
+create policy "energy_snapshots: read with role" on energy_snapshots
+  for select to authenticated using (app_role() is not null);
+
+create policy "sync_log: read with role" on sync_log
+  for select to authenticated using (app_role() is not null);
+
+create policy "tracked_teams: read with role" on tracked_teams
+  for select to authenticated using (app_role() is not null);
+
+alter view player_career_stats      set (security_invoker = true);
+alter view player_energy_thresholds set (security_invoker = true);
+alter view upcoming_tracked_matches set (security_invoker = true);
+
+-- ============================================================
+-- WORKER TABLES — service role only
+-- ============================================================
+
+alter table api_rate_limit       enable row level security;
+alter table replay_jobs          enable row level security;
+alter table replay_archive       enable row level security;
+alter table quarantined_payloads enable row level security;
+
+revoke execute on function claim_api_request(integer)                  from public, anon, authenticated;
+revoke execute on function record_api_rate_limit(integer, timestamptz) from public, anon, authenticated;
+revoke execute on function claim_replay_jobs(integer, interval)        from public, anon, authenticated;
+revoke execute on function persist_replay_data(text, jsonb, jsonb, jsonb, jsonb) from public, anon, authenticated;
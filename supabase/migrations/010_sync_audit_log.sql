@@ -0,0 +1,86 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Sync Audit Log
+-- Migration: 010_sync_audit_log
+--
+-- One row per on-demand sync, recording who triggered it: an
+-- admin via the /admin server actions, or the cron secret via
+-- /api/*. Manual runs are throttled per user from the same rows,
+-- so a leaked session can't drain the Shockball API budget.
+-- ============================================================
+
+create table if not exists sync_audit_log (
+  id            bigserial primary key,
+  user_id       uuid references auth.users(id) on delete set null,  -- null = cron / API route
+  actor         text not null,     -- user email, or 'cron'
+  action        text not null check (action in ('full_sync','replay_sync','requeue_replay')),
+  match_id      text,
+  outcome       text not null default 'started'
+                check (outcome in ('started','succeeded','failed','throttled')),
+  error         text,
+  created_at    timestamptz not null default now(),
+  finished_at   timestamptz
+);
+
+create index if not exists idx_sync_audit_log_user
+  on sync_audit_log(user_id, action, created_at desc);
+
+create index if not exists idx_sync_audit_log_created
+  on sync_audit_log(created_at desc);
+
+-- Service role only, like the other worker tables (009_auth_roles)
+alter table sync_audit_log enable row level security;
+
+-- ============================================================
+-- begin_sync_action
+-- Records the attempt and decides whether it may run. A user who
+-- has already started p_limit runs of this action inside p_window
+-- is refused (the refusal is logged too). Cron runs (null user)
+-- are never throttled. Serialised per user so concurrent clicks
+-- can't both slip under the limit.
+-- ============================================================
+
+create or replace function begin_sync_action(
+  p_user_id   uuid,
+  p_actor     text,
+  p_action    text,
+  p_match_id  text,
+  p_limit     integer,
+  p_window    interval
+)
+returns table (audit_id bigint, granted boolean, retry_at timestamptz)
+language plpgsql
+as $$
+declare
+  v_recent   integer := 0;
+  v_oldest   timestamptz;
+  v_outcome  text := 'started';
+begin
+  if p_user_id is not null then
+    perform pg_advisory_xact_lock(hashtext('sync_audit_log:' || p_user_id::text));
+
+    select count(*), min(created_at) into v_recent, v_oldest
+    from sync_audit_log
+    where user_id = p_user_id
+      and action = p_action
+      and outcome <> 'throttled'
+      and created_at > now() - p_window;
+
+    if v_recent >= p_limit then
+      v_outcome := 'throttled';
+    end if;
+  end if;
+
+  insert into sync_audit_log (user_id, actor, action, match_id, outcome, finished_at)
+  values (
+    p_user_id, p_actor, p_action, p_match_id, v_outcome,
+    case when v_outcome = 'throttled' then now() end
+  )
+  returning id into audit_id;
+
+  granted := v_outcome = 'started';
+  retry_at := case when granted then null else v_oldest + p_window end;
+  return next;
+end;
+$$;
+
+revoke execute on function begin_sync_action(uuid, text, text, text, integer, interval) from public, anon, authenticated;
@@ -0,0 +1,36 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Lineups
+-- Migration: 011_lineups
+--
+-- The planned starting lineup and bench for a tracked team's
+-- upcoming match, saved from /lineup/[matchId]. One row per
+-- match per tracked team (both sides may be tracked).
+--
+-- Pages write this with the user-scoped client, so RLS decides
+-- who may: any role can read, coaches and admins can save.
+-- ============================================================
+
+create table if not exists lineups (
+  match_id     text not null references matches(id) on delete cascade,
+  team_id      text not null references tracked_teams(team_id) on delete cascade,
+  starters     text[] not null default '{}',   -- player IDs, in order
+  bench        text[] not null default '{}',
+  updated_by   uuid references auth.users(id) on delete set null,
+  updated_at   timestamptz not null default now(),
+  primary key (match_id, team_id),
+  -- A player can't both start and sit on the bench
+  check (not (starters && bench))
+);
+
+alter table lineups enable row level security;
+
+create policy "lineups: read with role" on lineups
+  for select to authenticated using (app_role() is not null);
+
+create policy "lineups: coaches insert" on lineups
+  for insert to authenticated with check (app_role() in ('admin','coach'));
+
+create policy "lineups: coaches update" on lineups
+  for update to authenticated
+  using (app_role() in ('admin','coach'))
+  with check (app_role() in ('admin','coach'));
@@ -0,0 +1,31 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Shot Events
+-- Migration: 012_shot_events
+--
+-- Flattens context.shot from match_events into one row per shot
+-- for the expected-goals model (src/lib/analytics/xg.ts). Both
+-- SHOT and GOAL events carry a shot context; the shooter is the
+-- first player involved.
+-- ============================================================
+
+create index if not exists idx_events_shots
+  on match_events(match_id, seq)
+  where context ? 'shot';
+
+create or replace view shot_events
+with (security_invoker = true) as
+select
+  me.match_id,
+  m.scheduled_time,
+  me.seq,
+  me.turn,
+  me.players_involved[1]                                as shooter_id,
+  (me.context->'shot'->>'distanceToGoal')::numeric      as distance_to_goal,
+  (me.context->'shot'->>'pressure')::numeric            as pressure,
+  (me.context->'shot'->>'shooterAccuracy')::numeric     as shooter_accuracy,
+  (me.context->'shot'->>'guardBlocking')::numeric       as guard_blocking,
+  me.context->'shot'->>'outcome'                        as outcome,
+  (me.type = 'GOAL' or me.context->'shot'->>'outcome' = 'goal') as is_goal
+from match_events me
+join matches m on m.id = me.match_id
+where me.context ? 'shot';
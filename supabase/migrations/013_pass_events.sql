@@ -0,0 +1,29 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Pass Events
+-- Migration: 013_pass_events
+--
+-- Flattens context.pass from match_events into one row per pass
+-- for the passing network and pass-risk breakdowns
+-- (src/lib/analytics/passing.ts). players_involved lists the
+-- passer first, then the player the ball went to — the receiver
+-- for a completed pass, the interceptor for an interception.
+-- ============================================================
+
+create index if not exists idx_events_passes
+  on match_events(match_id, seq)
+  where context ? 'pass';
+
+create or replace view pass_events
+with (security_invoker = true) as
+select
+  me.match_id,
+  me.seq,
+  me.turn,
+  me.players_involved[1]                                as passer_id,
+  me.players_involved[2]                                as target_id,
+  (me.context->'pass'->>'distance')::numeric            as distance,
+  (me.context->'pass'->>'defendersInLane')::integer     as defenders_in_lane,
+  (me.context->'pass'->>'passerAccuracy')::numeric      as passer_accuracy,
+  me.context->'pass'->>'outcome'                        as outcome
+from match_events me
+where me.context ? 'pass';
@@ -0,0 +1,51 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Tackle Events
+-- Migration: 014_tackle_events
+--
+-- One row per TACKLE with the tackler's context.tackle and the
+-- foul it drew, if any, for the discipline model
+-- (src/lib/analytics/discipline.ts). A foul belongs to a tackle
+-- when the same player commits it later in the same turn, before
+-- their next tackle.
+-- ============================================================
+
+create index if not exists idx_events_tackles_fouls
+  on match_events(match_id, turn, seq)
+  where type in ('TACKLE', 'FOUL');
+
+create or replace view tackle_events
+with (security_invoker = true) as
+select
+  t.match_id,
+  m.scheduled_time,
+  t.seq,
+  t.turn,
+  t.players_involved[1]                                   as tackler_id,
+  (t.context->'tackle'->>'tacklerAggression')::numeric    as aggression,
+  (t.context->'tackle'->>'tacklerStrength')::numeric      as strength,
+  f.severity                                              as foul_severity,
+  f.penalty_duration
+from match_events t
+left join lateral (
+  select
+    fe.context->'foul'->>'severity'                       as severity,
+    (fe.context->'foul'->>'penaltyDuration')::numeric     as penalty_duration
+  from match_events fe
+  where fe.match_id = t.match_id
+    and fe.type = 'FOUL'
+    and fe.turn = t.turn
+    and fe.seq > t.seq
+    and fe.players_involved[1] = t.players_involved[1]
+    and not exists (
+      select 1 from match_events t2
+      where t2.match_id = t.match_id
+        and t2.type = 'TACKLE'
+        and t2.players_involved[1] = t.players_involved[1]
+        and t2.seq > t.seq
+        and t2.seq < fe.seq
+    )
+  order by fe.seq
+  limit 1
+) f on true
+join matches m on m.id = t.match_id
+where t.type = 'TACKLE';
@@ -0,0 +1,41 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Injury Events
+-- Migration: 015_injury_events
+--
+-- One row per injured player per match for the injury register
+-- (/injuries, src/lib/analytics/availability.ts). A player counts
+-- as injured when player_match_stats.was_injured is set or an
+-- INJURY event names them first; severity and turn come from the
+-- event when there is one.
+-- ============================================================
+
+create index if not exists idx_events_injuries
+  on match_events(match_id, seq)
+  where type = 'INJURY';
+
+create or replace view injury_events
+with (security_invoker = true) as
+select
+  pms.match_id,
+  m.scheduled_time,
+  pms.player_id,
+  pms.player_name,
+  pms.team_id,
+  e.turn,
+  e.severity,
+  e.substituted_by_bot
+from player_match_stats pms
+join matches m on m.id = pms.match_id
+left join lateral (
+  select
+    me.turn,
+    me.context->'injury'->>'severity'                          as severity,
+    (me.context->'injury'->>'substitutedByBot')::boolean       as substituted_by_bot
+  from match_events me
+  where me.match_id = pms.match_id
+    and me.type = 'INJURY'
+    and me.players_involved[1] = pms.player_id
+  order by me.seq
+  limit 1
+) e on true
+where pms.was_injured or e.turn is not null;
@@ -0,0 +1,55 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Match Turn States
+-- Migration: 016_match_turn_states
+--
+-- One row per turn of each completed, replayed match, for the
+-- win-probability model (src/lib/analytics/win-probability.ts):
+-- the score after that turn, turns left, each side's average
+-- energy from energy_snapshots, and whether the home side won.
+-- ============================================================
+
+create or replace view match_turn_states
+with (security_invoker = true) as
+with side_energy as (
+  select
+    es.match_id,
+    es.turn,
+    avg(es.energy) filter (where pms.is_home_team)       as home_energy,
+    avg(es.energy) filter (where not pms.is_home_team)   as away_energy
+  from energy_snapshots es
+  join player_match_stats pms
+    on pms.match_id = es.match_id and pms.player_id = es.player_id
+  group by es.match_id, es.turn
+),
+match_length as (
+  select match_id, max(turn) as last_turn
+  from match_events
+  group by match_id
+)
+select
+  se.match_id,
+  m.scheduled_time,
+  se.turn,
+  ml.last_turn,
+  coalesce(s.home_score, 0)                      as home_score,
+  coalesce(s.away_score, 0)                      as away_score,
+  round(se.home_energy, 1)                       as home_energy,
+  round(se.away_energy, 1)                       as away_energy,
+  m.home_score > m.away_score                    as home_won
+from side_energy se
+join matches m on m.id = se.match_id
+join match_length ml on ml.match_id = se.match_id
+left join lateral (
+  select me.home_score, me.away_score
+  from match_events me
+  where me.match_id = se.match_id
+    and me.turn <= se.turn
+    and me.home_score is not null
+    and me.away_score is not null
+  order by me.seq desc
+  limit 1
+) s on true
+where m.status = 'COMPLETED'
+  and m.replay_fetched
+  and m.home_score is not null
+  and m.away_score is not null;
@@ -0,0 +1,24 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Fitted Models
+-- Migration: 017_fitted_models
+--
+-- Coefficients of the analytics models (xG, tackle discipline,
+-- win probability), one row per model. The sync worker refits
+-- them from the training views after new replays are stored
+-- (src/workers/models.ts); pages only read the stored fit, so a
+-- page view never pages through the training views itself.
+--
+-- Written with the service role; any role can read.
+-- ============================================================
+
+create table if not exists fitted_models (
+  name           text primary key,       -- 'xg', 'discipline', 'win_probability'
+  model          jsonb not null,         -- the model object as fitted in src/lib/analytics
+  training_rows  integer not null,
+  fitted_at      timestamptz not null default now()
+);
+
+alter table fitted_models enable row level security;
+
+create policy "fitted_models: read with role" on fitted_models
+  for select to authenticated using (app_role() is not null);
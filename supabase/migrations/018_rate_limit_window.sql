@@ -0,0 +1,49 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Rate Limit Window Fix
+-- Migration: 018_rate_limit_window
+--
+-- claim_api_request used to clear reset_at when the window rolled
+-- over. record_api_rate_limit keeps the old reset_at when a
+-- response carries no X-RateLimit-Reset, so reset_at could stay
+-- null and the budget never refill. A claim now starts an assumed
+-- one-hour window whenever reset_at is unknown; the next response
+-- header replaces it with the real reset time.
+-- ============================================================
+
+create or replace function claim_api_request(p_reserve integer default 0)
+returns table (granted boolean, remaining_after integer, resets_at timestamptz)
+language plpgsql
+as $$
+declare
+  r api_rate_limit%rowtype;
+begin
+  select * into r from api_rate_limit where id = 'shockball' for update;
+  if not found then
+    insert into api_rate_limit (id) values ('shockball') returning * into r;
+  end if;
+
+  -- Window rolled over since the last response we saw
+  if r.reset_at is not null and r.reset_at <= now() then
+    r.remaining := r.hourly_limit;
+    r.reset_at := null;
+  end if;
+
+  -- No known window: assume one starts now, so the budget always refills
+  if r.reset_at is null then
+    r.reset_at := now() + interval '1 hour';
+  end if;
+
+  granted := r.remaining > p_reserve;
+  if granted then
+    r.remaining := r.remaining - 1;
+  end if;
+
+  update api_rate_limit
+  set remaining = r.remaining, reset_at = r.reset_at, updated_at = now()
+  where id = 'shockball';
+
+  remaining_after := r.remaining;
+  resets_at := r.reset_at;
+  return next;
+end;
+$$;
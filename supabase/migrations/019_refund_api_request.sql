@@ -0,0 +1,29 @@
+-- ============================================================
+-- Deadly Sins Shockball Analytics - Refund Unused Claims
+-- Migration: 019_refund_api_request
+--
+-- Every request claims a slot before it is sent, but a 304 costs
+-- nothing, and record_api_rate_limit keeps the lower of our count
+-- and the API's within a window, so the claim was never handed
+-- back. The client now refunds it on a 304.
+--
+-- Worker-only, like claim_api_request (009_auth_roles.sql).
+-- ============================================================
+
+-- ============================================================
+-- refund_api_request
+-- Returns one slot to the budget, but only while the window the
+-- claim was made in (p_reset_at) is still current — a claim from
+-- an earlier window has already been reset away.
+-- ============================================================
+
+create or replace function refund_api_request(p_reset_at timestamptz)
+returns void
+language sql
+as $$
+  update api_rate_limit
+  set remaining = least(remaining + 1, hourly_limit), updated_at = now()
+  where id = 'shockball' and reset_at is not distinct from p_reset_at;
+$$;
+
+revoke execute on function refund_api_request(timestamptz) from public, anon, authenticated;
@@ -0,0 +1,86 @@
+/**
+ * Injury register & availability — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  buildInjuryRegister,
+  expectedMatchesMissed,
+  squadAvailability,
+  DEFAULT_MATCHES_MISSED,
+  type InjuryRow,
+  type TeamAppearances,
+} from '../src/lib/analytics/availability'
+
+const injury = (matchId: string, playerId: string, severity: string | null): InjuryRow => ({
+  match_id: matchId,
+  scheduled_time: `2026-01-0${matchId.slice(1)}T12:00:00Z`,
+  player_id: playerId,
+  player_name: playerId.toUpperCase(),
+  team_id: 't1',
+  turn: 12,
+  severity,
+  substituted_by_bot: true,
+})
+
+const match = (matchId: string, playerIds: string[]): TeamAppearances => ({
+  matchId,
+  scheduledTime: `2026-01-0${matchId.slice(1)}T12:00:00Z`,
+  playerIds: new Set(playerIds),
+})
+
+// m1..m6, one per day; p1 misses m2–m3, p2 never comes back after m4
+const MATCHES = [
+  match('m6', ['p3']),
+  match('m1', ['p1', 'p2', 'p3']),
+  match('m2', ['p2', 'p3']),
+  match('m3', ['p2', 'p3']),
+  match('m4', ['p1', 'p2', 'p3']),
+  match('m5', ['p1', 'p3']),
+]
+
+test('register counts matches missed until the player reappears', () => {
+  const register = buildInjuryRegister(
+    [injury('m1', 'p1', 'SERIOUS'), injury('m4', 'p2', 'MINOR'), injury('m5', 'p1', null)],
+    MATCHES
+  )
+
+  assert.deepEqual(register.map(r => [r.matchId, r.playerId]), [['m5', 'p1'], ['m4', 'p2'], ['m1', 'p1']])
+
+  const [latest, open, healed] = register
+  assert.equal(healed.returned, true)
+  assert.equal(healed.returnedMatchId, 'm4')
+  assert.equal(healed.matchesMissed, 2)
+
+  assert.equal(open.returned, false)
+  assert.equal(open.matchesMissed, 2)
+
+  // No severity recorded counts as minor
+  assert.equal(latest.severity, 'MINOR')
+  assert.equal(latest.matchesMissed, 1)
+})
+
+test('expected absence is the median over healed injuries, with defaults', () => {
+  const register = buildInjuryRegister([injury('m1', 'p1', 'SERIOUS')], MATCHES)
+  assert.deepEqual(expectedMatchesMissed(register), { MINOR: DEFAULT_MATCHES_MISSED.MINOR, SERIOUS: 2 })
+  assert.deepEqual(expectedMatchesMissed([]), DEFAULT_MATCHES_MISSED)
+})
+
+test('availability flags players still inside or past their expected absence', () => {
+  const register = buildInjuryRegister(
+    [injury('m1', 'p1', 'SERIOUS'), injury('m5', 'p1', 'SERIOUS'), injury('m4', 'p2', 'MINOR')],
+    MATCHES
+  )
+  const board = squadAvailability(
+    [{ playerId: 'p3', playerName: 'P3' }, { playerId: 'p2', playerName: 'P2' }, { playerId: 'p1', playerName: 'P1' }],
+    register,
+    expectedMatchesMissed(register)
+  )
+
+  // p1: serious, 1 of an expected 2 missed; p2: minor, 2 missed against 0 expected
+  assert.deepEqual(board.map(p => [p.playerId, p.status]), [['p1', 'unavailable'], ['p2', 'doubtful'], ['p3', 'available']])
+  assert.equal(board[0].expectedMatchesMissed, 2)
+  assert.equal(board[0].injury?.matchId, 'm5')
+  assert.equal(board[2].injury, null)
+})
@@ -0,0 +1,92 @@
+/**
+ * Tackle discipline model — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  fitDisciplineModel,
+  foulChances,
+  summariseDiscipline,
+  FOUL_SEVERITIES,
+  MIN_TRAINING_TACKLES,
+  type TackleRow,
+} from '../src/lib/analytics/discipline'
+
+const tackle = (
+  aggression: number | null,
+  severity: 'light' | 'normal' | 'heavy' | null = null,
+  penalty: number | null = null,
+  strength: number | null = 50
+): TackleRow => ({ tackler_id: 'p1', aggression, strength, foul_severity: severity, penalty_duration: penalty })
+
+// Fouls get more frequent and heavier as aggression rises
+function trainingTackles(): TackleRow[] {
+  const rows: TackleRow[] = []
+  for (let aggression = 0; aggression <= 100; aggression += 5) {
+    for (let k = 0; k < 4; k++) {
+      const roll = (aggression * 3 + k * 29) % 100
+      const severity =
+        roll < aggression * 0.15 ? 'heavy' :
+        roll < aggression * 0.35 ? 'normal' :
+        roll < aggression * 0.5 ? 'light' : null
+      rows.push(tackle(aggression, severity, severity === 'heavy' ? 4 : severity === 'normal' ? 2 : severity ? 1 : null))
+    }
+  }
+  return rows
+}
+
+test('aggressive tacklers are more likely to foul', () => {
+  const tackles = trainingTackles()
+  assert.ok(tackles.length >= MIN_TRAINING_TACKLES)
+
+  const model = fitDisciplineModel(tackles)
+  const calm = foulChances(model, { aggression: 10, strength: 50 })
+  const wild = foulChances(model, { aggression: 90, strength: 50 })
+
+  assert.ok(wild.heavy > calm.heavy)
+  assert.ok(wild.normal > calm.normal)
+  assert.deepEqual(model.avgPenalty, { light: 1, normal: 2, heavy: 4 })
+})
+
+test('foul chances are a distribution that adds up to the foul chance', () => {
+  const model = fitDisciplineModel(trainingTackles())
+  assert.ok(model.foulModel)
+
+  for (const aggression of [0, 25, 50, 75, 100, 150]) {
+    const chances = foulChances(model, { aggression, strength: 50 })
+    const total = FOUL_SEVERITIES.reduce((sum, s) => sum + chances[s], 0)
+    assert.ok(total <= 1, `chances at aggression ${aggression} sum to ${total}`)
+    assert.ok(FOUL_SEVERITIES.every(s => chances[s] >= 0))
+  }
+
+  // Averaged over the training tackles, the chances match the overall foul rate
+  const tackles = trainingTackles()
+  const meanFoulChance = tackles.reduce((sum, t) => {
+    const c = foulChances(model, t)
+    return sum + c.light + c.normal + c.heavy
+  }, 0) / tackles.length
+  assert.ok(Math.abs(meanFoulChance - model.foulRate) < 0.01)
+})
+
+test('small samples fall back to overall severity rates', () => {
+  const model = fitDisciplineModel([tackle(50), tackle(60, 'light', 1), tackle(70, 'heavy', 4), tackle(80)])
+
+  assert.equal(model.foulModel, null)
+  assert.deepEqual(model.severityModels, { light: null, normal: null, heavy: null })
+  assert.deepEqual(foulChances(model, { aggression: 0, strength: null }), { light: 0.25, normal: 0, heavy: 0.25 })
+})
+
+test('player summary turns foul chances into penalty time', () => {
+  const model = fitDisciplineModel([tackle(50), tackle(60, 'light', 1), tackle(70, 'heavy', 4), tackle(80)])
+  const summary = summariseDiscipline(model, [tackle(40, 'heavy', 4), tackle(60), tackle(80, 'light', 2), tackle(null)], 2)
+
+  assert.equal(summary.tackles, 4)
+  assert.equal(summary.avgAggression, 60)
+  assert.deepEqual(summary.fouls, { light: 1, normal: 0, heavy: 1 })
+  assert.equal(summary.penaltyTurns, 6)
+  // 0.25 × 1 + 0.25 × 4 turns per tackle, 2 tackles per match
+  assert.equal(summary.expectedPenaltyPerTackle, 1.25)
+  assert.equal(summary.expectedPenaltyPerMatch, 2.5)
+  assert.equal(summariseDiscipline(model, [], 0).expectedPenaltyPerMatch, null)
+})
@@ -0,0 +1,45 @@
+/**
+ * extractEnergySnapshots — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { extractEnergySnapshots } from '../src/workers/sync'
+import type { ApiGameEvent } from '../src/types'
+
+const event = (turn: number, type: string, context?: ApiGameEvent['context']): ApiGameEvent => ({
+  turn, type, description: type, playersInvolved: [], homeScore: 0, awayScore: 0, context,
+})
+
+test('MATCH_START initialEnergy becomes turn 0 snapshots', () => {
+  const snapshots = extractEnergySnapshots('m1', [
+    event(5, 'MATCH_START', { initialEnergy: { a: 100, b: 96 } }),
+  ])
+
+  assert.deepEqual(snapshots, [
+    { match_id: 'm1', player_id: 'a', turn: 0, energy: 100 },
+    { match_id: 'm1', player_id: 'b', turn: 0, energy: 96 },
+  ])
+})
+
+test('TURN_UPDATE turnEnergy is stored at the event turn', () => {
+  const snapshots = extractEnergySnapshots('m1', [
+    event(3, 'TURN_UPDATE', { turnEnergy: { a: 80 } }),
+    event(4, 'TURN_UPDATE', { turnEnergy: { a: 77, b: 12 } }),
+  ])
+
+  assert.deepEqual(snapshots.map(s => [s.player_id, s.turn, s.energy]), [
+    ['a', 3, 80],
+    ['a', 4, 77],
+    ['b', 4, 12],
+  ])
+})
+
+test('events without energy context produce no snapshots', () => {
+  const snapshots = extractEnergySnapshots('m1', [
+    event(1, 'PASS', { pass: { outcome: 'completed' } }),
+    event(2, 'GOAL'),
+  ])
+
+  assert.equal(snapshots.length, 0)
+})
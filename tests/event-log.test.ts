@@ -0,0 +1,65 @@
+/**
+ * Match event log filters and details — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  eventDetails,
+  filterEventLog,
+  parseEventLogFilters,
+  type EventLogEntry,
+} from '../src/lib/analytics/event-log'
+
+const event = (seq: number, turn: number, type: string, players: string[], context: Record<string, unknown> | null = null): EventLogEntry => ({
+  seq, turn, type, description: type, players_involved: players, home_score: 0, away_score: 0, context,
+})
+
+const EVENTS = [
+  event(4, 3, 'TACKLE', ['a1', 'h2']),
+  event(0, 1, 'PASS', ['h1', 'h2']),
+  event(1, 1, 'MATCH_START', []),
+  event(2, 2, 'SHOT', ['h2', 'a1']),
+  event(3, 2, 'FOUL', ['a1']),
+  event(5, 5, 'PASS', ['a2', 'a1']),
+]
+
+const sideOf = (playerId: string) => (playerId.startsWith('h') ? 'home' as const : 'away' as const)
+
+test('filters parse from URL parameters, ignoring anything malformed', () => {
+  assert.deepEqual(parseEventLogFilters({ type: ['PASS', 'NOPE', 'FOUL'], team: 'away', player: ' a1 ', from: '2', to: 'x' }), {
+    types: ['PASS', 'FOUL'],
+    team: 'away',
+    player: 'a1',
+    fromTurn: 2,
+    toTurn: null,
+  })
+  assert.deepEqual(parseEventLogFilters({ type: 'SHOT', team: 'both', from: '-1' }), {
+    types: ['SHOT'], team: null, player: null, fromTurn: null, toTurn: null,
+  })
+})
+
+test('log keeps logged types in replay order and applies every filter', () => {
+  const all = parseEventLogFilters({})
+  assert.deepEqual(filterEventLog(EVENTS, all, sideOf).map(e => e.seq), [0, 2, 3, 4, 5])
+
+  const away = parseEventLogFilters({ team: 'away', to: '4' })
+  assert.deepEqual(filterEventLog(EVENTS, away, sideOf).map(e => e.seq), [3, 4])
+
+  // A player matches anywhere in players_involved
+  const h2Passes = parseEventLogFilters({ player: 'h2', type: ['PASS', 'SHOT'] })
+  assert.deepEqual(filterEventLog(EVENTS, h2Passes, sideOf).map(e => e.seq), [0, 2])
+})
+
+test('context is flattened into labelled details', () => {
+  assert.deepEqual(eventDetails({ shot: { distanceToGoal: 12, pressure: 0.456, outcome: 'save_rebound' } }), [
+    { label: 'Distance', value: '12' },
+    { label: 'Pressure', value: '0.5' },
+    { label: 'Outcome', value: 'save rebound' },
+  ])
+  assert.deepEqual(eventDetails({ injury: { severity: 'SERIOUS', substitutedByBot: true } }), [
+    { label: 'Severity', value: 'serious' },
+    { label: 'Bot sub', value: 'yes' },
+  ])
+  assert.deepEqual(eventDetails(null), [])
+})
@@ -0,0 +1,94 @@
+/**
+ * Integration test helpers
+ *
+ * Tests run the real sync worker against a local Supabase stack (all of
+ * supabase/migrations applied) and the offline API stub. They need:
+ *   TEST_SUPABASE_URL               e.g. http://127.0.0.1:54321
+ *   TEST_SUPABASE_SERVICE_ROLE_KEY  printed by `npx supabase status`
+ * Without them the database suites are skipped. Only local URLs are
+ * accepted — every test starts by emptying the tables.
+ */
+
+import { createServerClient } from '../src/lib/supabase/client'
+import { startStubApi, type StubApi } from '../scripts/stub-api/server'
+import { DS_TEAM_ID } from '../scripts/stub-api/fixtures'
+
+const LOCAL_HOSTS = new Set(['127.0.0.1', 'localhost', '[::1]', 'host.docker.internal'])
+
+export const dbUrl = process.env.TEST_SUPABASE_URL
+export const dbKey = process.env.TEST_SUPABASE_SERVICE_ROLE_KEY
+
+/** Pass as node:test `skip` — a reason string when no local DB is configured */
+export const skipWithoutDb: string | false = !dbUrl || !dbKey
+  ? 'TEST_SUPABASE_URL / TEST_SUPABASE_SERVICE_ROLE_KEY not set'
+  : false
+
+export type TestDb = ReturnType<typeof createServerClient>
+
+/**
+ * Start the stub API and point the worker's env at it and the local DB.
+ * Call before running anything from src/workers.
+ */
+export async function setUpSyncEnv(): Promise<{ stub: StubApi; db: TestDb }> {
+  if (!dbUrl || !dbKey) throw new Error('Local test database is not configured')
+  if (!LOCAL_HOSTS.has(new URL(dbUrl).hostname)) {
+    throw new Error(`Refusing to run destructive tests against non-local database ${dbUrl}`)
+  }
+
+  const stub = await startStubApi()
+
+  process.env.NEXT_PUBLIC_SUPABASE_URL = dbUrl
+  process.env.SUPABASE_SERVICE_ROLE_KEY = dbKey
+  process.env.SHOCKBALL_API_KEY = 'test'
+  process.env.SHOCKBALL_API_BASE_URL = stub.baseUrl
+  process.env.SCOUTING_REPLAY_BUDGET = '0'
+
+  return { stub, db: createServerClient() }
+}
+
+// Children first so foreign keys don't block the deletes
+const TABLES: Array<[table: string, key: string]> = [
+  ['sync_audit_log', 'id'],
+  ['quarantined_payloads', 'id'],
+  ['sync_log', 'id'],
+  ['replay_archive', 'match_id'],
+  ['replay_jobs', 'match_id'],
+  ['energy_snapshots', 'id'],
+  ['match_events', 'id'],
+  ['player_match_stats', 'id'],
+  ['matches', 'id'],
+  ['competitions', 'id'],
+  ['conferences', 'id'],
+  ['leagues', 'id'],
+  ['tracked_teams', 'team_id'],
+  ['teams', 'id'],
+]
+
+/** Empty every synced table, track only Deadly Sins and restore a full API budget */
+export async function resetDb(db: TestDb) {
+  for (const [table, key] of TABLES) {
+    const { error } = await db.from(table).delete().not(key, 'is', null)
+    if (error) throw new Error(`Failed to empty ${table}: ${error.message}`)
+  }
+
+  const { error: teamError } = await db.from('teams').insert({ id: DS_TEAM_ID, name: 'Deadly Sins' })
+  if (teamError) throw new Error(`Failed to seed teams: ${teamError.message}`)
+  const { error: trackedError } = await db
+    .from('tracked_teams')
+    .insert({ team_id: DS_TEAM_ID, short_name: 'DS', is_default: true })
+  if (trackedError) throw new Error(`Failed to seed tracked_teams: ${trackedError.message}`)
+
+  const { error } = await db
+    .from('api_rate_limit')
+    .update({ remaining: 100, reset_at: null })
+    .eq('id', 'shockball')
+  if (error) throw new Error(`Failed to reset api_rate_limit: ${error.message}`)
+}
+
+export async function countRows(db: TestDb, table: string, matchId?: string) {
+  let query = db.from(table).select('*', { count: 'exact', head: true })
+  if (matchId) query = query.eq('match_id', matchId)
+  const { count, error } = await query
+  if (error) throw new Error(`Failed to count ${table}: ${error.message}`)
+  return count ?? 0
+}
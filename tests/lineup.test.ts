@@ -0,0 +1,93 @@
+/**
+ * Lineup planning model — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  computePlayerStatus,
+  rankLineupCandidates,
+  suggestLineup,
+  STARTING_LINEUP_SIZE,
+  type CareerStatsRow,
+  type PlayerEnergyHistory,
+} from '../src/lib/analytics/lineup'
+
+const player = { playerId: 'p1', playerName: 'One', teamId: 't' }
+
+const history = (...rows: Array<[start: number | null, min: number | null]>): PlayerEnergyHistory[] =>
+  rows.map(([startEnergy, minEnergy], i) => ({
+    matchId: `m${i}`,
+    scheduledTime: `2026-01-${String(20 - i).padStart(2, '0')}T12:00:00Z`,
+    startEnergy,
+    minEnergy,
+  }))
+
+const row = (id: string, goals: number, tackles = 0, passes = 0): CareerStatsRow => ({
+  player_id: id,
+  player_name: id,
+  team_id: 't',
+  matches_played: 5,
+  avg_goals_per_match: goals,
+  avg_tackles_per_match: tackles,
+  avg_passes_per_match: passes,
+})
+
+test('predicts the low point from the latest start energy and average drain', () => {
+  const status = computePlayerStatus(player, history([90, 40], [100, 50], [80, 30]))
+
+  assert.equal(status.estimatedCurrentEnergy, 90)
+  assert.equal(status.lastMatchMinEnergy, 40)
+  assert.equal(status.lastMatchDate, '2026-01-20T12:00:00Z')
+  assert.equal(status.predictedMinEnergy, 90 - 50)
+  assert.equal(status.startRisk, 'low')
+})
+
+test('start risk follows the auto-sub and severe penalty thresholds', () => {
+  assert.equal(computePlayerStatus(player, history([80, 5])).startRisk, 'high')      // low ~5
+  assert.equal(computePlayerStatus(player, history([80, 15])).startRisk, 'medium')   // low ~15
+  assert.equal(computePlayerStatus(player, history([80, 20])).startRisk, 'low')      // low ~20
+})
+
+test('players without energy history are unknown risk', () => {
+  const status = computePlayerStatus(player, [])
+  assert.equal(status.estimatedCurrentEnergy, null)
+  assert.equal(status.predictedMinEnergy, null)
+  assert.equal(status.startRisk, 'unknown')
+})
+
+test('ranking discounts output by risk', () => {
+  const ranked = rankLineupCandidates(
+    [row('scorer', 1), row('tired-star', 1.2), row('defender', 0, 2)],
+    {
+      'scorer': history([100, 60]),
+      'tired-star': history([60, 0]),   // drains to 0 — high risk
+      'defender': history([100, 50]),
+    }
+  )
+
+  assert.deepEqual(ranked.map(c => c.playerId), ['scorer', 'tired-star', 'defender'])
+  assert.equal(ranked[0].rankScore, 3)
+  assert.equal(ranked[1].startRisk, 'high')
+  assert.equal(ranked[1].rankScore, Math.round(3.6 * 0.6 * 100) / 100)
+})
+
+test('suggested lineup starts the top ranked players', () => {
+  const ranked = rankLineupCandidates(
+    Array.from({ length: STARTING_LINEUP_SIZE + 2 }, (_, i) => row(`p${i}`, 10 - i)),
+    {}
+  )
+  const { starters, bench } = suggestLineup(ranked)
+
+  assert.deepEqual(starters, ranked.slice(0, STARTING_LINEUP_SIZE).map(c => c.playerId))
+  assert.deepEqual(bench, ['p5', 'p6'])
+})
+
+test('with a kick-off time, start energy is projected by the recovery model', () => {
+  // Regained 40 over 24h; last low point 30 at noon on 2026-01-20, kick-off 6h later
+  const hist = history([70, 30], [100, 30])
+  const [candidate] = rankLineupCandidates([row('p1', 1)], { p1: hist }, '2026-01-20T18:00:00Z')
+
+  assert.ok(candidate.recoveryPerHour !== null)
+  assert.equal(candidate.estimatedCurrentEnergy, Math.round(30 + candidate.recoveryPerHour * 6))
+})
@@ -0,0 +1,82 @@
+/**
+ * Passing network + pass-risk breakdown — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  buildPassingNetwork,
+  completionByDistance,
+  completionByLanePressure,
+  type PassRow,
+} from '../src/lib/analytics/passing'
+
+const pass = (
+  from: string,
+  to: string | null,
+  outcome: 'completed' | 'interception' | 'incomplete',
+  distance: number | null = null,
+  lane: number | null = null
+): PassRow => ({ passer_id: from, target_id: to, distance, defenders_in_lane: lane, passer_accuracy: null, outcome })
+
+const team = new Set(['a', 'b', 'c'])
+
+test('network weights teammate links by completions and links interceptions to the interceptor', () => {
+  const network = buildPassingNetwork([
+    pass('a', 'b', 'completed'),
+    pass('a', 'b', 'completed'),
+    pass('a', 'x', 'interception'),   // target is the opponent who picked it off
+    pass('b', 'a', 'completed'),
+    pass('a', 'x', 'interception'),
+    pass('b', 'y', 'interception'),
+    pass('b', null, 'incomplete'),
+    pass('x', 'y', 'completed'),      // the other team
+  ], team)
+
+  assert.deepEqual(network.edges, [
+    { from: 'a', to: 'b', completed: 2 },
+    { from: 'b', to: 'a', completed: 1 },
+  ])
+  assert.deepEqual(network.interceptions, [
+    { from: 'a', by: 'x', count: 2 },
+    { from: 'b', by: 'y', count: 1 },
+  ])
+  assert.deepEqual(network.nodes, [
+    { playerId: 'a', attempts: 4, completed: 2, intercepted: 2 },
+    { playerId: 'b', attempts: 3, completed: 1, intercepted: 1 },
+  ])
+})
+
+test('receivers who never passed still appear as nodes', () => {
+  const network = buildPassingNetwork([pass('a', 'c', 'completed')], team)
+  assert.deepEqual(network.nodes.map(n => n.playerId), ['a', 'c'])
+})
+
+test('completion by lane pressure buckets 0, 1 and 2+ defenders', () => {
+  const buckets = completionByLanePressure([
+    pass('a', 'b', 'completed', null, 0),
+    pass('a', 'b', 'completed', null, 0),
+    pass('a', 'b', 'interception', null, 1),
+    pass('a', 'b', 'completed', null, 1),
+    pass('a', 'b', 'incomplete', null, 3),
+    pass('a', 'b', 'completed'),           // no lane data
+  ])
+
+  assert.deepEqual(buckets.map(b => [b.label, b.attempts, b.completionRate, b.intercepted]), [
+    ['Open lane', 2, 1, 0],
+    ['1 defender', 2, 0.5, 1],
+    ['2+ defenders', 1, 0, 0],
+  ])
+})
+
+test('completion by distance uses short, medium and long bands', () => {
+  const buckets = completionByDistance([
+    pass('a', 'b', 'completed', 3),
+    pass('a', 'b', 'completed', 8),
+    pass('a', 'b', 'interception', 15),
+    pass('a', 'b', 'completed', 16),
+  ])
+
+  assert.deepEqual(buckets.map(b => [b.attempts, b.completionRate]), [[1, 1], [2, 0.5], [1, 1]])
+  assert.equal(completionByDistance([])[0].completionRate, null)
+})
@@ -0,0 +1,75 @@
+/**
+ * Energy recovery model — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  recoveryObservations,
+  recoveryRate,
+  teamRecoveryRate,
+  estimateRecovery,
+  predictStartEnergy,
+  type PlayerEnergyHistory,
+} from '../src/lib/analytics/recovery'
+
+// Newest first; times are hours after a fixed epoch
+const at = (hours: number) => new Date(Date.UTC(2026, 0, 1) + hours * 3_600_000).toISOString()
+const match = (id: string, hours: number, startEnergy: number | null, minEnergy: number | null): PlayerEnergyHistory => ({
+  matchId: id, scheduledTime: at(hours), startEnergy, minEnergy,
+})
+
+test('pairs each match low point with the next match start', () => {
+  const observations = recoveryObservations([
+    match('m3', 48, 70, 30),
+    match('m2', 24, 100, 20),
+    match('m1', 0, 100, 40),
+  ])
+
+  assert.deepEqual(observations.map(o => [o.fromMatchId, o.toMatchId, o.gapHours, o.endEnergy, o.nextStartEnergy, o.capped]), [
+    ['m2', 'm3', 24, 20, 70, false],
+    ['m1', 'm2', 24, 40, 100, true],
+  ])
+})
+
+test('skips pairs missing a low point or a start', () => {
+  const observations = recoveryObservations([
+    match('m3', 48, null, 30),
+    match('m2', 24, 90, null),
+    match('m1', 0, 100, 40),
+  ])
+
+  assert.deepEqual(observations.map(o => o.toMatchId), ['m2'])
+})
+
+test('rate ignores full-energy starts and weights by gap length', () => {
+  const rate = recoveryRate(recoveryObservations([
+    match('m4', 72, 80, 20),  // +40 over 12h
+    match('m3', 60, 60, 40),  // +40 over 36h
+    match('m2', 24, 100, 20), // capped
+    match('m1', 0, 100, 10),
+  ]))
+
+  assert.equal(rate, 80 / 48)
+})
+
+test('players without usable pairs fall back to the team rate', () => {
+  const always100 = [match('a2', 24, 100, 30), match('a1', 0, 100, 30)]
+  const tired = [match('b2', 24, 50, 20), match('b1', 0, 100, 26)]
+
+  const teamRate = teamRecoveryRate({ a: always100, b: tired })
+  assert.equal(teamRate, 1)
+
+  assert.deepEqual(estimateRecovery(always100, teamRate), { ratePerHour: 1, observations: 1, usable: 0, source: 'team' })
+  assert.deepEqual(estimateRecovery(tired, teamRate), { ratePerHour: 1, observations: 1, usable: 1, source: 'player' })
+  assert.equal(estimateRecovery([], null).source, 'none')
+})
+
+test('predicts start energy from the last low point, capped at full', () => {
+  const history = [match('m2', 24, 80, 30), match('m1', 0, 100, 40)]
+
+  assert.equal(predictStartEnergy(history, 2, at(24 + 10)), 50)
+  assert.equal(predictStartEnergy(history, 2, at(24 + 100)), 100)
+  assert.equal(predictStartEnergy(history, null, at(48)), null)
+  assert.equal(predictStartEnergy([], 2, at(48)), null)
+})
@@ -0,0 +1,56 @@
+/**
+ * Replay viewer frames — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  energyAtTurn,
+  eventsByTurn,
+  lastReplayTurn,
+  scoreAtTurn,
+  type ReplayEvent,
+} from '../src/lib/analytics/replay'
+
+const event = (seq: number, turn: number, type: string, score: [number, number] | null = null): ReplayEvent => ({
+  seq,
+  turn,
+  type,
+  description: `${type} on turn ${turn}`,
+  players_involved: ['p1'],
+  home_score: score?.[0] ?? null,
+  away_score: score?.[1] ?? null,
+})
+
+const EVENTS = [
+  event(0, 1, 'PASS'),
+  event(3, 4, 'GOAL', [1, 0]),
+  event(1, 2, 'SHOT', [0, 0]),
+  event(4, 4, 'TACKLE'),
+  event(5, 9, 'GOAL', [1, 1]),
+]
+
+test('score runs from 0–0 through each scoring event', () => {
+  assert.deepEqual(scoreAtTurn(EVENTS, 0), { home: 0, away: 0 })
+  assert.deepEqual(scoreAtTurn(EVENTS, 4), { home: 1, away: 0 })
+  assert.deepEqual(scoreAtTurn(EVENTS, 8), { home: 1, away: 0 })
+  assert.deepEqual(scoreAtTurn(EVENTS, 9), { home: 1, away: 1 })
+})
+
+test('events group by turn in replay order', () => {
+  const byTurn = eventsByTurn(EVENTS)
+  assert.deepEqual(byTurn.get(4)?.map(e => e.type), ['GOAL', 'TACKLE'])
+  assert.equal(byTurn.get(3), undefined)
+})
+
+test('energy holds the last snapshot and the replay ends at the latest turn', () => {
+  const curve = [{ turn: 0, energy: 100 }, { turn: 5, energy: 80 }, { turn: 12, energy: 55 }]
+
+  assert.equal(energyAtTurn(curve, 4), 100)
+  assert.equal(energyAtTurn(curve, 5), 80)
+  assert.equal(energyAtTurn(curve, 40), 55)
+  assert.equal(energyAtTurn([{ turn: 3, energy: 90 }], 1), null)
+
+  assert.equal(lastReplayTurn(EVENTS, { p1: curve }), 12)
+  assert.equal(lastReplayTurn([], {}), 0)
+})
@@ -0,0 +1,76 @@
+/**
+ * Opponent scouting report — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  buildScoutingReport,
+  classifyFadePattern,
+  type FadeRow,
+  type ScoutingPlayerRow,
+} from '../src/lib/analytics/scouting'
+
+const fade = (below30: number | null, last = 60): FadeRow => ({ first_turn_below_30: below30, last_turn_tracked: last })
+
+const player = (id: string, goals: number, tackles: number, totalTackles: number, totalFouls: number): ScoutingPlayerRow => ({
+  player_id: id,
+  player_name: id.toUpperCase(),
+  matches_played: 4,
+  total_tackles: totalTackles,
+  total_fouls: totalFouls,
+  avg_goals_per_match: goals,
+  avg_tackles_per_match: tackles,
+})
+
+test('fade pattern follows the median point players drop below 30', () => {
+  assert.equal(classifyFadePattern([fade(10), fade(15), fade(50)]), 'early')
+  assert.equal(classifyFadePattern([fade(25), fade(30), fade(null)]), 'mid')
+  assert.equal(classifyFadePattern([fade(45), fade(55)]), 'late')
+})
+
+test('teams that mostly stay above 30 are consistent', () => {
+  assert.equal(classifyFadePattern([fade(10), fade(null), fade(null)]), 'consistent')
+})
+
+test('fade pattern is unknown without tracked turns', () => {
+  assert.equal(classifyFadePattern([]), 'unknown')
+  assert.equal(classifyFadePattern([fade(null, 0), { first_turn_below_30: null, last_turn_tracked: null }]), 'unknown')
+})
+
+test('builds the report from the opponent side of every match', () => {
+  const report = buildScoutingReport(
+    { id: 'opp', name: 'Opponents' },
+    [
+      { home_team_id: 'opp', away_team_id: 'x', home_score: 3, away_score: 1 },
+      { home_team_id: 'y', away_team_id: 'opp', home_score: 2, away_score: 0 },
+      { home_team_id: 'opp', away_team_id: 'z', home_score: null, away_score: null },
+    ],
+    [
+      player('a', 1.5, 2, 8, 1),
+      player('b', 0.25, 6, 10, 4),  // 40% foul rate
+      player('c', 0, 1, 2, 2),      // too few tackles to flag
+      player('d', 0.5, 3, 12, 6),   // 50%
+    ],
+    [fade(30), fade(35)]
+  )
+
+  assert.equal(report.matchesAnalysed, 2)
+  assert.equal(report.avgGoalsScored, 1.5)
+  assert.equal(report.avgGoalsConceded, 1.5)
+  assert.deepEqual(report.topScorer, { playerId: 'a', playerName: 'A', avgGoals: 1.5 })
+  assert.deepEqual(report.topTackler, { playerId: 'b', playerName: 'B', avgTackles: 6 })
+  assert.deepEqual(report.highFoulRiskPlayers.map(p => [p.playerId, p.foulRate]), [['d', 0.5], ['b', 0.4]])
+  assert.equal(report.energyFadePattern, 'mid')
+})
+
+test('empty opponents get an empty report', () => {
+  const report = buildScoutingReport({ id: 'opp', name: 'Opponents' }, [], [], [])
+
+  assert.equal(report.matchesAnalysed, 0)
+  assert.equal(report.avgGoalsScored, 0)
+  assert.equal(report.topScorer, null)
+  assert.equal(report.topTackler, null)
+  assert.deepEqual(report.highFoulRiskPlayers, [])
+  assert.equal(report.energyFadePattern, 'unknown')
+})
@@ -0,0 +1,94 @@
+/**
+ * Substitution timing recommender — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  drainPerTurn,
+  penaltyMagnitude,
+  planSubstitution,
+  reviewSubstitution,
+  substitutionsByPlayer,
+  type EnergyPoint,
+} from '../src/lib/analytics/substitution'
+
+// Straight-line curve from `start`, losing `drain` per turn
+const line = (start: number, drain: number, turns: number): EnergyPoint[] =>
+  Array.from({ length: turns + 1 }, (_, turn) => ({ turn, energy: start - drain * turn }))
+
+test('penalty magnitude follows the game formula', () => {
+  assert.equal(penaltyMagnitude(50), 0)
+  assert.equal(penaltyMagnitude(30), 0)
+  assert.equal(penaltyMagnitude(20), 5)
+  assert.equal(penaltyMagnitude(10), 10)
+  assert.equal(penaltyMagnitude(4), 19)
+})
+
+test('drain is pooled across matches regardless of start level', () => {
+  assert.equal(drainPerTurn([line(100, 2, 10), line(60, 2, 20)]), 2)
+  assert.equal(drainPerTurn([line(100, 1, 10), line(100, 3, 10)]), 2)
+  assert.equal(drainPerTurn([[{ turn: 0, energy: 100 }]]), null)
+  assert.equal(drainPerTurn([]), null)
+  // Gaining energy never counts as negative drain
+  assert.equal(drainPerTurn([line(50, -1, 10)]), 0)
+})
+
+test('recommends a sub ahead of the predicted auto-sub', () => {
+  const plan = planSubstitution('p1', 100, 2, 60)
+
+  assert.equal(plan.predictedModerateTurn, 36)
+  assert.equal(plan.predictedAutoSubTurn, 41)
+  assert.equal(plan.predictedSevereTurn, 46)
+  assert.equal(plan.recommendedTurn, 39)
+})
+
+test('no sub when the auto-sub falls after the final turn or data is missing', () => {
+  assert.equal(planSubstitution('p1', 100, 2, 40).recommendedTurn, null)
+  assert.equal(planSubstitution('p1', 100, 0, 60).predictedAutoSubTurn, null)
+  assert.equal(planSubstitution('p1', null, 2, 60).recommendedTurn, null)
+  assert.equal(planSubstitution('p1', 100, null, 60).recommendedTurn, null)
+})
+
+test('reviews actual substitutions against the plan', () => {
+  const plan = planSubstitution('p1', 100, 2, 60) // sub by turn 39
+  const curve = line(100, 2, 45)
+
+  const onPlan = reviewSubstitution(plan, curve, { turn: 40, reason: null })
+  assert.equal(onPlan.verdict, 'on_plan')
+  assert.equal(onPlan.turnsFromPlan, 1)
+  // Off at turn 40, before any penalty was carried
+  assert.equal(onPlan.penaltyAfterPlan, 0)
+
+  assert.equal(reviewSubstitution(plan, curve, { turn: 30, reason: null }).verdict, 'early')
+  assert.equal(reviewSubstitution(plan, curve, { turn: 44, reason: null }).verdict, 'late')
+  assert.equal(reviewSubstitution(plan, curve, { turn: 10, reason: 'injury' }).verdict, 'injury')
+
+  // Auto-sub at 41: turn 40 (energy 20) was carried after the plan
+  const auto = reviewSubstitution(plan, curve, { turn: 41, reason: 'energy_low' })
+  assert.equal(auto.verdict, 'auto_sub')
+  assert.equal(auto.penaltyAfterPlan, 5)
+
+  // Played on to 45: turns 40–45 at energy 20, 18, …, 10
+  const missed = reviewSubstitution(plan, curve, null)
+  assert.equal(missed.verdict, 'missed')
+  assert.equal(missed.penaltyAfterPlan, 5 + 6 + 7 + 8 + 9 + 10)
+
+  const noNeed = planSubstitution('p1', 100, 1, 60)
+  assert.equal(reviewSubstitution(noNeed, curve, null).verdict, 'not_needed')
+  assert.equal(reviewSubstitution(noNeed, curve, { turn: 20, reason: null }).verdict, 'unplanned')
+})
+
+test('maps SUBSTITUTION events to the outgoing player', () => {
+  const subs = substitutionsByPlayer([
+    { turn: 5, type: 'GOAL', players_involved: ['a'], context: null },
+    { turn: 30, type: 'SUBSTITUTION', players_involved: ['a', 'b'], context: { substitution: { reason: 'energy_low' } } },
+    { turn: 35, type: 'SUBSTITUTION', players_involved: ['c', 'd'], context: null },
+    { turn: 50, type: 'SUBSTITUTION', players_involved: ['a', 'e'], context: { substitution: { reason: 'injury' } } },
+  ])
+
+  assert.deepEqual(subs, {
+    a: { turn: 30, reason: 'energy_low' },
+    c: { turn: 35, reason: null },
+  })
+})
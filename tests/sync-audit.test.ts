@@ -0,0 +1,104 @@
+/**
+ * Sync audit log + per-user throttle tests
+ *
+ * begin_sync_action via src/lib/supabase/sync-audit.ts against a local
+ * Supabase database (see tests/helpers.ts); skipped without it.
+ */
+
+import { describe, test, before, after, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import type { StubApi } from '../scripts/stub-api/server'
+import { setUpSyncEnv, resetDb, countRows, skipWithoutDb, type TestDb } from './helpers'
+import {
+  beginSyncAudit,
+  withSyncAudit,
+  listSyncAudit,
+  SyncThrottledError,
+  SYNC_THROTTLE,
+  CRON_ACTOR,
+  type SyncActor,
+} from '../src/lib/supabase/sync-audit'
+
+describe('sync audit', { skip: skipWithoutDb }, () => {
+  let stub: StubApi
+  let db: TestDb
+  let admin: SyncActor
+
+  before(async () => {
+    ({ stub, db } = await setUpSyncEnv())
+    const { data, error } = await db.auth.admin.createUser({
+      email: `audit-${Date.now()}@example.com`,
+      password: 'test-password',
+      email_confirm: true,
+    })
+    if (error || !data.user) throw new Error(`Failed to create test user: ${error?.message}`)
+    admin = { userId: data.user.id, label: data.user.email! }
+  })
+
+  after(async () => {
+    if (admin) await db.auth.admin.deleteUser(admin.userId!)
+    await stub?.close()
+  })
+
+  beforeEach(async () => {
+    await resetDb(db)
+  })
+
+  test('throttles a user once they hit the limit, and logs the refusal', async () => {
+    const { limit } = SYNC_THROTTLE.full_sync
+    for (let i = 0; i < limit; i++) await beginSyncAudit(db, admin, 'full_sync')
+
+    await assert.rejects(beginSyncAudit(db, admin, 'full_sync'), (err: unknown) => {
+      assert.ok(err instanceof SyncThrottledError)
+      assert.ok(err.retryAt)
+      return true
+    })
+
+    const entries = await listSyncAudit(db)
+    assert.equal(entries.length, limit + 1)
+    assert.equal(entries[0].outcome, 'throttled')
+    assert.equal(entries[0].actor, admin.label)
+  })
+
+  test('limits are per action', async () => {
+    const { limit } = SYNC_THROTTLE.full_sync
+    for (let i = 0; i < limit; i++) await beginSyncAudit(db, admin, 'full_sync')
+
+    await beginSyncAudit(db, admin, 'replay_sync', 'stub-match-01')
+    assert.equal(await countRows(db, 'sync_audit_log'), limit + 1)
+  })
+
+  test('cron runs are never throttled', async () => {
+    const runs = SYNC_THROTTLE.full_sync.limit + 2
+    for (let i = 0; i < runs; i++) await beginSyncAudit(db, CRON_ACTOR, 'full_sync')
+
+    const entries = await listSyncAudit(db)
+    assert.equal(entries.length, runs)
+    assert.ok(entries.every(e => e.actor === 'cron' && e.outcome === 'started'))
+  })
+
+  test('withSyncAudit records success and failure', async () => {
+    assert.equal(await withSyncAudit(db, admin, 'requeue_replay', 'stub-match-01', async () => 42), 42)
+    await assert.rejects(
+      withSyncAudit(db, admin, 'requeue_replay', 'stub-match-02', async () => { throw new Error('boom') }),
+      /boom/
+    )
+
+    const [failed, succeeded] = await listSyncAudit(db)
+    assert.equal(succeeded.outcome, 'succeeded')
+    assert.equal(succeeded.matchId, 'stub-match-01')
+    assert.ok(succeeded.finishedAt)
+    assert.equal(failed.outcome, 'failed')
+    assert.match(failed.error ?? '', /boom/)
+  })
+
+  test('withSyncAudit records a returned failure as failed', async () => {
+    const failedReplay = { success: false, error: 'Shockball API error 500' }
+    const result = await withSyncAudit(db, admin, 'replay_sync', 'stub-match-01', async () => failedReplay, r => !r.success)
+    assert.equal(result, failedReplay)
+
+    const [entry] = await listSyncAudit(db)
+    assert.equal(entry.outcome, 'failed')
+    assert.equal(entry.error, 'Shockball API error 500')
+  })
+})
@@ -0,0 +1,308 @@
+/**
+ * Sync worker integration tests
+ *
+ * syncMatches / syncMatchReplay / persistReplayData against a local
+ * Supabase database and the offline API stub. See tests/helpers.ts for
+ * the required environment; skipped without it.
+ */
+
+import { describe, test, before, after, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import type { StubApi } from '../scripts/stub-api/server'
+import { setUpSyncEnv, resetDb, countRows, skipWithoutDb, type TestDb } from './helpers'
+import type { ApiReplayData } from '../src/types'
+
+type SyncModule = typeof import('../src/workers/sync')
+type QueueModule = typeof import('../src/workers/replay-queue')
+
+// Fixture facts (scripts/stub-api/fixtures.ts): 12 completed matches, 6 of
+// them involving DS; 4 upcoming, 3 involving DS. Upcoming non-DS matches
+// aren't stored.
+const STORED_MATCHES = 15
+const DS_COMPLETED = 6
+const DS_UPCOMING = 3
+const REPLAY_MATCH = 'stub-match-01'   // DS vs Vipers
+
+describe('sync worker', { skip: skipWithoutDb }, () => {
+  let stub: StubApi
+  let db: TestDb
+  let sync: SyncModule
+  let queue: QueueModule
+
+  before(async () => {
+    ({ stub, db } = await setUpSyncEnv())
+    sync = await import('../src/workers/sync')
+    queue = await import('../src/workers/replay-queue')
+  })
+
+  after(async () => {
+    await stub?.close()
+  })
+
+  beforeEach(async () => {
+    stub.reset()
+    await resetDb(db)
+  })
+
+  const fixtureReplay = () => structuredClone(stub.fixtures.replays[REPLAY_MATCH]) as ApiReplayData
+
+  async function derivedCounts(matchId: string) {
+    return {
+      stats: await countRows(db, 'player_match_stats', matchId),
+      events: await countRows(db, 'match_events', matchId),
+      snapshots: await countRows(db, 'energy_snapshots', matchId),
+    }
+  }
+
+  async function remainingBudget() {
+    const { data } = await db.from('api_rate_limit').select('remaining').eq('id', 'shockball').single()
+    return data?.remaining
+  }
+
+  // ============================================================
+  // syncMatches
+  // ============================================================
+
+  test('stores listed matches and queues replays for completed DS matches', async () => {
+    const results = await sync.syncMatches()
+
+    assert.equal(results.errors, 0)
+    assert.equal(results.replaysQueued, DS_COMPLETED)
+    assert.equal(await countRows(db, 'matches'), STORED_MATCHES)
+    assert.equal(await countRows(db, 'replay_jobs'), DS_COMPLETED)
+
+    const { data: tracked } = await db.from('matches').select('id').eq('involves_tracked_team', true)
+    assert.equal(tracked?.length, DS_COMPLETED + DS_UPCOMING)
+  })
+
+  test('a second sync is a free 304 and writes nothing new', async () => {
+    await sync.syncMatches()
+    const requestsBefore = stub.requests.length
+    const budgetBefore = await remainingBudget()
+
+    const results = await sync.syncMatches()
+
+    assert.deepEqual(
+      stub.requests.slice(requestsBefore).map(r => r.status),
+      [304, 304]
+    )
+    // The slots claimed for the 304s are refunded
+    assert.equal(await remainingBudget(), budgetBefore)
+    assert.equal(results.upcoming, 0)
+    assert.equal(results.recent, 0)
+    assert.equal(results.replaysQueued, 0)
+    assert.equal(await countRows(db, 'matches'), STORED_MATCHES)
+    assert.equal(await countRows(db, 'replay_jobs'), DS_COMPLETED)
+  })
+
+  test('re-syncing changed lists is idempotent', async () => {
+    await sync.syncMatches()
+    stub.touch()
+
+    const results = await sync.syncMatches()
+
+    assert.equal(results.recent, 12)
+    assert.equal(results.replaysQueued, 0)   // jobs already exist
+    assert.equal(await countRows(db, 'matches'), STORED_MATCHES)
+    assert.equal(await countRows(db, 'replay_jobs'), DS_COMPLETED)
+  })
+
+  test('syncs every tracked team', async () => {
+    await db.from('teams').insert({ id: 'stub-team-titans', name: 'Titans' })
+    await db.from('tracked_teams').insert({ team_id: 'stub-team-titans', short_name: 'TIT' })
+
+    const results = await sync.syncMatches()
+
+    // Titans: completed 07, 08, 11 (08 is vs DS, already queued) and upcoming 16
+    assert.equal(results.replaysQueued, DS_COMPLETED + 2)
+    assert.equal(await countRows(db, 'matches'), STORED_MATCHES + 1)
+  })
+
+  test('follows hasMore pagination', async () => {
+    stub.setScenario({ pageSize: 5 })
+
+    await sync.syncMatches()
+
+    const recentPages = stub.requests.filter(r => r.path.startsWith('/api/v1/data/matches/recent'))
+    assert.equal(recentPages.length, 3)
+    assert.equal(await countRows(db, 'matches'), STORED_MATCHES)
+  })
+
+  test('match history stores completed matches back to the start of the range', async () => {
+    stub.setScenario({ pageSize: 2 })
+    const from = stub.fixtures.recent[2].scheduledTime   // third newest
+
+    assert.equal(await sync.syncMatchHistory({ from }), 3)
+    assert.equal(await countRows(db, 'matches'), 3)
+
+    // Paging stops with the page that passes the start of the range
+    const recentPages = stub.requests.filter(r => r.path.startsWith('/api/v1/data/matches/recent'))
+    assert.equal(recentPages.length, 2)
+  })
+
+  // ============================================================
+  // syncMatchReplay / persistReplayData
+  // ============================================================
+
+  test('persists stats, events and energy snapshots for a replay', async () => {
+    await sync.syncMatches()
+    const replay = fixtureReplay()
+
+    const result = await sync.syncMatchReplay(REPLAY_MATCH)
+
+    assert.equal(result.success, true)
+    assert.deepEqual(await derivedCounts(REPLAY_MATCH), {
+      stats: replay.data.playerStats.home.length + replay.data.playerStats.away.length,
+      events: replay.data.events.length,
+      snapshots: sync.extractEnergySnapshots(REPLAY_MATCH, replay.data.events).length,
+    })
+
+    const { data: match } = await db
+      .from('matches')
+      .select('replay_fetched, home_score, away_score')
+      .eq('id', REPLAY_MATCH)
+      .single()
+    assert.deepEqual(match, {
+      replay_fetched: true,
+      home_score: replay.data.match.homeScore,
+      away_score: replay.data.match.awayScore,
+    })
+    assert.equal(await countRows(db, 'replay_archive', REPLAY_MATCH), 1)
+  })
+
+  test('re-fetching a stored replay is a 304 and re-persisting is idempotent', async () => {
+    await sync.syncMatches()
+    await sync.syncMatchReplay(REPLAY_MATCH)
+    const counts = await derivedCounts(REPLAY_MATCH)
+
+    const refetch = await sync.syncMatchReplay(REPLAY_MATCH)
+    assert.equal(refetch.notModified, true)
+    assert.equal(stub.requests[stub.requests.length - 1].status, 304)
+
+    await sync.persistReplayData(db, REPLAY_MATCH, fixtureReplay())
+    assert.deepEqual(await derivedCounts(REPLAY_MATCH), counts)
+  })
+
+  test('penalty_tier and penalty_magnitude follow the game formula', async () => {
+    await sync.syncMatches()
+
+    const replay = fixtureReplay()
+    const energies = [100, 30, 29, 10, 9, 0]
+    replay.data.events = energies.map((energy, turn) => ({
+      turn,
+      type: turn === 0 ? 'MATCH_START' : 'TURN_UPDATE',
+      description: '',
+      playersInvolved: [],
+      homeScore: 0,
+      awayScore: 0,
+      context: turn === 0 ? { initialEnergy: { p1: energy } } : { turnEnergy: { p1: energy } },
+    }))
+    await sync.persistReplayData(db, REPLAY_MATCH, replay)
+
+    const { data } = await db
+      .from('energy_snapshots')
+      .select('turn, energy, penalty_tier, penalty_magnitude')
+      .eq('match_id', REPLAY_MATCH)
+      .order('turn')
+
+    assert.deepEqual(
+      (data ?? []).map(s => [s.energy, s.penalty_tier, Number(s.penalty_magnitude)]),
+      [
+        [100, 'none', 0],
+        [30, 'none', 0],
+        [29, 'moderate', 0.5],
+        [10, 'moderate', 10],
+        [9, 'severe', 11.5],
+        [0, 'severe', 25],
+      ]
+    )
+  })
+
+  // ============================================================
+  // Partial failures
+  // ============================================================
+
+  test('a malformed match is quarantined without aborting the sync', async () => {
+    stub.setScenario({ malformedMatchIds: ['stub-match-02'] })
+
+    const results = await sync.syncMatches()
+
+    assert.equal(results.errors, 0)
+    assert.equal(results.quarantined, 1)
+    assert.equal(await countRows(db, 'matches'), STORED_MATCHES - 1)
+
+    const { data: quarantined } = await db.from('quarantined_payloads').select('endpoint, entity_id')
+    assert.deepEqual(quarantined, [{ endpoint: 'recent', entity_id: 'stub-match-02' }])
+
+    const { data: log } = await db.from('sync_log').select('error').eq('endpoint', 'recent').single()
+    assert.match(String(log?.error), /stub-match-02/)
+  })
+
+  test('pages shorter than the requested limit are not skipped', async () => {
+    // The API caps pages at 5 rows, below the client's limit of 100, and a
+    // quarantined row still takes up its place in the page
+    stub.setScenario({ pageSize: 5, malformedMatchIds: ['stub-match-10'] })
+
+    await sync.syncMatches()
+
+    const offsets = stub.requests
+      .filter(r => r.path.startsWith('/api/v1/data/matches/recent'))
+      .map(r => new URL(r.path, 'http://stub').searchParams.get('offset'))
+    assert.deepEqual(offsets, ['0', '5', '10'])
+    assert.equal(await countRows(db, 'matches'), STORED_MATCHES - 1)
+  })
+
+  test('an invalid list response is logged and the other endpoint still syncs', async () => {
+    stub.setScenario({ invalidJson: ['upcoming'] })
+
+    const results = await sync.syncMatches()
+
+    assert.equal(results.errors, 1)
+    assert.equal(results.recent, 12)
+    const { data: log } = await db.from('sync_log').select('http_status, error').eq('endpoint', 'upcoming').single()
+    assert.equal(log?.http_status, 0)
+    assert.match(String(log?.error), /not valid JSON/)
+  })
+
+  test('an invalid replay is quarantined and dead-lettered without retries', async () => {
+    await sync.syncMatches()
+    stub.setScenario({ malformedReplayIds: [REPLAY_MATCH] })
+
+    const results = await queue.processReplayQueue({ timeBudgetMs: 5 * 60_000 })
+
+    assert.equal(results.deadLettered, 1)
+    assert.equal(results.succeeded, DS_COMPLETED - 1)
+
+    const { data: job } = await db.from('replay_jobs').select('status, attempts').eq('match_id', REPLAY_MATCH).single()
+    assert.deepEqual(job, { status: 'dead', attempts: 1 })
+    assert.deepEqual(await derivedCounts(REPLAY_MATCH), { stats: 0, events: 0, snapshots: 0 })
+    assert.equal(await countRows(db, 'quarantined_payloads'), 1)
+  })
+
+  test('a 429 is retried after Retry-After', async () => {
+    await sync.syncMatches()
+    stub.setScenario({ rateLimitNext: 1, retryAfterSeconds: 1 })
+    const requestsBefore = stub.requests.length
+
+    const result = await sync.syncMatchReplay(REPLAY_MATCH)
+
+    assert.equal(result.success, true)
+    assert.deepEqual(stub.requests.slice(requestsBefore).map(r => r.status), [429, 200])
+  })
+
+  test('a failed persist rolls back and keeps the previous rows', async () => {
+    await sync.syncMatches()
+    await sync.syncMatchReplay(REPLAY_MATCH)
+    const counts = await derivedCounts(REPLAY_MATCH)
+
+    // Bypasses validation: energy > 100 violates the energy_snapshots check
+    const broken = fixtureReplay()
+    broken.data.events.push({
+      turn: 99, type: 'TURN_UPDATE', description: '', playersInvolved: [],
+      homeScore: 0, awayScore: 0, context: { turnEnergy: { p1: 140 } },
+    })
+
+    await assert.rejects(sync.persistReplayData(db, REPLAY_MATCH, broken))
+    assert.deepEqual(await derivedCounts(REPLAY_MATCH), counts)
+  })
+})
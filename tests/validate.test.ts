@@ -0,0 +1,41 @@
+/**
+ * Replay validation of event context fields — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ApiValidationError, parseReplayData } from '../src/lib/shockball/validate'
+
+const team = { id: 't1', name: 'Team' }
+
+const replayWith = (context: Record<string, unknown>) => ({
+  success: true,
+  data: {
+    match: { id: 'm1', homeTeam: team, awayTeam: team, homeScore: 0, awayScore: 0, scheduledTime: '2026-01-01T00:00:00Z', simVersion: '1' },
+    playerStats: { home: [], away: [] },
+    events: [{ turn: 1, type: 'SHOT', description: '', playersInvolved: ['p1'], homeScore: 0, awayScore: 0, context }],
+  },
+  timestamp: '2026-01-01T01:00:00Z',
+})
+
+test('numeric context fields accept numbers, null and missing values', () => {
+  assert.doesNotThrow(() => parseReplayData(replayWith({
+    shot: { distanceToGoal: 12.5, pressure: null, outcome: 'miss' },
+    pass: { defendersInLane: 2 },
+    tackle: { tacklerAggression: 0.7 },
+  }), '/replay'))
+})
+
+test('non-numeric context fields reject the replay', () => {
+  assert.throws(
+    () => parseReplayData(replayWith({ shot: { distanceToGoal: 'far' }, pass: { defendersInLane: 1.5 } }), '/replay'),
+    (err: unknown) => {
+      assert.ok(err instanceof ApiValidationError)
+      assert.deepEqual(err.issues, [
+        '$.data.events[0].context.shot.distanceToGoal: expected number, got string',
+        '$.data.events[0].context.pass.defendersInLane: expected integer, got 1.5',
+      ])
+      return true
+    }
+  )
+})
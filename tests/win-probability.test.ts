@@ -0,0 +1,84 @@
+/**
+ * Win probability model — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  fitWinProbabilityModel,
+  homeWinProbability,
+  swingEvents,
+  winProbabilityCurve,
+  MIN_TRAINING_MATCHES,
+  type TurnStateRow,
+} from '../src/lib/analytics/win-probability'
+
+const LAST_TURN = 20
+
+// Matches where the side that scores at `goalTurn` holds on, and fades less
+function trainingStates(): TurnStateRow[] {
+  const rows: TurnStateRow[] = []
+  for (let m = 0; m < 40; m++) {
+    const homeScores = m % 3 !== 0
+    const goalTurn = 2 + (m % 17)
+    for (let turn = 0; turn <= LAST_TURN; turn++) {
+      const scored = turn >= goalTurn ? 1 : 0
+      rows.push({
+        match_id: `m${m}`,
+        turn,
+        last_turn: LAST_TURN,
+        home_score: homeScores ? scored : 0,
+        away_score: homeScores ? 0 : scored,
+        home_energy: 100 - turn * (homeScores ? 2 : 3),
+        away_energy: 100 - turn * (homeScores ? 3 : 2),
+        home_won: homeScores,
+      })
+    }
+  }
+  return rows
+}
+
+const state = (turn: number, home: number, away: number) => ({
+  turn, last_turn: LAST_TURN, home_score: home, away_score: away, home_energy: 60, away_energy: 60,
+})
+
+test('leads raise home win probability, more so late in the match', () => {
+  const model = fitWinProbabilityModel(trainingStates())
+  assert.ok(model.logistic)
+  assert.equal(model.trainedOnMatches, 40)
+
+  const level = homeWinProbability(model, state(10, 0, 0))
+  const earlyLead = homeWinProbability(model, state(5, 1, 0))
+  const lateLead = homeWinProbability(model, state(19, 1, 0))
+  const lateDeficit = homeWinProbability(model, state(19, 0, 1))
+
+  assert.ok(earlyLead > level)
+  assert.ok(lateLead > earlyLead)
+  assert.ok(lateDeficit < level)
+})
+
+test('too few matches fall back to the home win rate', () => {
+  const states = trainingStates().filter(s => Number(s.match_id.slice(1)) < MIN_TRAINING_MATCHES - 1)
+  const model = fitWinProbabilityModel(states)
+
+  assert.equal(model.logistic, null)
+  assert.equal(homeWinProbability(model, state(19, 3, 0)), model.homeWinRate)
+})
+
+test('swings are goals, serious injuries and heavy fouls with their turn delta', () => {
+  const model = fitWinProbabilityModel(trainingStates())
+  const curve = winProbabilityCurve(model, [state(2, 1, 0), state(0, 0, 0), state(1, 0, 0)])
+  assert.deepEqual(curve.map(p => p.turn), [0, 1, 2])
+
+  const swings = swingEvents(curve, [
+    { turn: 2, type: 'GOAL', description: 'Goal!', players_involved: ['p1'], context: null },
+    { turn: 1, type: 'FOUL', description: 'Foul', players_involved: ['p2'], context: { foul: { severity: 'normal' } } },
+    { turn: 1, type: 'FOUL', description: 'Foul', players_involved: ['p3'], context: { foul: { severity: 'heavy' } } },
+    { turn: 0, type: 'INJURY', description: 'Injured', players_involved: ['p4'], context: { injury: { severity: 'SERIOUS' } } },
+    { turn: 1, type: 'INJURY', description: 'Injured', players_involved: ['p5'], context: { injury: { severity: 'MINOR' } } },
+  ])
+
+  assert.deepEqual(swings.map(s => [s.kind, s.playerId]), [['goal', 'p1'], ['heavy_foul', 'p3'], ['serious_injury', 'p4']])
+  assert.ok(swings[0].delta! > 0)
+  assert.equal(swings[2].delta, null)
+})
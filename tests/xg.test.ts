@@ -0,0 +1,77 @@
+/**
+ * Logistic regression + expected goals model — pure, no database needed
+ */
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { fitLogistic, predictLogistic } from '../src/lib/analytics/logistic'
+import { fitXgModel, shotXg, summariseXg, MIN_TRAINING_SHOTS, type ShotRow } from '../src/lib/analytics/xg'
+
+const shot = (distance: number | null, isGoal: boolean, shooter = 'p1'): ShotRow => ({
+  match_id: 'm1',
+  seq: 0,
+  turn: 1,
+  shooter_id: shooter,
+  distance_to_goal: distance,
+  pressure: null,
+  shooter_accuracy: null,
+  guard_blocking: null,
+  outcome: isGoal ? 'goal' : 'miss',
+  is_goal: isGoal,
+})
+
+// Close shots mostly go in, long ones mostly don't
+function trainingShots(): ShotRow[] {
+  const shots: ShotRow[] = []
+  for (let d = 1; d <= 30; d++) {
+    for (let k = 0; k < 3; k++) shots.push(shot(d, (d * 7 + k * 11) % 30 >= d))
+  }
+  return shots
+}
+
+test('logistic fit recovers a simple threshold', () => {
+  const rows = [[1], [2], [3], [4], [5], [6], [7], [8]]
+  const labels = [true, true, true, false, true, false, false, false]
+  const model = fitLogistic(rows, labels)
+
+  assert.ok(model.weights[0] < 0)
+  assert.ok(predictLogistic(model, [1]) > 0.8)
+  assert.ok(predictLogistic(model, [8]) < 0.2)
+  // Missing values sit at the feature mean
+  assert.ok(Math.abs(predictLogistic(model, [null]) - predictLogistic(model, [4.5])) < 1e-9)
+})
+
+test('logistic fit converges on separable data', () => {
+  const model = fitLogistic([[1], [2], [3], [4]], [true, true, false, false])
+  assert.ok(Number.isFinite(model.bias) && Number.isFinite(model.weights[0]))
+})
+
+test('logistic fit needs both labels', () => {
+  assert.throws(() => fitLogistic([[1], [2]], [true, true]), /labels are all the same/)
+  assert.throws(() => fitLogistic([], []), /one label per row/)
+})
+
+test('xG falls with distance once enough shots are stored', () => {
+  const shots = trainingShots()
+  assert.ok(shots.length >= MIN_TRAINING_SHOTS)
+
+  const model = fitXgModel(shots)
+  assert.notEqual(model.logistic, null)
+  assert.ok(shotXg(model, shot(2, false)) > shotXg(model, shot(25, false)))
+})
+
+test('few shots fall back to the base conversion rate', () => {
+  const model = fitXgModel([shot(5, true), shot(10, false), shot(20, false), shot(30, false)])
+
+  assert.equal(model.logistic, null)
+  assert.equal(shotXg(model, shot(1, false)), 0.25)
+  assert.equal(fitXgModel([]).baseRate, 0)
+})
+
+test('player summary compares goals with xG', () => {
+  const model = fitXgModel([shot(5, true), shot(10, false), shot(20, false), shot(30, false)])
+  const summary = summariseXg(model, [shot(5, true), shot(6, true), shot(7, false), shot(8, false)])
+
+  assert.deepEqual(summary, { shots: 4, goals: 2, xg: 1, xgPerShot: 0.25, goalsMinusXg: 1 })
+  assert.equal(summariseXg(model, []).xgPerShot, null)
+})